@@ -0,0 +1,563 @@
+/**
+ * Screenshot annotation editor
+ * Shadow-DOM overlay injected into the page after capture; resolves with the edited PNG
+ */
+
+type AnnotationTool = 'arrow' | 'box' | 'freehand' | 'text' | 'blur' | 'redact';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export type Annotation =
+  | { tool: 'arrow' | 'box' | 'blur' | 'redact'; color: string; width: number; from: Point; to: Point }
+  | { tool: 'freehand'; color: string; width: number; points: Point[] }
+  | { tool: 'text'; color: string; size: number; at: Point; text: string };
+
+const TOOLS: { id: AnnotationTool; label: string; title: string }[] = [
+  { id: 'arrow', label: '↗', title: 'Arrow (A)' },
+  { id: 'box', label: '▭', title: 'Box (B)' },
+  { id: 'freehand', label: '✎', title: 'Freehand (F)' },
+  { id: 'text', label: 'T', title: 'Text label (T)' },
+  { id: 'blur', label: '◌', title: 'Blur area (U)' },
+  { id: 'redact', label: '■', title: 'Redact area (R)' }
+];
+
+const TOOL_SHORTCUTS: Record<string, AnnotationTool> = {
+  a: 'arrow',
+  b: 'box',
+  f: 'freehand',
+  t: 'text',
+  u: 'blur',
+  r: 'redact'
+};
+
+const COLORS = ['#ef4444', '#f59e0b', '#10b981', '#3b82f6', '#111827'];
+
+const SHADOW_HOST_ID = 'bridgeai-annotator-shadow-host';
+
+class AnnotationEditor {
+  private shadowRoot: ShadowRoot | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private context: CanvasRenderingContext2D | null = null;
+  private image: HTMLImageElement | null = null;
+  private annotations: Annotation[] = [];
+  private draft: Annotation | null = null;
+  private tool: AnnotationTool = 'arrow';
+  private color = COLORS[0];
+  private resolve: ((result: string | null) => void) | null = null;
+  private boundKeydown = this.handleKeydown.bind(this);
+
+  /**
+   * Open the editor for a screenshot; resolves null when the user cancels
+   */
+  open(dataUrl: string): Promise<string | null> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+
+      const image = new Image();
+      image.onload = () => {
+        this.image = image;
+        this.createShadowDOM();
+        this.setupEventListeners();
+        this.render();
+      };
+      image.onerror = () => {
+        console.error('Annotator could not load screenshot');
+        // Nothing to edit; pass the capture through unchanged
+        this.finish(dataUrl);
+      };
+      image.src = dataUrl;
+    });
+  }
+
+  /**
+   * Create shadow DOM for CSS isolation (same approach as the popup)
+   */
+  private createShadowDOM() {
+    document.getElementById(SHADOW_HOST_ID)?.remove();
+
+    const shadowHost = document.createElement('div');
+    shadowHost.id = SHADOW_HOST_ID;
+    shadowHost.style.cssText = 'position: fixed; top: 0; left: 0; z-index: 2147483647;';
+
+    this.shadowRoot = shadowHost.attachShadow({ mode: 'closed' });
+    this.shadowRoot.innerHTML = this.getHTMLContent();
+
+    this.canvas = this.shadowRoot.getElementById('annotation-canvas') as HTMLCanvasElement;
+    this.canvas.width = this.image!.naturalWidth;
+    this.canvas.height = this.image!.naturalHeight;
+    this.context = this.canvas.getContext('2d');
+
+    document.documentElement.appendChild(shadowHost);
+  }
+
+  /**
+   * Get HTML content for shadow DOM
+   */
+  private getHTMLContent(): string {
+    const toolButtons = TOOLS.map(tool => `
+      <button class="tool${tool.id === this.tool ? ' active' : ''}" data-tool="${tool.id}" title="${tool.title}">${tool.label}</button>
+    `).join('');
+
+    const colorButtons = COLORS.map(color => `
+      <button class="swatch${color === this.color ? ' active' : ''}" data-color="${color}" style="background: ${color};" title="${color}"></button>
+    `).join('');
+
+    return `
+      <style>
+        :host {
+          all: initial;
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        }
+
+        .annotator-overlay {
+          position: fixed;
+          inset: 0;
+          display: flex;
+          flex-direction: column;
+          background: rgba(17, 24, 39, 0.85);
+        }
+
+        .toolbar {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          padding: 10px 16px;
+          background: #ffffff;
+          border-bottom: 1px solid #e5e7eb;
+          box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);
+        }
+
+        .toolbar .title {
+          font-size: 14px;
+          font-weight: 600;
+          color: #111827;
+          margin-right: 8px;
+        }
+
+        .group {
+          display: flex;
+          gap: 4px;
+          padding-right: 8px;
+          border-right: 1px solid #e5e7eb;
+        }
+
+        .tool,
+        .action {
+          min-width: 32px;
+          height: 32px;
+          padding: 0 10px;
+          border: 1px solid #d1d5db;
+          border-radius: 6px;
+          background: #f9fafb;
+          color: #111827;
+          font-size: 14px;
+          cursor: pointer;
+        }
+
+        .tool:hover,
+        .action:hover {
+          background: #f3f4f6;
+        }
+
+        .tool.active {
+          background: #3b82f6;
+          border-color: #3b82f6;
+          color: #ffffff;
+        }
+
+        .swatch {
+          width: 24px;
+          height: 24px;
+          border: 2px solid transparent;
+          border-radius: 50%;
+          cursor: pointer;
+        }
+
+        .swatch.active {
+          border-color: #111827;
+          box-shadow: 0 0 0 2px #ffffff inset;
+        }
+
+        .spacer {
+          flex: 1;
+        }
+
+        .action.primary {
+          background: #3b82f6;
+          border-color: #3b82f6;
+          color: #ffffff;
+        }
+
+        .action.primary:hover {
+          background: #2563eb;
+        }
+
+        .stage {
+          flex: 1;
+          overflow: auto;
+          display: flex;
+          align-items: flex-start;
+          justify-content: center;
+          padding: 24px;
+        }
+
+        canvas {
+          max-width: 100%;
+          cursor: crosshair;
+          box-shadow: 0 10px 30px rgba(0, 0, 0, 0.4);
+          background: #ffffff;
+        }
+
+        .text-input {
+          position: fixed;
+          min-width: 160px;
+          padding: 4px 6px;
+          border: 2px solid #3b82f6;
+          border-radius: 4px;
+          font-size: 14px;
+          outline: none;
+        }
+      </style>
+      <div class="annotator-overlay">
+        <div class="toolbar">
+          <span class="title">Annotate screenshot</span>
+          <div class="group">${toolButtons}</div>
+          <div class="group">${colorButtons}</div>
+          <button class="action" id="undo" title="Undo (Ctrl+Z)">Undo</button>
+          <div class="spacer"></div>
+          <button class="action" id="cancel" title="Cancel (Esc)">Cancel</button>
+          <button class="action" id="skip" title="Send without annotations">Skip</button>
+          <button class="action primary" id="done" title="Send (Ctrl+Enter)">Done</button>
+        </div>
+        <div class="stage">
+          <canvas id="annotation-canvas"></canvas>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Setup toolbar and drawing handlers
+   */
+  private setupEventListeners() {
+    if (!this.shadowRoot || !this.canvas) return;
+
+    this.shadowRoot.querySelectorAll<HTMLButtonElement>('.tool').forEach(button => {
+      button.addEventListener('click', () => this.selectTool(button.dataset.tool as AnnotationTool));
+    });
+
+    this.shadowRoot.querySelectorAll<HTMLButtonElement>('.swatch').forEach(button => {
+      button.addEventListener('click', () => this.selectColor(button.dataset.color!));
+    });
+
+    this.shadowRoot.getElementById('undo')?.addEventListener('click', () => this.undo());
+    this.shadowRoot.getElementById('cancel')?.addEventListener('click', () => this.finish(null));
+    this.shadowRoot.getElementById('skip')?.addEventListener('click', () => this.finish(this.image!.src));
+    this.shadowRoot.getElementById('done')?.addEventListener('click', () => this.finish(this.export()));
+
+    this.canvas.addEventListener('pointerdown', (e) => this.handlePointerDown(e));
+    this.canvas.addEventListener('pointermove', (e) => this.handlePointerMove(e));
+    this.canvas.addEventListener('pointerup', () => this.handlePointerUp());
+
+    document.addEventListener('keydown', this.boundKeydown, true);
+  }
+
+  private selectTool(tool: AnnotationTool) {
+    this.tool = tool;
+    this.shadowRoot?.querySelectorAll<HTMLButtonElement>('.tool').forEach(button => {
+      button.classList.toggle('active', button.dataset.tool === tool);
+    });
+  }
+
+  private selectColor(color: string) {
+    this.color = color;
+    this.shadowRoot?.querySelectorAll<HTMLButtonElement>('.swatch').forEach(button => {
+      button.classList.toggle('active', button.dataset.color === color);
+    });
+  }
+
+  /**
+   * Stroke width in image pixels, so annotations look the same on HiDPI and full-page captures
+   */
+  private get strokeWidth(): number {
+    return Math.max(3, Math.round(this.canvas!.width / 400));
+  }
+
+  /**
+   * Map a pointer event to canvas (image) coordinates
+   */
+  private toCanvasPoint(e: PointerEvent): Point {
+    const rect = this.canvas!.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (this.canvas!.width / rect.width),
+      y: (e.clientY - rect.top) * (this.canvas!.height / rect.height)
+    };
+  }
+
+  private handlePointerDown(e: PointerEvent) {
+    e.preventDefault();
+    const point = this.toCanvasPoint(e);
+
+    if (this.tool === 'text') {
+      this.promptForText(point, e.clientX, e.clientY);
+      return;
+    }
+
+    this.canvas!.setPointerCapture(e.pointerId);
+
+    if (this.tool === 'freehand') {
+      this.draft = { tool: 'freehand', color: this.color, width: this.strokeWidth, points: [point] };
+    } else {
+      this.draft = { tool: this.tool, color: this.color, width: this.strokeWidth, from: point, to: point };
+    }
+  }
+
+  private handlePointerMove(e: PointerEvent) {
+    if (!this.draft) return;
+    const point = this.toCanvasPoint(e);
+
+    if (this.draft.tool === 'freehand') {
+      this.draft.points.push(point);
+    } else if (this.draft.tool !== 'text') {
+      this.draft.to = point;
+    }
+
+    this.render();
+  }
+
+  private handlePointerUp() {
+    if (!this.draft) return;
+
+    // Ignore accidental clicks that produced no visible shape
+    const isEmpty = this.draft.tool === 'freehand'
+      ? this.draft.points.length < 2
+      : this.draft.tool !== 'text' &&
+        Math.abs(this.draft.to.x - this.draft.from.x) < 3 &&
+        Math.abs(this.draft.to.y - this.draft.from.y) < 3;
+
+    if (!isEmpty) {
+      this.annotations.push(this.draft);
+    }
+
+    this.draft = null;
+    this.render();
+  }
+
+  /**
+   * Show an inline input for a text label at the clicked position
+   */
+  private promptForText(at: Point, clientX: number, clientY: number) {
+    if (!this.shadowRoot) return;
+
+    this.shadowRoot.querySelector('.text-input')?.remove();
+
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'text-input';
+    input.placeholder = 'Label text, Enter to add';
+    input.style.left = `${clientX}px`;
+    input.style.top = `${clientY}px`;
+    input.style.color = this.color;
+
+    const commit = () => {
+      const text = input.value.trim();
+      input.remove();
+      if (text) {
+        this.annotations.push({ tool: 'text', color: this.color, size: this.strokeWidth * 6, at, text });
+        this.render();
+      }
+    };
+
+    input.addEventListener('keydown', (e) => {
+      e.stopPropagation();
+      if (e.key === 'Enter') {
+        commit();
+      } else if (e.key === 'Escape') {
+        input.remove();
+      }
+    });
+    input.addEventListener('blur', commit);
+
+    this.shadowRoot.querySelector('.annotator-overlay')?.appendChild(input);
+    setTimeout(() => input.focus(), 0);
+  }
+
+  private undo() {
+    this.annotations.pop();
+    this.render();
+  }
+
+  /**
+   * Handle keyboard shortcuts
+   */
+  private handleKeydown(e: KeyboardEvent) {
+    // The text label input handles its own keys
+    if (e.composedPath()[0] instanceof HTMLInputElement) return;
+
+    // Keep shortcuts from reaching the page underneath
+    e.stopPropagation();
+
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      this.finish(null);
+    } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      this.finish(this.export());
+    } else if (e.key.toLowerCase() === 'z' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      this.undo();
+    } else if (!e.ctrlKey && !e.metaKey && !e.altKey && TOOL_SHORTCUTS[e.key.toLowerCase()]) {
+      this.selectTool(TOOL_SHORTCUTS[e.key.toLowerCase()]);
+    }
+  }
+
+  /**
+   * Redraw the screenshot and all annotations
+   */
+  private render() {
+    const ctx = this.context;
+    if (!ctx || !this.image || !this.canvas) return;
+
+    renderAnnotations(ctx, this.image, this.draft ? [...this.annotations, this.draft] : this.annotations);
+  }
+
+  /**
+   * Export the annotated screenshot as a PNG data URL
+   */
+  private export(): string {
+    this.draft = null;
+    this.render();
+    return this.canvas!.toDataURL('image/png');
+  }
+
+  private finish(result: string | null) {
+    document.removeEventListener('keydown', this.boundKeydown, true);
+    document.getElementById(SHADOW_HOST_ID)?.remove();
+
+    this.resolve?.(result);
+    this.resolve = null;
+  }
+}
+
+/**
+ * Draw the screenshot and annotations. Redact boxes are drawn before everything else, so blurs
+ * only ever see them, and again at the end, so nothing drawn later shows through them
+ */
+export function renderAnnotations(ctx: CanvasRenderingContext2D, image: CanvasImageSource, annotations: Annotation[]) {
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.drawImage(image, 0, 0);
+
+  const redactions = annotations.filter(annotation => annotation.tool === 'redact');
+  for (const annotation of [...redactions, ...annotations.filter(annotation => annotation.tool !== 'redact'), ...redactions]) {
+    drawAnnotation(ctx, annotation);
+  }
+}
+
+function drawAnnotation(ctx: CanvasRenderingContext2D, annotation: Annotation) {
+  ctx.save();
+
+  switch (annotation.tool) {
+    case 'box': {
+      const rect = normalizeRect(annotation.from, annotation.to);
+      ctx.strokeStyle = annotation.color;
+      ctx.lineWidth = annotation.width;
+      ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+      break;
+    }
+
+    case 'arrow': {
+      const { from, to } = annotation;
+      const angle = Math.atan2(to.y - from.y, to.x - from.x);
+      const headLength = annotation.width * 5;
+
+      ctx.strokeStyle = annotation.color;
+      ctx.fillStyle = annotation.color;
+      ctx.lineWidth = annotation.width;
+      ctx.lineCap = 'round';
+
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      ctx.stroke();
+
+      ctx.beginPath();
+      ctx.moveTo(to.x, to.y);
+      ctx.lineTo(to.x - headLength * Math.cos(angle - Math.PI / 6), to.y - headLength * Math.sin(angle - Math.PI / 6));
+      ctx.lineTo(to.x - headLength * Math.cos(angle + Math.PI / 6), to.y - headLength * Math.sin(angle + Math.PI / 6));
+      ctx.closePath();
+      ctx.fill();
+      break;
+    }
+
+    case 'freehand': {
+      ctx.strokeStyle = annotation.color;
+      ctx.lineWidth = annotation.width;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+
+      ctx.beginPath();
+      annotation.points.forEach((point, index) => {
+        if (index === 0) {
+          ctx.moveTo(point.x, point.y);
+        } else {
+          ctx.lineTo(point.x, point.y);
+        }
+      });
+      ctx.stroke();
+      break;
+    }
+
+    case 'text': {
+      ctx.font = `600 ${annotation.size}px -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif`;
+      ctx.textBaseline = 'top';
+
+      // White halo keeps labels readable on any background
+      ctx.lineWidth = Math.max(2, annotation.size / 6);
+      ctx.strokeStyle = '#ffffff';
+      ctx.strokeText(annotation.text, annotation.at.x, annotation.at.y);
+      ctx.fillStyle = annotation.color;
+      ctx.fillText(annotation.text, annotation.at.x, annotation.at.y);
+      break;
+    }
+
+    case 'blur': {
+      const rect = normalizeRect(annotation.from, annotation.to);
+      ctx.beginPath();
+      ctx.rect(rect.x, rect.y, rect.width, rect.height);
+      ctx.clip();
+      ctx.filter = `blur(${annotation.width * 4}px)`;
+      // What is drawn so far, not the original screenshot, so redacted content can't come back
+      ctx.drawImage(ctx.canvas, 0, 0);
+      break;
+    }
+
+    case 'redact': {
+      const rect = normalizeRect(annotation.from, annotation.to);
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+      break;
+    }
+  }
+
+  ctx.restore();
+}
+
+function normalizeRect(from: Point, to: Point) {
+  return {
+    x: Math.min(from.x, to.x),
+    y: Math.min(from.y, to.y),
+    width: Math.abs(to.x - from.x),
+    height: Math.abs(to.y - from.y)
+  };
+}
+
+// Global function to open the editor (called from the screenshot workflow)
+(window as any).showScreenshotAnnotator = (dataUrl: string): Promise<string | null> => {
+  const editor = new AnnotationEditor();
+  return editor.open(dataUrl);
+};
+
+export { AnnotationEditor };
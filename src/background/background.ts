@@ -3,30 +3,62 @@
  * Handles extension activation, text capture, and ChatGPT integration
  */
 
-import { storageManager } from '../utils/storage';
-import { sendToAI, validateMessage } from '../utils/chatgpt';
+import { storageManager, type ExtensionSettings } from '../utils/storage';
+import { sendToAI, validateMessage, describeAIResult, type AIMessage, type AIResult, type SendOptions } from '../utils/chatgpt';
 import { i18n } from '../utils/i18n';
-import { handleScreenshotMode } from '../utils/screenshot-mode';
-import { getAllPlatforms } from '../utils/ai-platforms';
+import { handleScreenshotMode, type ScreenshotCaptureMode } from '../utils/screenshot-mode';
+import { findPlatform, getAllPlatforms, getPlatform } from '../utils/ai-platforms';
 import { showNotification } from '../utils/notifications';
+import { truncateText } from '../utils/text-format';
+import { detectCode, type CodeHints } from '../utils/code-detection';
+import { historyManager } from '../utils/history';
+import { sendToMultiplePlatforms } from '../utils/fan-out';
+import { relayResponse, rewriteSelection } from '../utils/response-relay';
+import { buildPlatformParts, getSelectionLimit, sendInParts, usesChunking } from '../utils/chunking';
+import { collectPageMetadata, type PageMetadata } from '../utils/page-metadata';
+import { evaluateSiteRules, type SitePolicy } from '../utils/site-rules';
+import { isPlatformAllowed } from '../utils/managed-policy';
+import { maskSensitiveFields, parseCustomPatterns } from '../utils/redaction';
 
 interface CaptureResult {
   text: string;
   html: string;
   isEmpty: boolean;
   truncated: boolean;
+  isCode?: boolean;
+  codeLanguage?: string;
+  codeHints?: CodeHints; // Collected in the page, resolved into isCode/codeLanguage here
+  editable?: boolean; // Selection is inside a text field or contenteditable and can be rewritten in place
+  sitePolicy?: SitePolicy; // Site rules for the page, applied by the popup
 }
 
+const SITE_BLOCKED_MESSAGE = 'Sending to AI platforms is turned off on this site by a site rule';
+const PLATFORM_NOT_ALLOWED_MESSAGE = 'This AI platform is not allowed by your organization';
+
 /**
  * Initialize extension
  */
-chrome.runtime.onInstalled.addListener(() => {
+chrome.runtime.onInstalled.addListener(async (details) => {
   console.log('Send to ChatGPT extension installed');
   
+  // Stored settings of the previous version are migrated before anything reads them
+  if (details.reason === 'install' || details.reason === 'update') {
+    await storageManager.migrateSettings();
+  }
+  
   // Create context menu
   createContextMenu();
 });
 
+/**
+ * Rebuild the platform menus when an administrator changes the managed policy
+ */
+chrome.storage.onChanged.addListener((_changes, areaName) => {
+  if (areaName === 'managed') {
+    createContextMenu();
+  }
+});
+
 /**
  * Handle extension activation (toolbar button click or keyboard shortcut)
  */
@@ -63,6 +95,17 @@ chrome.contextMenus.onClicked.addListener(async (info, tab) => {
   } else if (info.menuItemId === 'manage-custom-platforms' && tab?.id) {
     console.log('Manage Custom Platforms clicked');
     await handleManageCustomPlatforms();
+  } else if (info.menuItemId === 'screenshot-region-mode' && tab?.id) {
+    console.log('Region screenshot context menu clicked (default platform)');
+    await handleScreenshotModeActivation(undefined, 'region');
+  } else if (typeof info.menuItemId === 'string' && info.menuItemId.startsWith('screenshot-fullpage-') && tab?.id) {
+    const platformId = info.menuItemId.replace('screenshot-fullpage-', '');
+    console.log('Full-page screenshot mode -> Platform:', platformId);
+    await handleScreenshotModeActivation(platformId, 'full-page');
+  } else if (typeof info.menuItemId === 'string' && info.menuItemId.startsWith('screenshot-region-') && tab?.id) {
+    const platformId = info.menuItemId.replace('screenshot-region-', '');
+    console.log('Region screenshot mode -> Platform:', platformId);
+    await handleScreenshotModeActivation(platformId, 'region');
   } else if (typeof info.menuItemId === 'string' && info.menuItemId.startsWith('screenshot-') && tab?.id) {
     // Handle dynamic platform selection (both built-in and custom)
     const platformId = info.menuItemId.replace('screenshot-', '');
@@ -106,6 +149,39 @@ async function createContextMenu() {
       });
     }
     
+    // Full-page variant lives inside the screenshot tree
+    chrome.contextMenus.create({
+      id: 'screenshot-fullpage-mode',
+      parentId: 'screenshot-mode',
+      title: 'Full Page',
+      contexts: ['page', 'frame', 'selection']
+    });
+    
+    for (const platform of allPlatforms) {
+      chrome.contextMenus.create({
+        id: `screenshot-fullpage-${platform.id}`,
+        parentId: 'screenshot-fullpage-mode',
+        title: platform.name,
+        contexts: ['page', 'frame', 'selection']
+      });
+    }
+    
+    // Region screenshot context menu (drag to select part of the page)
+    chrome.contextMenus.create({
+      id: 'screenshot-region-mode',
+      title: 'Send Region Screenshot to AI Platform',
+      contexts: ['page', 'frame', 'selection']
+    });
+    
+    for (const platform of allPlatforms) {
+      chrome.contextMenus.create({
+        id: `screenshot-region-${platform.id}`,
+        parentId: 'screenshot-region-mode',
+        title: platform.name,
+        contexts: ['page', 'frame', 'selection']
+      });
+    }
+    
     // Note: Custom platform management is now available in the extension popup Settings tab
     
   } catch (error) {
@@ -121,11 +197,18 @@ async function handleExtensionActivation(tabId: number) {
     // Get current settings
     const settings = await storageManager.getSettings();
     
+    // Blocked sites aren't read at all
+    const sitePolicy = await getSitePolicy(tabId);
+    if (sitePolicy.blocked) {
+      showNotification(SITE_BLOCKED_MESSAGE, 'error');
+      return;
+    }
+    
     // Capture selected text
-    const captureResult = await captureSelectedText(tabId, settings.maxTextLength);
+    const captureResult = await captureSelectedText(tabId, getSelectionLimit(settings));
     
     // Always show popup first - let user decide what to do
-    await showPopup(tabId, captureResult);
+    await showPopup(tabId, { ...captureResult, sitePolicy });
   } catch (error) {
     console.error('Extension activation failed:', error);
     showNotification(i18n.error(), 'error');
@@ -142,6 +225,24 @@ async function captureSelectedText(tabId: number, maxLength: number): Promise<Ca
       func: () => {
         // This function runs in the content script context
         function captureSelection() {
+          // Forget the editable target of an earlier capture
+          delete (window as any).__bridgeaiRewriteTarget;
+          
+          // Text fields keep their selection in offsets, not in the document selection
+          const active = document.activeElement;
+          const isTextField = active instanceof HTMLTextAreaElement ||
+            (active instanceof HTMLInputElement && ['text', 'search', 'url', 'tel', ''].includes(active.getAttribute('type')?.toLowerCase() || ''));
+          if (isTextField && active.selectionStart !== null && active.selectionEnd !== null && active.selectionStart !== active.selectionEnd) {
+            const start = active.selectionStart;
+            const end = active.selectionEnd;
+            const originalText = active.value.slice(start, end);
+            
+            if (originalText.trim().length > 0) {
+              (window as any).__bridgeaiRewriteTarget = { element: active, originalText, start, end };
+              return { text: originalText.trim(), html: '', isEmpty: false, truncated: false, editable: true };
+            }
+          }
+          
           const selection = window.getSelection();
           
           if (!selection || selection.rangeCount === 0) {
@@ -160,7 +261,37 @@ async function captureSelectedText(tabId: number, maxLength: number): Promise<Ca
           container.appendChild(range.cloneContents());
           const html = container.innerHTML;
           
-          return { text, html, isEmpty: false, truncated: false };
+          // Code hints: surrounding code element, its language classes and the file being viewed
+          const anchor = range.commonAncestorContainer;
+          const anchorElement = anchor instanceof Element ? anchor : anchor.parentElement;
+          const codeElement = anchorElement?.closest('pre, code') ||
+            (container.children.length === 1 && container.firstElementChild?.matches('pre') ? container.firstElementChild : null);
+          const languageElement = anchorElement?.closest('[class*="language-"], [class*="lang-"], [class*="highlight-source-"]') ||
+            container.querySelector('[class*="language-"], [class*="lang-"], [class*="highlight-source-"]');
+          const fileElement = anchorElement?.closest('[data-path], [data-file-path], [data-tagsearch-path]');
+          const isCodeHost = /(^|\.)(github|gitlab)\./.test(window.location.hostname);
+          
+          const codeHints = {
+            className: [codeElement?.className, languageElement?.className].filter(Boolean).join(' '),
+            filePath: fileElement?.getAttribute('data-path') ||
+              fileElement?.getAttribute('data-file-path') ||
+              fileElement?.getAttribute('data-tagsearch-path') ||
+              (isCodeHost ? window.location.pathname : ''),
+            inCodeElement: Boolean(codeElement && (codeElement.matches('pre') || codeElement.closest('pre') || text.includes('\n')))
+          };
+          
+          // Remember a selection inside a contenteditable so the answer can replace it later
+          const editingHost = anchorElement?.closest('[contenteditable]');
+          const editable = editingHost instanceof HTMLElement && editingHost.isContentEditable;
+          if (editable) {
+            (window as any).__bridgeaiRewriteTarget = {
+              element: editingHost,
+              originalText: selection.toString(),
+              range: range.cloneRange()
+            };
+          }
+          
+          return { text, html, isEmpty: false, truncated: false, codeHints, editable };
         }
         
         return captureSelection();
@@ -170,19 +301,20 @@ async function captureSelectedText(tabId: number, maxLength: number): Promise<Ca
     if (results && results[0] && results[0].result) {
       const result = results[0].result as CaptureResult;
       
-      // Process and truncate if needed
-      if (result.text.length > maxLength) {
-        const truncated = result.text.substring(0, maxLength);
-        const lastSpace = truncated.lastIndexOf(' ');
-        
-        if (lastSpace > maxLength * 0.8) {
-          result.text = truncated.substring(0, lastSpace) + '...';
-        } else {
-          result.text = truncated + '...';
-        }
-        
-        result.truncated = true;
+      if (!result.isEmpty) {
+        const detection = detectCode(result.text, result.codeHints);
+        result.isCode = detection.isCode;
+        result.codeLanguage = detection.language;
       }
+      delete result.codeHints;
+      
+      // Process and truncate if needed
+      const { text, truncated } = truncateText(result.text, maxLength);
+      result.text = text;
+      result.truncated = truncated;
+      
+      // Replacing the whole selection with an answer to part of it would lose text
+      result.editable = Boolean(result.editable) && !truncated;
       
       return result;
     }
@@ -223,9 +355,9 @@ async function showPopup(tabId: number, captureResult: CaptureResult) {
 /**
  * Handle screenshot mode activation (completely separate from text mode)
  */
-async function handleScreenshotModeActivation(platformId?: string) {
+async function handleScreenshotModeActivation(platformId?: string, captureMode: ScreenshotCaptureMode = 'visible') {
   try {
-    console.log('Screenshot mode activated');
+    console.log('Screenshot mode activated:', captureMode);
     
     // Check if current tab is accessible for screenshot
     const [currentTab] = await chrome.tabs.query({ active: true, currentWindow: true });
@@ -243,8 +375,18 @@ async function handleScreenshotModeActivation(platformId?: string) {
       return;
     }
     
-    // Use provided platform or get from settings
-    let platform = platformId;
+    const sitePolicy = await getSitePolicy(currentTab.id);
+    if (sitePolicy.blocked) {
+      showNotification(SITE_BLOCKED_MESSAGE, 'error');
+      return;
+    }
+    
+    if (sitePolicy.confirm && !(await confirmInTab(currentTab.id!, 'A site rule asks you to confirm before sending a screenshot of this page to an AI platform. Continue?'))) {
+      return;
+    }
+    
+    // Use the platform a site rule forces, the provided one or the one from settings
+    let platform = sitePolicy.platform || platformId;
     if (!platform) {
       const settings = await storageManager.getSettings();
       platform = settings.defaultPlatform || 'chatgpt';
@@ -252,10 +394,21 @@ async function handleScreenshotModeActivation(platformId?: string) {
     
     console.log('Using platform:', platform);
     
+    if (!(await isAllowedByPolicy(platform))) {
+      showNotification(PLATFORM_NOT_ALLOWED_MESSAGE, 'error');
+      return;
+    }
+    
     // Execute isolated screenshot workflow
-    const result = await handleScreenshotMode(platform);
+    const result = await handleScreenshotMode(platform, captureMode);
     
-    if (result.success) {
+    if (result.cancelled) {
+      console.log('Region selection cancelled');
+    } else if (result.success && result.method === 'upload' && result.verified) {
+      showNotification(`Screenshot attached in ${result.platform}`, 'success');
+    } else if (result.success && result.method === 'upload') {
+      showNotification(`Screenshot sent to ${result.platform}, but it could not confirm the attachment. If it is missing, paste it (Ctrl+V)`, 'warning');
+    } else if (result.success) {
       showNotification(
         `Screenshot ready! Go to ${result.platform} and paste (Ctrl+V)`,
         'success'
@@ -269,6 +422,63 @@ async function handleScreenshotModeActivation(platformId?: string) {
   }
 }
 
+/**
+ * Site rules for the page a message came from: its source URL when it has one (resends from
+ * history have no page tab), else the page in the sender's tab. No rules apply when neither is known
+ */
+async function getSitePolicy(tabId?: number, sourceUrl?: string): Promise<SitePolicy> {
+  let url = sourceUrl || '';
+  
+  if (!url && tabId !== undefined) {
+    try {
+      url = (await chrome.tabs.get(tabId)).url || '';
+    } catch (error) {
+      console.warn('Could not read the tab URL for site rules:', error);
+    }
+  }
+  
+  return evaluateSiteRules(url, await storageManager.getSiteRules());
+}
+
+/**
+ * Whether the platform exists and the managed policy lets prompts be sent to it
+ */
+async function isAllowedByPolicy(platformId: string): Promise<boolean> {
+  const platform = await findPlatform(platformId);
+  return platform !== null && isPlatformAllowed(await storageManager.getManagedPolicy(), platform.id);
+}
+
+/**
+ * The message as it may leave the browser. When the managed policy enforces redaction, anything
+ * not masked in the popup's review (or sent without one, like resends) is masked here
+ */
+async function applyEnforcedRedaction(message: AIMessage): Promise<AIMessage> {
+  const policy = await storageManager.getManagedPolicy();
+  if (!policy.enforceRedaction || !message) {
+    return message;
+  }
+  
+  const settings = await storageManager.getSettings();
+  return maskSensitiveFields(message, parseCustomPatterns(settings.redactionPatterns).patterns);
+}
+
+/**
+ * Ask the user in the page; false when they decline or the page can't show a dialog
+ */
+async function confirmInTab(tabId: number, message: string): Promise<boolean> {
+  try {
+    const [{ result }] = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: (text: string) => window.confirm(text),
+      args: [message]
+    });
+    return Boolean(result);
+  } catch (error) {
+    console.warn('Could not ask for confirmation:', error);
+    return false;
+  }
+}
+
 /**
  * Handle manage custom platforms (opens options page)
  */
@@ -309,7 +519,8 @@ async function getCurrentTabInfo() {
     
     return {
       title: activeTab.title || 'Untitled Page',
-      url: activeTab.url || 'No URL'
+      url: activeTab.url || 'No URL',
+      metadata: activeTab.id ? await getPageMetadata(activeTab.id) : undefined
     };
   } catch (error) {
     console.error('Failed to get current tab info:', error);
@@ -317,6 +528,22 @@ async function getCurrentTabInfo() {
   }
 }
 
+/**
+ * Open Graph, Twitter card, canonical URL and other metadata of a tab; undefined on pages scripts can't run in
+ */
+async function getPageMetadata(tabId: number): Promise<PageMetadata | undefined> {
+  try {
+    const [{ result }] = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: collectPageMetadata
+    });
+    return result as PageMetadata;
+  } catch (error) {
+    console.warn('Could not read page metadata:', error);
+    return undefined;
+  }
+}
+
 /**
  * Copy text to clipboard (fallback method)
  */
@@ -333,25 +560,59 @@ async function copyTextToClipboard(text: string) {
 }
 
 
+/**
+ * Stream direct API answers to the popup over a port; closing the popup aborts the request
+ */
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== 'send-stream') return;
+  
+  const controller = new AbortController();
+  let connected = true;
+  port.onDisconnect.addListener(() => {
+    connected = false;
+    controller.abort();
+  });
+  
+  const post = (message: unknown) => {
+    if (connected) port.postMessage(message);
+  };
+  
+  port.onMessage.addListener(async (message) => {
+    if (message.type !== 'SEND_TO_AI') return;
+    
+    const result = await handleSendToAI(message.data, {
+      onDelta: text => post({ type: 'delta', text }),
+      signal: controller.signal
+    }, port.sender?.tab?.id);
+    post({ type: 'result', result });
+  });
+});
+
 /**
  * Handle messages from content scripts and popup
  */
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   switch (message.type) {
     case 'SEND_TO_CHATGPT':
-      handleSendToChatGPT(message.data)
+      handleSendToChatGPT(message.data, sender.tab?.id)
         .then(result => sendResponse(result))
         .catch(error => sendResponse({ success: false, error: error.message }));
       return true; // Keep message channel open for async response
       
     case 'SEND_TO_AI':
-      handleSendToAI(message.data)
+      handleSendToAI(message.data, {}, sender.tab?.id)
+        .then(result => sendResponse(result))
+        .catch(error => sendResponse({ success: false, error: error.message }));
+      return true; // Keep message channel open for async response
+      
+    case 'SEND_TO_MULTIPLE_AI':
+      handleSendToMultipleAI(message.data, sender.tab?.id)
         .then(result => sendResponse(result))
         .catch(error => sendResponse({ success: false, error: error.message }));
       return true; // Keep message channel open for async response
       
     case 'SCREENSHOT_MODE':
-      handleScreenshotModeMessage(message.data)
+      handleScreenshotModeMessage(message.data, sender.tab?.id)
         .then(result => sendResponse(result))
         .catch(error => sendResponse({ success: false, error: error.message }));
       return true; // Keep message channel open for async response
@@ -394,12 +655,23 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
 /**
  * Handle screenshot mode message (programmatic call)
  */
-async function handleScreenshotModeMessage(data: any) {
+async function handleScreenshotModeMessage(data: any, sourceTabId?: number) {
   try {
     console.log('Received screenshot mode message:', data);
     
-    const platformId = data.platform || 'chatgpt';
-    const result = await handleScreenshotMode(platformId);
+    const sitePolicy = await getSitePolicy(sourceTabId);
+    if (sitePolicy.blocked) {
+      return { success: false, error: SITE_BLOCKED_MESSAGE };
+    }
+    
+    const platformId = sitePolicy.platform || data.platform || 'chatgpt';
+    if (!(await isAllowedByPolicy(platformId))) {
+      return { success: false, error: PLATFORM_NOT_ALLOWED_MESSAGE };
+    }
+    
+    const captureMode: ScreenshotCaptureMode =
+      data.captureMode === 'region' || data.captureMode === 'full-page' ? data.captureMode : 'visible';
+    const result = await handleScreenshotMode(platformId, captureMode);
     
     return result;
   } catch (error) {
@@ -414,20 +686,36 @@ async function handleScreenshotModeMessage(data: any) {
 /**
  * Handle send to ChatGPT message (backward compatibility)
  */
-async function handleSendToChatGPT(data: any) {
+async function handleSendToChatGPT(data: any, sourceTabId?: number) {
   try {
+    data = { ...data, message: await applyEnforcedRedaction(data.message) };
     console.log('Received data:', data);
-    console.log('Message to validate:', data.message);
+    
+    const sitePolicy = await getSitePolicy(sourceTabId, data.message?.sourceUrl);
+    if (sitePolicy.blocked) {
+      return { success: false, error: SITE_BLOCKED_MESSAGE };
+    }
+    
+    const platformId = sitePolicy.platform || 'chatgpt';
+    if (!(await isAllowedByPolicy(platformId))) {
+      return { success: false, error: PLATFORM_NOT_ALLOWED_MESSAGE };
+    }
     
     // Validate the message object, not the entire data
-    const validation = validateMessage(data.message);
+    const validation = validateMessage({ ...data.message, envelope: data.message.envelope || (await getPlatform(platformId)).envelope });
     console.log('Validation result:', validation);
     
     if (!validation.valid) {
       return { success: false, error: validation.error };
     }
     
-    const result = await sendToAI(data.message, data.autoSend, 'chatgpt');
+    // Callers of this message have no popup that asked already
+    if (sitePolicy.confirm && (sourceTabId === undefined || !(await confirmInTab(sourceTabId, 'A site rule asks you to confirm before sending content from this page to an AI platform. Send it?')))) {
+      return { success: false, error: 'Sending was not confirmed' };
+    }
+    
+    const result = await sendToAI(data.message, data.autoSend, platformId);
+    await recordHistory(data.message, platformId, result);
     return result;
   } catch (error) {
     console.error('Error in handleSendToChatGPT:', error);
@@ -438,24 +726,176 @@ async function handleSendToChatGPT(data: any) {
 /**
  * Handle send to AI platform message
  */
-async function handleSendToAI(data: any) {
+async function handleSendToAI(data: any, options: SendOptions = {}, sourceTabId?: number) {
   try {
+    data = { ...data, message: await applyEnforcedRedaction(data.message) };
     console.log('Received data:', data);
     console.log('Message to validate:', data.message);
     
-    // Validate the message object, not the entire data
-    const validation = validateMessage(data.message);
-    console.log('Validation result:', validation);
+    const settings = await storageManager.getSettings();
     
-    if (!validation.valid) {
-      return { success: false, error: validation.error };
+    // Site rules are checked again on send; the popup may have been opened before a rule was added
+    const sitePolicy = await getSitePolicy(sourceTabId, data.message?.sourceUrl);
+    if (sitePolicy.blocked) {
+      return { success: false, error: SITE_BLOCKED_MESSAGE };
+    }
+    
+    const platformId = sitePolicy.platform || data.platform || 'chatgpt';
+    if (!(await isAllowedByPolicy(platformId))) {
+      return { success: false, error: PLATFORM_NOT_ALLOWED_MESSAGE };
+    }
+    
+    const { parts, error } = await preparePlatformParts(data.message, platformId, settings);
+    console.log('Validation result:', error || 'valid');
+    
+    if (error) {
+      return { success: false, error };
+    }
+    
+    const rewrite = Boolean(data.rewrite) && sourceTabId !== undefined;
+    const relay = !rewrite && settings.relayResponses && sourceTabId !== undefined;
+    
+    const result = parts.length > 1
+      ? await sendInParts(parts, data.autoSend, platformId, options)
+      : await sendToAI(parts[0], data.autoSend, platformId, { ...options, watchResponse: relay || rewrite });
+    await recordHistory(data.message, platformId, result);
+    
+    if (rewrite && result.success) {
+      // Runs until the answer is complete; a failed rewrite still shows the answer in the page
+      rewriteSelection(result, platformId, sourceTabId)
+        .then(rewritten => {
+          if (!rewritten.replaced) {
+            showNotification(`Could not replace the selection: ${rewritten.error}`, 'warning');
+          }
+        })
+        .catch(error => console.warn('Failed to rewrite the selection:', error));
+    } else if (relay && result.success && result.method !== 'api') {
+      // Runs until the answer is complete; the popup gets its response right away
+      relayResponse(result, platformId, sourceTabId)
+        .catch(error => console.warn('Failed to relay the answer:', error));
+    }
+    
+    if (result.method === 'api') {
+      // Answers streamed into the popup need no notification; others (e.g. resends) show a preview
+      if (result.success && !options.onDelta) {
+        showNotification(`${describeAIResult(result)}: ${truncateText(result.response || '', 200).text}`, 'success', 15000);
+      }
+    } else if (result.success && result.method !== 'deeplink') {
+      // The popup's page is no longer in front once the platform tab opens
+      showNotification(describeAIResult(result), result.method === 'injected' ? 'success' : 'warning');
     }
     
-    const platformId = data.platform || 'chatgpt';
-    const result = await sendToAI(data.message, data.autoSend, platformId);
     return result;
   } catch (error) {
     console.error('Error in handleSendToAI:', error);
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Handle sending the same message to several AI platforms
+ */
+async function handleSendToMultipleAI(data: any, sourceTabId?: number) {
+  try {
+    data = { ...data, message: await applyEnforcedRedaction(data.message) };
+    const settings = await storageManager.getSettings();
+    const chunkLength = usesChunking(settings) ? settings.maxTextLength : undefined;
+    
+    const sitePolicy = await getSitePolicy(sourceTabId, data.message?.sourceUrl);
+    if (sitePolicy.blocked) {
+      return { success: false, error: SITE_BLOCKED_MESSAGE };
+    }
+    
+    // A forced platform replaces the fan-out selection
+    const platformIds: string[] = sitePolicy.platform
+      ? [sitePolicy.platform]
+      : Array.isArray(data.platforms) ? data.platforms : [];
+    if (platformIds.length === 0) {
+      return { success: false, error: 'Select at least one AI platform' };
+    }
+    
+    const allowed = await Promise.all(platformIds.map(platformId => isAllowedByPolicy(platformId)));
+    if (!allowed.every(Boolean)) {
+      return { success: false, error: PLATFORM_NOT_ALLOWED_MESSAGE };
+    }
+    
+    // Each platform lays the message out in its own envelope, so each is checked
+    for (const platformId of platformIds) {
+      const { error } = await preparePlatformParts(data.message, platformId, settings);
+      if (error) {
+        return { success: false, error };
+      }
+    }
+    
+    const results = await sendToMultiplePlatforms(data.message, data.autoSend, platformIds, { tile: Boolean(data.tile), chunkLength });
+    
+    for (const { platformId, result } of results) {
+      await recordHistory(data.message, platformId, result);
+    }
+    
+    const failed = results.filter(({ result }) => !result.success);
+    showNotification(
+      results
+        .map(({ platformId, result }) => result.success ? describeAIResult(result) : `${result.platform || platformId}: ${describeAIResult(result)}`)
+        .join('\n'),
+      failed.length === 0 ? 'success' : failed.length === results.length ? 'error' : 'warning'
+    );
+    
+    return { success: failed.length < results.length, results };
+  } catch (error) {
+    console.error('Error in handleSendToMultipleAI:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * The message in the platform's envelope, split into parts when long text is chunked (truncated for
+ * platforms that can't take parts). Every part has to fit in maxTextLength; a message that isn't
+ * split only has to fit the overall limit
+ */
+async function preparePlatformParts(
+  message: AIMessage,
+  platformId: string,
+  settings: ExtensionSettings
+): Promise<{ parts: AIMessage[]; error?: string }> {
+  const platform = await getPlatform(platformId);
+  const platformMessage = { ...message, envelope: message.envelope || platform.envelope };
+  const chunked = usesChunking(settings, platform);
+  // Text captured to be split is truncated for platforms that can't take parts
+  const parts = usesChunking(settings) ? buildPlatformParts(platformMessage, settings.maxTextLength, platform) : [platformMessage];
+  
+  const invalid = parts
+    .map(part => validateMessage(part, chunked ? settings.maxTextLength : undefined))
+    .find(validation => !validation.valid);
+  return { parts, error: invalid?.error };
+}
+
+/**
+ * Record a send in the local history (failures too, so the prompt isn't lost)
+ */
+async function recordHistory(message: AIMessage, platformId: string, result: AIResult) {
+  try {
+    const settings = await storageManager.getSettings();
+    if (!settings.historyEnabled) return;
+    
+    const platform = await getPlatform(platformId);
+    await historyManager.addEntry(
+      {
+        text: message.text || '',
+        instructions: message.instructions || '',
+        platform: platform.id,
+        platformName: platform.name,
+        sourceUrl: message.sourceUrl,
+        title: message.title,
+        method: result.method,
+        success: result.success,
+        submitted: result.submitted,
+        isCode: message.isCode,
+        codeLanguage: message.codeLanguage
+      },
+      { maxEntries: settings.historyMaxEntries, retentionDays: settings.historyRetentionDays }
+    );
+  } catch (error) {
+    console.warn('Failed to record history:', error);
+  }
+}
@@ -3,16 +3,75 @@
  * Handles user settings and preferences
  */
 
-import { storageManager, ExtensionSettings, DEFAULT_SETTINGS, CustomPlatform } from '../utils/storage';
-import { testClipboardPermissions } from '../utils/clipboard';
-import { testDeepLink } from '../utils/chatgpt';
+import { storageManager, ExtensionSettings, DEFAULT_SETTINGS, CustomPlatform, PromptTemplate, SendTransport, LongTextMode } from '../utils/storage';
+import { copyToClipboard, testClipboardPermissions } from '../utils/clipboard';
+import { testDeepLink, formatMessageForClipboard, type AIMessage } from '../utils/chatgpt';
 import { i18n } from '../utils/i18n';
 import { createIcon } from '../utils/icons';
+import { getAllPlatforms, getDefaultAdapter, type AIPlatform } from '../utils/ai-platforms';
+import { validateAdapter } from '../utils/platform-adapters';
+import { DEFAULT_MODEL, getPlatformModel, platformUsesModel } from '../utils/tokens';
+import { validateSettings } from '../utils/settings-validation';
+import { SETTINGS_VERSION, migrateSettings } from '../utils/migrations';
+import { findInvalidUrlRules } from '../utils/url-sanitizer';
+import { parseCustomPatterns } from '../utils/redaction';
+import { evaluateSiteRules, validateSiteRule, type SiteRule } from '../utils/site-rules';
+import {
+  API_ENDPOINT_NOT_ALLOWED_MESSAGE,
+  EMPTY_POLICY,
+  MANAGED_EXPLANATION,
+  applyManagedPolicy,
+  getLockedSettingKeys,
+  hasManagedPolicy,
+  isApiEndpointAllowed,
+  isManagedTemplate,
+  restrictsPlatforms,
+  type ManagedPolicy
+} from '../utils/managed-policy';
+import {
+  buildEnvelope,
+  getDefaultEnvelope,
+  normalizeEnvelope,
+  DEFAULT_CUSTOM_ENVELOPE,
+  type EnvelopeFormat
+} from '../utils/envelopes';
+import { streamChatCompletion } from '../utils/api-client';
+import { historyManager, searchHistory, type HistoryEntry, type HistoryRetention, type HistoryStatus } from '../utils/history';
+
+// Form fields of settings on this page, made read-only when the managed policy locks them
+const SETTING_FIELD_IDS: Partial<Record<keyof ExtensionSettings, string>> = {
+  autoSend: 'auto-send',
+  defaultInstructions: 'default-instructions',
+  platformModels: 'platform-model',
+  maxTextLength: 'max-text-length',
+  longTextMode: 'long-text-mode',
+  darkMode: 'dark-mode',
+  saveInstructions: 'save-instructions',
+  annotateScreenshots: 'annotate-screenshots',
+  relayResponses: 'relay-responses',
+  historyEnabled: 'history-enabled',
+  historyMaxEntries: 'history-max-entries',
+  historyRetentionDays: 'history-retention-days',
+  transport: 'transport',
+  apiEndpoint: 'api-endpoint',
+  apiModel: 'api-model',
+  cleanUrls: 'clean-urls',
+  urlCleanupRules: 'url-cleanup-rules',
+  reviewSensitiveData: 'review-sensitive-data',
+  redactionPatterns: 'redaction-patterns'
+};
 
 class OptionsManager {
   private settings: ExtensionSettings = DEFAULT_SETTINGS;
+  private policy: ManagedPolicy = EMPTY_POLICY;
   private unsavedChanges = false;
   private customPlatforms: CustomPlatform[] = [];
+  private templates: PromptTemplate[] = [];
+  private editingTemplateId: string | null = null;
+  private siteRules: SiteRule[] = [];
+  private editingSiteRuleId: string | null = null;
+  private adapterPlatforms: AIPlatform[] = [];
+  private historyEntries: HistoryEntry[] = [];
 
   /**
    * Initialize the options page
@@ -20,12 +79,19 @@ class OptionsManager {
   async init() {
     await this.loadSettings();
     await this.loadCustomPlatforms();
+    await this.loadTemplates();
     await this.setupProfessionalIcons();
     await this.setupEventListeners();
     await this.populateForm();
     await this.updateDarkMode();
     await this.checkSystemStatus();
     await this.setupCustomPlatformManagement();
+    await this.setupTemplateManagement();
+    await this.setupAdapterEditor();
+    await this.setupEnvelopeEditor();
+    await this.setupSiteRules();
+    await this.setupApiSettings();
+    await this.setupHistory();
     
     // Auto-save on changes
     this.setupAutoSave();
@@ -39,6 +105,7 @@ class OptionsManager {
    */
   private async loadSettings() {
     this.settings = await storageManager.getSettings();
+    this.policy = await storageManager.getManagedPolicy();
   }
 
   /**
@@ -48,14 +115,28 @@ class OptionsManager {
     this.customPlatforms = await storageManager.getCustomPlatforms();
   }
 
+  /**
+   * Load prompt templates from storage
+   */
+  private async loadTemplates() {
+    this.templates = await storageManager.getTemplates();
+  }
+
   /**
    * Setup professional icons for section headers
    */
   private async setupProfessionalIcons() {
     const iconMappings = [
       { selector: '.section-icon', iconName: 'settings', title: 'General Settings' },
+      { selector: '.section-icon', iconName: 'settings', title: 'Prompt Templates' },
       { selector: '.section-icon', iconName: 'settings', title: 'Appearance' },
       { selector: '.section-icon', iconName: 'settings', title: 'Custom AI Platforms' },
+      { selector: '.section-icon', iconName: 'settings', title: 'Platform Adapters' },
+      { selector: '.section-icon', iconName: 'settings', title: 'Message Format' },
+      { selector: '.section-icon', iconName: 'settings', title: 'Direct API' },
+      { selector: '.section-icon', iconName: 'settings', title: 'Privacy' },
+      { selector: '.section-icon', iconName: 'settings', title: 'Site Rules' },
+      { selector: '.section-icon', iconName: 'settings', title: 'Send History' },
       { selector: '.section-icon', iconName: 'settings', title: 'Clipboard & Integration' },
       { selector: '.section-icon', iconName: 'settings', title: 'Keyboard Shortcuts' },
       { selector: '.section-icon', iconName: 'settings', title: 'Advanced' }
@@ -64,8 +145,15 @@ class OptionsManager {
     // Map specific icons to sections
     const sectionIcons: Record<string, string> = {
       'General Settings': 'settings',
+      'Prompt Templates': 'settings',
       'Appearance': 'settings',
       'Custom AI Platforms': 'settings',
+      'Platform Adapters': 'settings',
+      'Message Format': 'settings',
+      'Direct API': 'settings',
+      'Privacy': 'settings',
+      'Site Rules': 'settings',
+      'Send History': 'settings',
       'Clipboard & Integration': 'settings',
       'Keyboard Shortcuts': 'settings',
       'Advanced': 'settings'
@@ -93,10 +181,24 @@ class OptionsManager {
     // Form elements
     const autoSendCheckbox = document.getElementById('auto-send') as HTMLInputElement;
     const defaultInstructionsTextarea = document.getElementById('default-instructions') as HTMLTextAreaElement;
-    const defaultModelSelect = document.getElementById('default-model') as HTMLSelectElement;
+    const modelPlatformSelect = document.getElementById('model-platform') as HTMLSelectElement;
+    const platformModelInput = document.getElementById('platform-model') as HTMLInputElement;
     const maxTextLengthInput = document.getElementById('max-text-length') as HTMLInputElement;
+    const longTextModeSelect = document.getElementById('long-text-mode') as HTMLSelectElement;
     const darkModeCheckbox = document.getElementById('dark-mode') as HTMLInputElement;
     const saveInstructionsCheckbox = document.getElementById('save-instructions') as HTMLInputElement;
+    const annotateScreenshotsCheckbox = document.getElementById('annotate-screenshots') as HTMLInputElement;
+    const relayResponsesCheckbox = document.getElementById('relay-responses') as HTMLInputElement;
+    const historyEnabledCheckbox = document.getElementById('history-enabled') as HTMLInputElement;
+    const historyMaxEntriesInput = document.getElementById('history-max-entries') as HTMLInputElement;
+    const historyRetentionDaysInput = document.getElementById('history-retention-days') as HTMLInputElement;
+    const transportSelect = document.getElementById('transport') as HTMLSelectElement;
+    const apiEndpointInput = document.getElementById('api-endpoint') as HTMLInputElement;
+    const apiModelInput = document.getElementById('api-model') as HTMLInputElement;
+    const cleanUrlsCheckbox = document.getElementById('clean-urls') as HTMLInputElement;
+    const urlCleanupRulesTextarea = document.getElementById('url-cleanup-rules') as HTMLTextAreaElement;
+    const reviewSensitiveDataCheckbox = document.getElementById('review-sensitive-data') as HTMLInputElement;
+    const redactionPatternsTextarea = document.getElementById('redaction-patterns') as HTMLTextAreaElement;
 
     // Buttons
     const saveSettingsBtn = document.getElementById('save-settings') as HTMLButtonElement;
@@ -117,8 +219,11 @@ class OptionsManager {
       this.markUnsavedChanges();
     });
 
-    defaultModelSelect?.addEventListener('change', () => {
-      this.settings.defaultModel = defaultModelSelect.value;
+    modelPlatformSelect?.addEventListener('change', () => this.renderPlatformModel());
+
+    platformModelInput?.addEventListener('input', () => {
+      if (!modelPlatformSelect?.value) return;
+      this.settings.platformModels = { ...this.settings.platformModels, [modelPlatformSelect.value]: platformModelInput.value.trim() };
       this.markUnsavedChanges();
     });
 
@@ -130,6 +235,11 @@ class OptionsManager {
       }
     });
 
+    longTextModeSelect?.addEventListener('change', () => {
+      this.settings.longTextMode = longTextModeSelect.value as LongTextMode;
+      this.markUnsavedChanges();
+    });
+
     darkModeCheckbox?.addEventListener('change', () => {
       this.settings.darkMode = darkModeCheckbox.checked;
       this.markUnsavedChanges();
@@ -141,6 +251,74 @@ class OptionsManager {
       this.markUnsavedChanges();
     });
 
+    annotateScreenshotsCheckbox?.addEventListener('change', () => {
+      this.settings.annotateScreenshots = annotateScreenshotsCheckbox.checked;
+      this.markUnsavedChanges();
+    });
+
+    relayResponsesCheckbox?.addEventListener('change', () => {
+      this.settings.relayResponses = relayResponsesCheckbox.checked;
+      this.markUnsavedChanges();
+    });
+
+    historyEnabledCheckbox?.addEventListener('change', () => {
+      this.settings.historyEnabled = historyEnabledCheckbox.checked;
+      this.markUnsavedChanges();
+    });
+
+    historyMaxEntriesInput?.addEventListener('input', () => {
+      const value = parseInt(historyMaxEntriesInput.value);
+      if (!isNaN(value) && value >= 10 && value <= 1000) {
+        this.settings.historyMaxEntries = value;
+        this.markUnsavedChanges();
+      }
+    });
+
+    historyRetentionDaysInput?.addEventListener('input', () => {
+      const value = parseInt(historyRetentionDaysInput.value);
+      if (!isNaN(value) && value >= 0 && value <= 365) {
+        this.settings.historyRetentionDays = value;
+        this.markUnsavedChanges();
+      }
+    });
+
+    transportSelect?.addEventListener('change', () => {
+      this.settings.transport = transportSelect.value as SendTransport;
+      this.markUnsavedChanges();
+    });
+
+    apiEndpointInput?.addEventListener('input', () => {
+      this.settings.apiEndpoint = apiEndpointInput.value.trim();
+      this.markUnsavedChanges();
+    });
+
+    apiModelInput?.addEventListener('input', () => {
+      this.settings.apiModel = apiModelInput.value.trim();
+      this.markUnsavedChanges();
+    });
+
+    cleanUrlsCheckbox?.addEventListener('change', () => {
+      this.settings.cleanUrls = cleanUrlsCheckbox.checked;
+      this.markUnsavedChanges();
+    });
+
+    urlCleanupRulesTextarea?.addEventListener('input', () => {
+      this.settings.urlCleanupRules = urlCleanupRulesTextarea.value;
+      this.updateUrlRulesStatus();
+      this.markUnsavedChanges();
+    });
+
+    reviewSensitiveDataCheckbox?.addEventListener('change', () => {
+      this.settings.reviewSensitiveData = reviewSensitiveDataCheckbox.checked;
+      this.markUnsavedChanges();
+    });
+
+    redactionPatternsTextarea?.addEventListener('input', () => {
+      this.settings.redactionPatterns = redactionPatternsTextarea.value;
+      this.updateRedactionPatternsStatus();
+      this.markUnsavedChanges();
+    });
+
     // Button handlers
     saveSettingsBtn?.addEventListener('click', () => this.saveSettings());
     resetSettingsBtn?.addEventListener('click', () => this.resetSettings());
@@ -172,22 +350,114 @@ class OptionsManager {
   private async populateForm() {
     const autoSendCheckbox = document.getElementById('auto-send') as HTMLInputElement;
     const defaultInstructionsTextarea = document.getElementById('default-instructions') as HTMLTextAreaElement;
-    const defaultModelSelect = document.getElementById('default-model') as HTMLSelectElement;
     const maxTextLengthInput = document.getElementById('max-text-length') as HTMLInputElement;
+    const longTextModeSelect = document.getElementById('long-text-mode') as HTMLSelectElement;
     const darkModeCheckbox = document.getElementById('dark-mode') as HTMLInputElement;
     const saveInstructionsCheckbox = document.getElementById('save-instructions') as HTMLInputElement;
+    const annotateScreenshotsCheckbox = document.getElementById('annotate-screenshots') as HTMLInputElement;
+    const relayResponsesCheckbox = document.getElementById('relay-responses') as HTMLInputElement;
+    const historyEnabledCheckbox = document.getElementById('history-enabled') as HTMLInputElement;
+    const historyMaxEntriesInput = document.getElementById('history-max-entries') as HTMLInputElement;
+    const historyRetentionDaysInput = document.getElementById('history-retention-days') as HTMLInputElement;
+    const transportSelect = document.getElementById('transport') as HTMLSelectElement;
+    const apiEndpointInput = document.getElementById('api-endpoint') as HTMLInputElement;
+    const apiModelInput = document.getElementById('api-model') as HTMLInputElement;
+    const cleanUrlsCheckbox = document.getElementById('clean-urls') as HTMLInputElement;
+    const urlCleanupRulesTextarea = document.getElementById('url-cleanup-rules') as HTMLTextAreaElement;
+    const reviewSensitiveDataCheckbox = document.getElementById('review-sensitive-data') as HTMLInputElement;
+    const redactionPatternsTextarea = document.getElementById('redaction-patterns') as HTMLTextAreaElement;
 
     if (autoSendCheckbox) autoSendCheckbox.checked = this.settings.autoSend;
     if (defaultInstructionsTextarea) defaultInstructionsTextarea.value = this.settings.defaultInstructions;
-    if (defaultModelSelect) defaultModelSelect.value = this.settings.defaultModel;
+    this.renderPlatformModel();
     if (maxTextLengthInput) maxTextLengthInput.value = this.settings.maxTextLength.toString();
+    if (longTextModeSelect) longTextModeSelect.value = this.settings.longTextMode;
     if (darkModeCheckbox) darkModeCheckbox.checked = this.settings.darkMode;
     if (saveInstructionsCheckbox) saveInstructionsCheckbox.checked = this.settings.saveInstructions;
+    if (annotateScreenshotsCheckbox) annotateScreenshotsCheckbox.checked = this.settings.annotateScreenshots;
+    if (relayResponsesCheckbox) relayResponsesCheckbox.checked = this.settings.relayResponses;
+    if (historyEnabledCheckbox) historyEnabledCheckbox.checked = this.settings.historyEnabled;
+    if (historyMaxEntriesInput) historyMaxEntriesInput.value = this.settings.historyMaxEntries.toString();
+    if (historyRetentionDaysInput) historyRetentionDaysInput.value = this.settings.historyRetentionDays.toString();
+    if (transportSelect) transportSelect.value = this.settings.transport;
+    if (apiEndpointInput) apiEndpointInput.value = this.settings.apiEndpoint;
+    if (apiModelInput) apiModelInput.value = this.settings.apiModel;
+    if (cleanUrlsCheckbox) cleanUrlsCheckbox.checked = this.settings.cleanUrls;
+    if (urlCleanupRulesTextarea) urlCleanupRulesTextarea.value = this.settings.urlCleanupRules;
+    this.updateUrlRulesStatus();
+    if (reviewSensitiveDataCheckbox) reviewSensitiveDataCheckbox.checked = this.settings.reviewSensitiveData;
+    if (redactionPatternsTextarea) redactionPatternsTextarea.value = this.settings.redactionPatterns;
+    this.updateRedactionPatternsStatus();
+    this.applyManagedPolicy();
 
     this.unsavedChanges = false;
     this.updateSaveButton();
   }
 
+  /**
+   * Show settings locked by the managed policy read-only, with a note saying why
+   */
+  private applyManagedPolicy() {
+    const banner = document.getElementById('policy-banner');
+    if (banner) banner.style.display = hasManagedPolicy(this.policy) ? '' : 'none';
+
+    getLockedSettingKeys(this.policy).forEach(key => {
+      const field = SETTING_FIELD_IDS[key] && document.getElementById(SETTING_FIELD_IDS[key]!) as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement | null;
+      if (!field) return;
+
+      field.disabled = true;
+      field.title = MANAGED_EXPLANATION;
+
+      const group = field.closest('.form-group');
+      if (group && !group.querySelector('.managed-note')) {
+        const note = document.createElement('div');
+        note.className = 'help-text managed-note';
+        note.textContent = `🔒 ${MANAGED_EXPLANATION}`;
+        group.appendChild(note);
+      }
+    });
+  }
+
+  /**
+   * Show the model chosen for the platform selected in the models field
+   */
+  private renderPlatformModel() {
+    const modelPlatformSelect = document.getElementById('model-platform') as HTMLSelectElement;
+    const platformModelInput = document.getElementById('platform-model') as HTMLInputElement;
+    if (!modelPlatformSelect || !platformModelInput) return;
+
+    platformModelInput.placeholder = DEFAULT_MODEL;
+    platformModelInput.value = modelPlatformSelect.value
+      ? getPlatformModel(this.settings.platformModels, modelPlatformSelect.value)
+      : '';
+  }
+
+  /**
+   * List rule lines the URL sanitizer will ignore
+   */
+  private updateUrlRulesStatus() {
+    const status = document.getElementById('url-cleanup-rules-status');
+    if (!status) return;
+
+    const invalid = findInvalidUrlRules(this.settings.urlCleanupRules);
+    status.textContent = invalid.length > 0
+      ? `Ignored (not a valid rule): ${invalid.map(line => line.trim()).join(', ')}`
+      : '';
+  }
+
+  /**
+   * List custom detectors that are not valid regular expressions
+   */
+  private updateRedactionPatternsStatus() {
+    const status = document.getElementById('redaction-patterns-status');
+    if (!status) return;
+
+    const { patterns, invalid } = parseCustomPatterns(this.settings.redactionPatterns);
+    status.textContent = invalid.length > 0
+      ? `Ignored (invalid or matches empty text): ${invalid.join(', ')}`
+      : patterns.length > 0 ? `${patterns.length} custom detector${patterns.length === 1 ? '' : 's'} active.` : '';
+  }
+
   /**
    * Update dark mode
    */
@@ -298,6 +568,10 @@ class OptionsManager {
       this.unsavedChanges = false;
       this.updateSaveButton();
       
+      // Lowered limits apply to existing history right away
+      await historyManager.prune(this.getHistoryRetention());
+      await this.loadHistory();
+      
       if (!silent) {
         this.showNotification('Settings saved successfully!', 'success');
       }
@@ -314,7 +588,7 @@ class OptionsManager {
     if (confirm('Are you sure you want to reset all settings to defaults? This cannot be undone.')) {
       try {
         await storageManager.resetSettings();
-        this.settings = { ...DEFAULT_SETTINGS };
+        this.settings = applyManagedPolicy({ ...DEFAULT_SETTINGS }, this.policy);
         await this.populateForm();
         await this.updateDarkMode();
         this.showNotification('Settings reset to defaults.', 'success');
@@ -332,6 +606,7 @@ class OptionsManager {
     try {
       const exportData = {
         version: '1.0',
+        settingsVersion: SETTINGS_VERSION,
         timestamp: new Date().toISOString(),
         settings: this.settings
       };
@@ -371,20 +646,16 @@ class OptionsManager {
         throw new Error('Invalid settings file format');
       }
 
-      // Merge with defaults to ensure all required fields are present
-      const importedSettings = { ...DEFAULT_SETTINGS, ...importData.settings };
-      
-      // Validate individual settings
-      if (typeof importedSettings.autoSend !== 'boolean') importedSettings.autoSend = DEFAULT_SETTINGS.autoSend;
-      if (typeof importedSettings.defaultInstructions !== 'string') importedSettings.defaultInstructions = DEFAULT_SETTINGS.defaultInstructions;
-      if (typeof importedSettings.maxTextLength !== 'number' || importedSettings.maxTextLength < 1000 || importedSettings.maxTextLength > 16384) {
-        importedSettings.maxTextLength = DEFAULT_SETTINGS.maxTextLength;
+      // Files exported before a schema change are migrated first, then checked like stored settings
+      const fromVersion = typeof importData.settingsVersion === 'number' ? importData.settingsVersion : 0;
+      const { valid, invalid } = validateSettings(migrateSettings(importData.settings, fromVersion));
+      if (invalid.length > 0) {
+        console.warn('Ignoring invalid imported settings:', invalid);
       }
-      if (typeof importedSettings.defaultModel !== 'string') importedSettings.defaultModel = DEFAULT_SETTINGS.defaultModel;
-      if (typeof importedSettings.darkMode !== 'boolean') importedSettings.darkMode = DEFAULT_SETTINGS.darkMode;
-      if (typeof importedSettings.saveInstructions !== 'boolean') importedSettings.saveInstructions = DEFAULT_SETTINGS.saveInstructions;
+      const importedSettings: ExtensionSettings = { ...DEFAULT_SETTINGS, ...valid };
 
-      this.settings = importedSettings;
+      // Locked settings keep the managed value whatever the file says
+      this.settings = applyManagedPolicy(importedSettings, this.policy);
       await this.populateForm();
       await this.updateDarkMode();
       this.markUnsavedChanges();
@@ -439,6 +710,14 @@ class OptionsManager {
       console.error('Add platform button not found!');
     }
     
+    // Existing custom platforms are still listed so they can be removed
+    if (!this.policy.allowCustomPlatforms) {
+      const form = document.getElementById('add-custom-platform-form');
+      const note = document.getElementById('custom-platforms-policy-note');
+      if (form) form.style.display = 'none';
+      if (note) note.style.display = '';
+    }
+    
     // Initial render
     await this.renderCustomPlatforms();
   }
@@ -581,6 +860,7 @@ class OptionsManager {
       
       // Re-render the list
       await this.renderCustomPlatforms();
+      await this.populateAdapterPlatforms();
       console.log('Platform list re-rendered');
       
       // Clear form
@@ -618,6 +898,7 @@ class OptionsManager {
         
         // Re-render the list
         await this.renderCustomPlatforms();
+        await this.populateAdapterPlatforms();
         
         this.showNotification('Custom platform removed successfully!', 'success');
         
@@ -634,6 +915,955 @@ class OptionsManager {
     }
   }
 
+  /**
+   * Setup platform adapter editor
+   */
+  private async setupAdapterEditor() {
+    const platformSelect = document.getElementById('adapter-platform') as HTMLSelectElement;
+    const saveAdapterBtn = document.getElementById('save-adapter') as HTMLButtonElement;
+    const resetAdapterBtn = document.getElementById('reset-adapter') as HTMLButtonElement;
+    
+    platformSelect?.addEventListener('change', () => this.renderAdapter());
+    saveAdapterBtn?.addEventListener('click', () => this.saveAdapter());
+    resetAdapterBtn?.addEventListener('click', () => this.resetAdapter());
+    
+    // Adapters are fixed while the policy limits the platforms, the way custom platforms are
+    if (restrictsPlatforms(this.policy)) {
+      const adapterJson = document.getElementById('adapter-json') as HTMLTextAreaElement;
+      const note = document.getElementById('adapters-policy-note');
+      [adapterJson, saveAdapterBtn, resetAdapterBtn].forEach(control => {
+        if (control) control.disabled = true;
+      });
+      if (note) note.style.display = '';
+    }
+    
+    await this.populateAdapterPlatforms();
+  }
+
+  /**
+   * Fill the adapter, message format and site rule platform pickers with built-in and custom platforms
+   */
+  private async populateAdapterPlatforms() {
+    this.adapterPlatforms = await getAllPlatforms();
+    
+    for (const selectId of ['adapter-platform', 'envelope-platform']) {
+      const platformSelect = document.getElementById(selectId) as HTMLSelectElement;
+      if (!platformSelect) continue;
+      
+      const previousValue = platformSelect.value;
+      platformSelect.innerHTML = '';
+      this.adapterPlatforms.forEach(platform => {
+        const option = document.createElement('option');
+        option.value = platform.id;
+        option.textContent = platform.name;
+        platformSelect.appendChild(option);
+      });
+      
+      if (this.adapterPlatforms.some(p => p.id === previousValue)) {
+        platformSelect.value = previousValue;
+      }
+    }
+    
+    // Claude and Gemini pick their own model
+    const modelPlatformSelect = document.getElementById('model-platform') as HTMLSelectElement;
+    if (modelPlatformSelect) {
+      const previousValue = modelPlatformSelect.value;
+      modelPlatformSelect.innerHTML = '';
+      this.adapterPlatforms.filter(platform => platformUsesModel(platform.id)).forEach(platform => {
+        const option = document.createElement('option');
+        option.value = platform.id;
+        option.textContent = platform.name;
+        modelPlatformSelect.appendChild(option);
+      });
+      if (this.adapterPlatforms.some(p => p.id === previousValue)) {
+        modelPlatformSelect.value = previousValue;
+      }
+      this.renderPlatformModel();
+    }
+    
+    // Site rules may leave the platform alone
+    const siteRulePlatformSelect = document.getElementById('site-rule-platform') as HTMLSelectElement;
+    if (siteRulePlatformSelect) {
+      const previousValue = siteRulePlatformSelect.value;
+      siteRulePlatformSelect.innerHTML = '<option value="">Any platform</option>';
+      this.adapterPlatforms.forEach(platform => {
+        const option = document.createElement('option');
+        option.value = platform.id;
+        option.textContent = platform.name;
+        siteRulePlatformSelect.appendChild(option);
+      });
+      siteRulePlatformSelect.value = this.adapterPlatforms.some(p => p.id === previousValue) ? previousValue : '';
+    }
+    
+    await this.renderAdapter();
+    await this.renderEnvelope();
+  }
+
+  /**
+   * Show the effective adapter for the selected platform
+   */
+  private async renderAdapter() {
+    const platformSelect = document.getElementById('adapter-platform') as HTMLSelectElement;
+    const adapterJson = document.getElementById('adapter-json') as HTMLTextAreaElement;
+    const adapterStatus = document.getElementById('adapter-status');
+    if (!platformSelect || !adapterJson) return;
+    
+    const platformId = platformSelect.value;
+    const overrides = restrictsPlatforms(this.policy) ? {} : await storageManager.getAdapterOverrides();
+    const adapter = overrides[platformId] || getDefaultAdapter(platformId);
+    
+    adapterJson.value = JSON.stringify(adapter, null, 2);
+    if (adapterStatus) {
+      adapterStatus.textContent = overrides[platformId]
+        ? 'Customized adapter. Reset to return to the built-in definition.'
+        : 'Using the built-in adapter.';
+    }
+  }
+
+  /**
+   * Validate and save the adapter for the selected platform
+   */
+  private async saveAdapter() {
+    const platformSelect = document.getElementById('adapter-platform') as HTMLSelectElement;
+    const adapterJson = document.getElementById('adapter-json') as HTMLTextAreaElement;
+    if (!platformSelect?.value || !adapterJson) return;
+    
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(adapterJson.value);
+    } catch {
+      this.showNotification('Adapter is not valid JSON', 'error');
+      return;
+    }
+    
+    const { adapter, error } = validateAdapter(parsed);
+    if (!adapter) {
+      this.showNotification(error || 'Invalid adapter', 'error');
+      return;
+    }
+    
+    try {
+      await storageManager.setAdapterOverride(platformSelect.value, adapter);
+      await this.renderAdapter();
+      this.showNotification('Adapter saved successfully!', 'success');
+    } catch (error) {
+      console.error('Failed to save adapter:', error);
+      this.showNotification('Failed to save adapter', 'error');
+    }
+  }
+
+  /**
+   * Revert the selected platform to its default adapter
+   */
+  private async resetAdapter() {
+    const platformSelect = document.getElementById('adapter-platform') as HTMLSelectElement;
+    if (!platformSelect?.value) return;
+    
+    try {
+      await storageManager.removeAdapterOverride(platformSelect.value);
+      await this.renderAdapter();
+      this.showNotification('Adapter reset to default.', 'success');
+    } catch (error) {
+      console.error('Failed to reset adapter:', error);
+      this.showNotification('Failed to reset adapter', 'error');
+    }
+  }
+
+  /**
+   * Setup message format (envelope) editor
+   */
+  private async setupEnvelopeEditor() {
+    const platformSelect = document.getElementById('envelope-platform') as HTMLSelectElement;
+    const formatSelect = document.getElementById('envelope-format') as HTMLSelectElement;
+    const templateArea = document.getElementById('envelope-template') as HTMLTextAreaElement;
+    const saveEnvelopeBtn = document.getElementById('save-envelope') as HTMLButtonElement;
+    const resetEnvelopeBtn = document.getElementById('reset-envelope') as HTMLButtonElement;
+    
+    platformSelect?.addEventListener('change', () => this.renderEnvelope());
+    formatSelect?.addEventListener('change', () => this.updateEnvelopePreview());
+    templateArea?.addEventListener('input', () => this.updateEnvelopePreview());
+    saveEnvelopeBtn?.addEventListener('click', () => this.saveEnvelope());
+    resetEnvelopeBtn?.addEventListener('click', () => this.resetEnvelope());
+    
+    await this.renderEnvelope();
+  }
+
+  /**
+   * Show the effective message format for the selected platform
+   */
+  private async renderEnvelope() {
+    const platformSelect = document.getElementById('envelope-platform') as HTMLSelectElement;
+    const formatSelect = document.getElementById('envelope-format') as HTMLSelectElement;
+    const templateArea = document.getElementById('envelope-template') as HTMLTextAreaElement;
+    const envelopeStatus = document.getElementById('envelope-status');
+    if (!platformSelect?.value || !formatSelect || !templateArea) return;
+    
+    const platformId = platformSelect.value;
+    const overrides = await storageManager.getEnvelopeOverrides();
+    const envelope = overrides[platformId] || getDefaultEnvelope(platformId);
+    
+    formatSelect.value = envelope.format;
+    templateArea.value = envelope.customTemplate || DEFAULT_CUSTOM_ENVELOPE;
+    if (envelopeStatus) {
+      envelopeStatus.textContent = overrides[platformId]
+        ? 'Customized format. Reset to return to the platform default.'
+        : 'Using the platform default.';
+    }
+    
+    this.updateEnvelopePreview();
+  }
+
+  /**
+   * Render a sample message with the format currently shown in the form
+   */
+  private updateEnvelopePreview() {
+    const formatSelect = document.getElementById('envelope-format') as HTMLSelectElement;
+    const templateArea = document.getElementById('envelope-template') as HTMLTextAreaElement;
+    const templateGroup = document.getElementById('envelope-template-group');
+    const preview = document.getElementById('envelope-preview');
+    if (!formatSelect || !templateArea || !preview) return;
+    
+    const format = formatSelect.value as EnvelopeFormat;
+    if (templateGroup) {
+      templateGroup.style.display = format === 'custom' ? 'block' : 'none';
+    }
+    
+    preview.textContent = buildEnvelope(
+      {
+        instructions: 'Summarize the key points.',
+        text: 'The quick brown fox jumps over the lazy dog.',
+        sourceUrl: 'https://example.com/article',
+        title: 'Example Article'
+      },
+      { format, customTemplate: templateArea.value }
+    );
+  }
+
+  /**
+   * Save the message format for the selected platform
+   */
+  private async saveEnvelope() {
+    const platformSelect = document.getElementById('envelope-platform') as HTMLSelectElement;
+    const formatSelect = document.getElementById('envelope-format') as HTMLSelectElement;
+    const templateArea = document.getElementById('envelope-template') as HTMLTextAreaElement;
+    if (!platformSelect?.value || !formatSelect || !templateArea) return;
+    
+    const envelope = normalizeEnvelope({ format: formatSelect.value, customTemplate: templateArea.value });
+    if (!envelope) {
+      this.showNotification('Unknown message format', 'error');
+      return;
+    }
+    
+    if (envelope.format === 'custom' && !/\{\{\s*text\s*\}\}/.test(envelope.customTemplate || '')) {
+      this.showNotification('Custom layout must include {{text}}', 'error');
+      return;
+    }
+    
+    try {
+      await storageManager.setEnvelopeOverride(platformSelect.value, envelope);
+      await this.renderEnvelope();
+      this.showNotification('Message format saved successfully!', 'success');
+    } catch (error) {
+      console.error('Failed to save message format:', error);
+      this.showNotification('Failed to save message format', 'error');
+    }
+  }
+
+  /**
+   * Revert the selected platform to its default message format
+   */
+  private async resetEnvelope() {
+    const platformSelect = document.getElementById('envelope-platform') as HTMLSelectElement;
+    if (!platformSelect?.value) return;
+    
+    try {
+      await storageManager.removeEnvelopeOverride(platformSelect.value);
+      await this.renderEnvelope();
+      this.showNotification('Message format reset to default.', 'success');
+    } catch (error) {
+      console.error('Failed to reset message format:', error);
+      this.showNotification('Failed to reset message format', 'error');
+    }
+  }
+
+  /**
+   * Setup the direct API key field and connection test
+   * The key is saved separately from the synced settings
+   */
+  private async setupApiSettings() {
+    const apiKeyInput = document.getElementById('api-key') as HTMLInputElement;
+    const testApiBtn = document.getElementById('test-api') as HTMLButtonElement;
+    
+    if (apiKeyInput) {
+      apiKeyInput.value = await storageManager.getApiKey();
+      apiKeyInput.addEventListener('change', async () => {
+        try {
+          await storageManager.saveApiKey(apiKeyInput.value.trim());
+          this.showNotification('API key saved.', 'success');
+        } catch (error) {
+          this.showNotification('Failed to save API key', 'error');
+        }
+      });
+    }
+    
+    testApiBtn?.addEventListener('click', () => this.testApiConnection());
+  }
+
+  /**
+   * Send a tiny prompt to the configured endpoint and show the reply
+   */
+  private async testApiConnection() {
+    const apiStatus = document.getElementById('api-status');
+    const apiKeyInput = document.getElementById('api-key') as HTMLInputElement;
+    const testApiBtn = document.getElementById('test-api') as HTMLButtonElement;
+    if (!apiStatus) return;
+    
+    if (!this.settings.apiEndpoint) {
+      apiStatus.textContent = 'Enter an API endpoint first.';
+      return;
+    }
+    
+    if (!isApiEndpointAllowed(this.policy, this.settings.apiEndpoint)) {
+      apiStatus.textContent = `${API_ENDPOINT_NOT_ALLOWED_MESSAGE}.`;
+      return;
+    }
+    
+    apiStatus.textContent = 'Connecting...';
+    if (testApiBtn) testApiBtn.disabled = true;
+    
+    try {
+      const answer = await streamChatCompletion(
+        { endpoint: this.settings.apiEndpoint, apiKey: apiKeyInput?.value.trim() || '', model: this.settings.apiModel },
+        'Reply with the single word OK.'
+      );
+      apiStatus.textContent = `Connected. ${this.settings.apiModel || 'The model'} replied: ${answer.trim().slice(0, 100) || '(empty answer)'}`;
+    } catch (error) {
+      console.error('API connection test failed:', error);
+      apiStatus.textContent = `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    } finally {
+      if (testApiBtn) testApiBtn.disabled = false;
+    }
+  }
+
+  /**
+   * Setup the send history view
+   */
+  private async setupHistory() {
+    const searchInput = document.getElementById('history-search') as HTMLInputElement;
+    const clearHistoryBtn = document.getElementById('clear-history') as HTMLButtonElement;
+    
+    searchInput?.addEventListener('input', () => this.renderHistory());
+    clearHistoryBtn?.addEventListener('click', () => this.clearHistory());
+    
+    // Pick up sends made while the options page is open
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'local' && (changes.sendHistory || changes.sendHistoryStatus)) {
+        this.loadHistory();
+      }
+    });
+    
+    await this.loadHistory();
+  }
+
+  /**
+   * Current retention limits from the settings form
+   */
+  private getHistoryRetention(): HistoryRetention {
+    return {
+      maxEntries: this.settings.historyMaxEntries,
+      retentionDays: this.settings.historyRetentionDays
+    };
+  }
+
+  /**
+   * Load history entries and render them
+   */
+  private async loadHistory() {
+    this.historyEntries = await historyManager.getEntries();
+    this.renderHistory();
+    this.renderHistoryStorageNote(await historyManager.getStatus());
+  }
+
+  /**
+   * Say when history ran out of browser storage, so sends that weren't kept don't go unnoticed
+   */
+  private renderHistoryStorageNote(status: HistoryStatus | null) {
+    const note = document.getElementById('history-storage-note');
+    if (!note) return;
+    
+    if (status?.failed) {
+      note.textContent = '⚠️ Browser storage is full, so recent sends were not added to the history. Clear the history or lower the maximum entries.';
+    } else if (status && status.evicted > 0) {
+      note.textContent = `⚠️ ${status.evicted} older ${status.evicted === 1 ? 'entry was' : 'entries were'} removed to fit the history in browser storage. Lower the maximum entries to keep what fits.`;
+    }
+    note.style.display = status?.failed || status?.evicted ? '' : 'none';
+  }
+
+  /**
+   * Render history entries matching the search box
+   */
+  private renderHistory() {
+    const container = document.getElementById('history-list');
+    const searchInput = document.getElementById('history-search') as HTMLInputElement;
+    if (!container) return;
+    
+    container.innerHTML = '';
+    
+    const entries = searchHistory(this.historyEntries, searchInput?.value || '');
+    if (entries.length === 0) {
+      const emptyState = document.createElement('div');
+      emptyState.className = 'empty-state';
+      emptyState.textContent = this.historyEntries.length === 0
+        ? 'Nothing sent yet. Prompts you send will appear here.'
+        : 'No history entries match your search.';
+      container.appendChild(emptyState);
+      return;
+    }
+    
+    entries.forEach(entry => {
+      const historyItem = document.createElement('div');
+      historyItem.className = entry.success ? 'history-item' : 'history-item failed';
+      
+      historyItem.innerHTML = `
+        <div class="history-meta">
+          <span class="history-date"></span>
+          <span class="history-platform"></span>
+          <span class="history-status"></span>
+        </div>
+        <div class="history-source"></div>
+        <div class="history-instructions"></div>
+        <div class="history-text"></div>
+        <div class="history-actions">
+          <button class="btn btn-small btn-primary btn-resend">Resend</button>
+          <select class="history-target"></select>
+          <button class="btn btn-small btn-secondary btn-send-other">Send</button>
+          <button class="btn btn-small btn-secondary btn-copy">Copy</button>
+          <button class="btn btn-small btn-remove">Delete</button>
+        </div>
+      `;
+      
+      // History content is captured from pages and typed by the user, so set it as text
+      (historyItem.querySelector('.history-date') as HTMLElement).textContent = new Date(entry.timestamp).toLocaleString();
+      (historyItem.querySelector('.history-platform') as HTMLElement).textContent = entry.platformName;
+      (historyItem.querySelector('.history-status') as HTMLElement).textContent = entry.textTruncated
+        ? `${this.describeHistoryStatus(entry)} · text shortened in history`
+        : this.describeHistoryStatus(entry);
+      
+      const source = historyItem.querySelector('.history-source') as HTMLElement;
+      if (entry.sourceUrl) {
+        source.textContent = entry.title || entry.sourceUrl;
+        source.title = entry.sourceUrl;
+      } else {
+        source.remove();
+      }
+      
+      const instructions = historyItem.querySelector('.history-instructions') as HTMLElement;
+      if (entry.instructions) {
+        instructions.textContent = entry.instructions;
+      } else {
+        instructions.remove();
+      }
+      
+      const text = historyItem.querySelector('.history-text') as HTMLElement;
+      if (entry.text) {
+        text.textContent = entry.text.length > 300 ? entry.text.substring(0, 300) + '...' : entry.text;
+      } else {
+        text.remove();
+      }
+      
+      const targetSelect = historyItem.querySelector('.history-target') as HTMLSelectElement;
+      this.adapterPlatforms
+        .filter(platform => platform.id !== entry.platform)
+        .forEach(platform => {
+          const option = document.createElement('option');
+          option.value = platform.id;
+          option.textContent = platform.name;
+          targetSelect.appendChild(option);
+        });
+      
+      (historyItem.querySelector('.btn-resend') as HTMLButtonElement)
+        .addEventListener('click', () => this.resendHistoryEntry(entry, entry.platform));
+      (historyItem.querySelector('.btn-send-other') as HTMLButtonElement)
+        .addEventListener('click', () => this.resendHistoryEntry(entry, targetSelect.value));
+      (historyItem.querySelector('.btn-copy') as HTMLButtonElement)
+        .addEventListener('click', () => this.copyHistoryEntry(entry));
+      (historyItem.querySelector('.btn-remove') as HTMLButtonElement)
+        .addEventListener('click', () => this.removeHistoryEntry(entry.id));
+      
+      container.appendChild(historyItem);
+    });
+  }
+
+  /**
+   * Short description of how a send ended
+   */
+  private describeHistoryStatus(entry: HistoryEntry): string {
+    if (!entry.success) return 'Failed';
+    if (entry.method === 'clipboard') return 'Copied to clipboard';
+    if (entry.method === 'api') return 'Answered via API';
+    if (entry.method === 'injected') return entry.submitted ? 'Sent' : 'Inserted';
+    return 'Opened via link';
+  }
+
+  /**
+   * Rebuild the original message from a history entry
+   */
+  private toHistoryMessage(entry: HistoryEntry, platformId: string): AIMessage {
+    return {
+      text: entry.text,
+      instructions: entry.instructions,
+      model: getPlatformModel(this.settings.platformModels, platformId),
+      platform: platformId,
+      isCode: entry.isCode,
+      codeLanguage: entry.codeLanguage,
+      sourceUrl: entry.sourceUrl,
+      title: entry.title
+    };
+  }
+
+  /**
+   * Send a history entry again, to its original platform or another one
+   */
+  private async resendHistoryEntry(entry: HistoryEntry, requestedPlatformId: string) {
+    if (!requestedPlatformId) return;
+    
+    try {
+      // The rules of the page the prompt came from still apply; the background blocks and forces platforms too
+      const sitePolicy = evaluateSiteRules(entry.sourceUrl || '', await storageManager.getSiteRules());
+      if (sitePolicy.confirm && !sitePolicy.blocked &&
+          !window.confirm('A site rule asks you to confirm before sending content from this page to an AI platform. Send it?')) {
+        return;
+      }
+      
+      const platformId = sitePolicy.platform || requestedPlatformId;
+      const result = await chrome.runtime.sendMessage({
+        type: 'SEND_TO_AI',
+        data: {
+          message: this.toHistoryMessage(entry, platformId),
+          autoSend: this.settings.autoSend,
+          platform: platformId
+        }
+      });
+      
+      if (result?.success) {
+        const platformName = this.adapterPlatforms.find(p => p.id === platformId)?.name || platformId;
+        this.showNotification(`Sent to ${platformName}`, 'success');
+      } else {
+        this.showNotification(result?.error || 'Failed to resend prompt', 'error');
+      }
+    } catch (error) {
+      console.error('Failed to resend history entry:', error);
+      this.showNotification('Failed to resend prompt', 'error');
+    }
+  }
+
+  /**
+   * Copy a history entry as the full message, laid out for its platform
+   */
+  private async copyHistoryEntry(entry: HistoryEntry) {
+    const message = this.toHistoryMessage(entry, entry.platform);
+    message.envelope = this.adapterPlatforms.find(p => p.id === entry.platform)?.envelope;
+    
+    const result = await copyToClipboard(formatMessageForClipboard(message));
+    if (result.success) {
+      this.showNotification('Prompt copied to clipboard', 'success');
+    } else {
+      this.showNotification('Failed to copy prompt', 'error');
+    }
+  }
+
+  /**
+   * Delete a single history entry
+   */
+  private async removeHistoryEntry(entryId: string) {
+    try {
+      await historyManager.removeEntry(entryId);
+      await this.loadHistory();
+    } catch (error) {
+      console.error('Failed to remove history entry:', error);
+      this.showNotification('Failed to remove history entry', 'error');
+    }
+  }
+
+  /**
+   * Delete all history entries
+   */
+  private async clearHistory() {
+    if (this.historyEntries.length === 0) return;
+    
+    if (confirm('Are you sure you want to clear your send history? This cannot be undone.')) {
+      try {
+        await historyManager.clear();
+        await this.loadHistory();
+        this.showNotification('History cleared.', 'success');
+      } catch (error) {
+        console.error('Failed to clear history:', error);
+        this.showNotification('Failed to clear history', 'error');
+      }
+    }
+  }
+
+  /**
+   * Setup per-site rule management
+   */
+  private async setupSiteRules() {
+    const saveSiteRuleBtn = document.getElementById('save-site-rule') as HTMLButtonElement;
+    const cancelEditBtn = document.getElementById('cancel-site-rule-edit') as HTMLButtonElement;
+    
+    saveSiteRuleBtn?.addEventListener('click', () => this.saveSiteRule());
+    cancelEditBtn?.addEventListener('click', () => this.resetSiteRuleForm());
+    
+    this.siteRules = await storageManager.getSiteRules();
+    this.renderSiteRules();
+  }
+
+  /**
+   * Render the site rules list
+   */
+  private renderSiteRules() {
+    const container = document.getElementById('site-rules-list');
+    if (!container) return;
+    
+    container.innerHTML = '';
+    
+    if (this.siteRules.length === 0) {
+      const emptyState = document.createElement('div');
+      emptyState.className = 'empty-state';
+      emptyState.textContent = 'No site rules. Every page behaves the same.';
+      container.appendChild(emptyState);
+      return;
+    }
+    
+    this.siteRules.forEach(rule => {
+      const ruleItem = document.createElement('div');
+      ruleItem.className = 'template-item';
+      
+      ruleItem.innerHTML = `
+        <div class="template-details">
+          <div class="template-name"></div>
+          <div class="template-instructions"></div>
+        </div>
+        <div class="custom-platform-actions">
+          <button class="btn btn-small btn-secondary btn-edit">Edit</button>
+          <button class="btn btn-small btn-remove">Remove</button>
+        </div>
+      `;
+      
+      const platformName = rule.platform
+        ? this.adapterPlatforms.find(platform => platform.id === rule.platform)?.name || rule.platform
+        : '';
+      const effects = [
+        rule.block ? 'Blocked' : '',
+        platformName ? `Always ${platformName}` : '',
+        rule.instructions ? `Instructions: ${rule.instructions}` : '',
+        rule.confirm ? 'Asks before sending' : ''
+      ].filter(Boolean);
+      
+      // Rule content is user-provided, so set it as text
+      (ruleItem.querySelector('.template-name') as HTMLElement).textContent = rule.pattern;
+      (ruleItem.querySelector('.template-instructions') as HTMLElement).textContent = effects.join(' · ');
+      
+      const editBtn = ruleItem.querySelector('.btn-edit') as HTMLButtonElement;
+      editBtn.addEventListener('click', () => this.editSiteRule(rule.id));
+      
+      const removeBtn = ruleItem.querySelector('.btn-remove') as HTMLButtonElement;
+      removeBtn.addEventListener('click', () => this.removeSiteRule(rule.id));
+      
+      container.appendChild(ruleItem);
+    });
+  }
+
+  /**
+   * Load a site rule into the form for editing
+   */
+  private editSiteRule(ruleId: string) {
+    const rule = this.siteRules.find(r => r.id === ruleId);
+    if (!rule) return;
+    
+    this.editingSiteRuleId = ruleId;
+    this.fillSiteRuleForm(rule);
+    
+    const formTitle = document.getElementById('site-rule-form-title');
+    const saveText = document.getElementById('save-site-rule-text');
+    const cancelEditBtn = document.getElementById('cancel-site-rule-edit');
+    if (formTitle) formTitle.textContent = 'Edit Rule';
+    if (saveText) saveText.textContent = 'Update Rule';
+    if (cancelEditBtn) cancelEditBtn.style.display = '';
+    
+    document.getElementById('site-rule-pattern')?.focus();
+  }
+
+  /**
+   * Clear the site rule form and leave edit mode
+   */
+  private resetSiteRuleForm() {
+    this.editingSiteRuleId = null;
+    this.fillSiteRuleForm({ pattern: '', block: false, platform: '', instructions: '', confirm: false });
+    
+    const formTitle = document.getElementById('site-rule-form-title');
+    const saveText = document.getElementById('save-site-rule-text');
+    const cancelEditBtn = document.getElementById('cancel-site-rule-edit');
+    if (formTitle) formTitle.textContent = 'Add New Rule';
+    if (saveText) saveText.textContent = 'Add Rule';
+    if (cancelEditBtn) cancelEditBtn.style.display = 'none';
+  }
+
+  /**
+   * Put a rule's values into the form
+   */
+  private fillSiteRuleForm(rule: Omit<SiteRule, 'id'>) {
+    const patternInput = document.getElementById('site-rule-pattern') as HTMLInputElement;
+    const blockCheckbox = document.getElementById('site-rule-block') as HTMLInputElement;
+    const platformSelect = document.getElementById('site-rule-platform') as HTMLSelectElement;
+    const instructionsInput = document.getElementById('site-rule-instructions') as HTMLTextAreaElement;
+    const confirmCheckbox = document.getElementById('site-rule-confirm') as HTMLInputElement;
+    
+    if (patternInput) patternInput.value = rule.pattern;
+    if (blockCheckbox) blockCheckbox.checked = rule.block;
+    if (platformSelect) platformSelect.value = rule.platform || '';
+    if (instructionsInput) instructionsInput.value = rule.instructions || '';
+    if (confirmCheckbox) confirmCheckbox.checked = rule.confirm;
+  }
+
+  /**
+   * Add a new site rule or update the one being edited
+   */
+  private async saveSiteRule() {
+    const rule: Omit<SiteRule, 'id'> = {
+      pattern: (document.getElementById('site-rule-pattern') as HTMLInputElement)?.value.trim() || '',
+      block: Boolean((document.getElementById('site-rule-block') as HTMLInputElement)?.checked),
+      platform: (document.getElementById('site-rule-platform') as HTMLSelectElement)?.value || undefined,
+      instructions: (document.getElementById('site-rule-instructions') as HTMLTextAreaElement)?.value.trim() || undefined,
+      confirm: Boolean((document.getElementById('site-rule-confirm') as HTMLInputElement)?.checked)
+    };
+    
+    const error = validateSiteRule(rule);
+    if (error) {
+      this.showNotification(error, 'error');
+      return;
+    }
+    
+    try {
+      if (this.editingSiteRuleId) {
+        await storageManager.updateSiteRule(this.editingSiteRuleId, rule);
+        this.showNotification('Site rule updated successfully!', 'success');
+      } else {
+        await storageManager.addSiteRule(rule);
+        this.showNotification('Site rule added successfully!', 'success');
+      }
+      
+      this.siteRules = await storageManager.getSiteRules();
+      this.renderSiteRules();
+      this.resetSiteRuleForm();
+    } catch (error) {
+      console.error('Failed to save site rule:', error);
+      this.showNotification('Failed to save site rule', 'error');
+    }
+  }
+
+  /**
+   * Remove a site rule
+   */
+  private async removeSiteRule(ruleId: string) {
+    const rule = this.siteRules.find(r => r.id === ruleId);
+    if (!rule) return;
+    
+    if (confirm(`Are you sure you want to remove the rule for "${rule.pattern}"?`)) {
+      try {
+        await storageManager.removeSiteRule(ruleId);
+        
+        if (this.editingSiteRuleId === ruleId) {
+          this.resetSiteRuleForm();
+        }
+        
+        this.siteRules = await storageManager.getSiteRules();
+        this.renderSiteRules();
+        
+        this.showNotification('Site rule removed successfully!', 'success');
+      } catch (error) {
+        console.error('Failed to remove site rule:', error);
+        this.showNotification('Failed to remove site rule', 'error');
+      }
+    }
+  }
+
+  /**
+   * Setup prompt template management
+   */
+  private async setupTemplateManagement() {
+    const saveTemplateBtn = document.getElementById('save-template') as HTMLButtonElement;
+    const cancelEditBtn = document.getElementById('cancel-template-edit') as HTMLButtonElement;
+    
+    saveTemplateBtn?.addEventListener('click', () => this.saveTemplate());
+    cancelEditBtn?.addEventListener('click', () => this.resetTemplateForm());
+    
+    // Initial render
+    this.renderTemplates();
+  }
+
+  /**
+   * Render prompt templates list
+   */
+  private renderTemplates() {
+    const container = document.getElementById('templates-list');
+    if (!container) return;
+    
+    container.innerHTML = '';
+    
+    if (this.templates.length === 0) {
+      const emptyState = document.createElement('div');
+      emptyState.className = 'empty-state';
+      emptyState.textContent = 'No templates yet. Add your first template below.';
+      container.appendChild(emptyState);
+      return;
+    }
+    
+    this.templates.forEach(template => {
+      const templateItem = document.createElement('div');
+      templateItem.className = 'template-item';
+      
+      templateItem.innerHTML = `
+        <div class="template-details">
+          <div class="template-name"></div>
+          <div class="template-instructions"></div>
+        </div>
+        <div class="custom-platform-actions">
+          <button class="btn btn-small btn-secondary btn-edit">Edit</button>
+          <button class="btn btn-small btn-remove">Remove</button>
+        </div>
+      `;
+      
+      // Template content is user-provided, so set it as text
+      (templateItem.querySelector('.template-name') as HTMLElement).textContent = template.name;
+      (templateItem.querySelector('.template-instructions') as HTMLElement).textContent = template.instructions;
+      
+      // Templates pushed by the managed policy can only be used
+      if (isManagedTemplate(template)) {
+        const actions = templateItem.querySelector('.custom-platform-actions') as HTMLElement;
+        actions.className = 'help-text';
+        actions.textContent = `🔒 ${MANAGED_EXPLANATION}`;
+        container.appendChild(templateItem);
+        return;
+      }
+      
+      const editBtn = templateItem.querySelector('.btn-edit') as HTMLButtonElement;
+      editBtn.addEventListener('click', () => this.editTemplate(template.id));
+      
+      const removeBtn = templateItem.querySelector('.btn-remove') as HTMLButtonElement;
+      removeBtn.addEventListener('click', () => this.removeTemplate(template.id));
+      
+      container.appendChild(templateItem);
+    });
+  }
+
+  /**
+   * Load a template into the form for editing
+   */
+  private editTemplate(templateId: string) {
+    const template = this.templates.find(t => t.id === templateId);
+    if (!template) return;
+    
+    const nameInput = document.getElementById('template-name') as HTMLInputElement;
+    const instructionsInput = document.getElementById('template-instructions') as HTMLTextAreaElement;
+    const formTitle = document.getElementById('template-form-title');
+    const saveText = document.getElementById('save-template-text');
+    const cancelEditBtn = document.getElementById('cancel-template-edit');
+    
+    this.editingTemplateId = templateId;
+    if (nameInput) nameInput.value = template.name;
+    if (instructionsInput) instructionsInput.value = template.instructions;
+    if (formTitle) formTitle.textContent = 'Edit Template';
+    if (saveText) saveText.textContent = 'Update Template';
+    if (cancelEditBtn) cancelEditBtn.style.display = '';
+    
+    nameInput?.focus();
+  }
+
+  /**
+   * Clear the template form and leave edit mode
+   */
+  private resetTemplateForm() {
+    const nameInput = document.getElementById('template-name') as HTMLInputElement;
+    const instructionsInput = document.getElementById('template-instructions') as HTMLTextAreaElement;
+    const formTitle = document.getElementById('template-form-title');
+    const saveText = document.getElementById('save-template-text');
+    const cancelEditBtn = document.getElementById('cancel-template-edit');
+    
+    this.editingTemplateId = null;
+    if (nameInput) nameInput.value = '';
+    if (instructionsInput) instructionsInput.value = '';
+    if (formTitle) formTitle.textContent = 'Add New Template';
+    if (saveText) saveText.textContent = 'Add Template';
+    if (cancelEditBtn) cancelEditBtn.style.display = 'none';
+  }
+
+  /**
+   * Add a new template or update the one being edited
+   */
+  private async saveTemplate() {
+    const nameInput = document.getElementById('template-name') as HTMLInputElement;
+    const instructionsInput = document.getElementById('template-instructions') as HTMLTextAreaElement;
+    
+    const name = nameInput?.value.trim() || '';
+    const instructions = instructionsInput?.value.trim() || '';
+    
+    if (!name || !instructions) {
+      this.showNotification('Please enter a template name and instructions', 'error');
+      return;
+    }
+    
+    const duplicate = this.templates.some(t =>
+      t.id !== this.editingTemplateId && t.name.toLowerCase() === name.toLowerCase()
+    );
+    if (duplicate) {
+      this.showNotification('A template with this name already exists', 'error');
+      return;
+    }
+    
+    try {
+      if (this.editingTemplateId) {
+        await storageManager.updateTemplate(this.editingTemplateId, { name, instructions });
+        this.showNotification('Template updated successfully!', 'success');
+      } else {
+        await storageManager.addTemplate({ name, instructions });
+        this.showNotification('Template added successfully!', 'success');
+      }
+      
+      await this.loadTemplates();
+      this.renderTemplates();
+      this.resetTemplateForm();
+    } catch (error) {
+      console.error('Failed to save template:', error);
+      this.showNotification('Failed to save template', 'error');
+    }
+  }
+
+  /**
+   * Remove a prompt template
+   */
+  private async removeTemplate(templateId: string) {
+    const template = this.templates.find(t => t.id === templateId);
+    if (!template) return;
+    
+    if (confirm(`Are you sure you want to remove the "${template.name}" template?`)) {
+      try {
+        await storageManager.removeTemplate(templateId);
+        
+        if (this.editingTemplateId === templateId) {
+          this.resetTemplateForm();
+        }
+        
+        await this.loadTemplates();
+        this.renderTemplates();
+        
+        this.showNotification('Template removed successfully!', 'success');
+      } catch (error) {
+        console.error('Failed to remove template:', error);
+        this.showNotification('Failed to remove template', 'error');
+      }
+    }
+  }
+
   /**
    * Show notification
    */
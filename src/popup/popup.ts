@@ -3,15 +3,59 @@
  * Handles the modal popup interface for text editing and sending to ChatGPT
  */
 
-import { storageManager, ExtensionSettings } from '../utils/storage';
+import { storageManager, ExtensionSettings, PromptTemplate } from '../utils/storage';
 import { i18n } from '../utils/i18n';
 import { getAllPlatforms, getPlatform } from '../utils/ai-platforms';
+import { describeAIResult, formatMessageForClipboard, type AIMessage } from '../utils/chatgpt';
+import type { FanOutResult } from '../utils/fan-out';
+import { expandTemplate, templateUsesVariable, buildTemplateVariables } from '../utils/templates';
+import { formatSelection, truncateText, type SelectionFormat } from '../utils/text-format';
+import { extractArticle, formatArticle } from '../utils/reader';
+import { getUrlRules, sanitizeUrl, sanitizeUrlsInText } from '../utils/url-sanitizer';
+import {
+  METADATA_FIELDS,
+  formatPageMetadata,
+  hasMetadataField,
+  previewMetadataField,
+  type MetadataField,
+  type PageMetadata
+} from '../utils/page-metadata';
+import { buildPlatformParts, getSelectionLimit, usesChunking } from '../utils/chunking';
+import {
+  estimateUsage,
+  formatTokenCount,
+  getModelProfile,
+  getPlatformModel,
+  getPlatformModelProfile,
+  type ModelProfile,
+  type TokenUsage
+} from '../utils/tokens';
+import { detectSensitiveData, parseCustomPatterns, redactText, summarizeFindings, type Finding } from '../utils/redaction';
+import type { SitePolicy } from '../utils/site-rules';
+import { EMPTY_POLICY, MANAGED_EXPLANATION, getLockedSettingKeys, type ManagedPolicy } from '../utils/managed-policy';
+
+const MAX_FINDINGS_SHOWN = 10; // The review lists this many findings, the summary counts all of them
+
+// Popup controls that change a setting, disabled when the managed policy locks it
+const SETTING_CONTROLS: Partial<Record<keyof ExtensionSettings, string>> = {
+  saveInstructions: 'save-instructions',
+  defaultPlatform: 'ai-platform',
+  multiPlatformSend: 'multi-platform',
+  tileFanOutWindows: 'tile-windows',
+  autoSend: 'auto-send',
+  sendPageContent: 'send-page-content',
+  selectionFormat: 'selection-format'
+};
 
 interface PopupData {
   text: string;
   html: string;
   isEmpty: boolean;
   truncated: boolean;
+  isCode?: boolean;
+  codeLanguage?: string;
+  editable?: boolean; // Selection came from a text field or contenteditable
+  sitePolicy?: SitePolicy; // Site rules matching the page
 }
 
 class PopupManager {
@@ -19,6 +63,10 @@ class PopupManager {
   private data: PopupData | null = null;
   private settings: ExtensionSettings | null = null;
   private availablePlatforms: any[] = [];
+  private templates: PromptTemplate[] = [];
+  private tokenWarningShown = false; // Oversized prompts are sent on the second click
+  private pageMetadata: PageMetadata | null = null;
+  private policy: ManagedPolicy = EMPTY_POLICY;
 
   /**
    * Initialize popup with data
@@ -26,12 +74,14 @@ class PopupManager {
   async init(data: PopupData) {
     this.data = data;
     this.settings = await storageManager.getSettings();
+    this.policy = await storageManager.getManagedPolicy();
     
     // Debug: Check if custom platforms exist in storage
     const customPlatforms = await storageManager.getCustomPlatforms();
     console.log('Custom platforms from storage:', customPlatforms);
     
     this.availablePlatforms = await getAllPlatforms();
+    this.templates = await storageManager.getTemplates();
     
     console.log('Popup initialized with platforms:', this.availablePlatforms);
     
@@ -233,6 +283,104 @@ class PopupManager {
           border-color: #e2e8f0;
         }
         
+        .api-response {
+          max-height: 260px;
+          overflow-y: auto;
+          padding: 12px 16px;
+          border: 1px solid #d1d5db;
+          border-radius: 8px;
+          font-size: 14px;
+          line-height: 1.5;
+          white-space: pre-wrap;
+          word-break: break-word;
+          background: #fafafa;
+          color: #111827;
+        }
+        
+        .api-response:empty::before {
+          content: 'Waiting for the answer...';
+          color: #9ca3af;
+        }
+        
+        .label-row {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 12px;
+          margin-bottom: 6px;
+        }
+        
+        .label-row label {
+          margin-bottom: 0;
+        }
+        
+        .code-badge {
+          margin-right: auto;
+          padding: 2px 8px;
+          border-radius: 10px;
+          background: #eef2ff;
+          color: #4338ca;
+          font-size: 12px;
+          font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+        }
+        
+        .token-meter {
+          margin-top: -8px;
+          margin-bottom: 16px;
+          font-size: 12px;
+          color: #6b7280;
+        }
+        
+        .token-bar {
+          height: 4px;
+          margin-top: 4px;
+          border-radius: 2px;
+          background: #e5e7eb;
+          overflow: hidden;
+        }
+        
+        .token-bar-fill {
+          height: 100%;
+          width: 0;
+          background: #10b981;
+          transition: width 0.2s ease;
+        }
+        
+        .token-meter.warn .token-meter-text {
+          color: #b45309;
+        }
+        
+        .token-meter.warn .token-bar-fill {
+          background: #f59e0b;
+        }
+        
+        .token-meter.over .token-meter-text {
+          color: #dc2626;
+        }
+        
+        .token-meter.over .token-bar-fill {
+          background: #ef4444;
+        }
+        
+        .template-picker,
+        .format-picker {
+          border: 1px solid #d1d5db;
+          border-radius: 6px;
+          padding: 4px 8px;
+          font-size: 13px;
+          background: white;
+          color: #374151;
+          cursor: pointer;
+          max-width: 60%;
+        }
+        
+        .template-picker:focus,
+        .format-picker:focus {
+          outline: none;
+          border-color: #3b82f6;
+          box-shadow: 0 0 0 2px rgba(59, 130, 246, 0.1);
+        }
+        
 
         
         .form-options {
@@ -260,6 +408,94 @@ class PopupManager {
           margin: 0;
         }
         
+        .platform-multi {
+          display: flex;
+          flex-direction: column;
+          gap: 10px;
+          padding-left: 28px;
+        }
+        
+        .platform-checkboxes {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 8px 16px;
+        }
+        
+        .platform-checkboxes label {
+          font-weight: 400;
+        }
+        
+        .popup-notice {
+          padding: 8px 12px;
+          border-radius: 6px;
+          background: #eff6ff;
+          color: #1e40af;
+          font-size: 13px;
+        }
+        
+        .redaction-review {
+          margin-top: 12px;
+          padding: 12px;
+          border-radius: 6px;
+          border-left: 3px solid #f59e0b;
+          background: #fffbeb;
+          font-size: 13px;
+          color: #78350f;
+        }
+        
+        .redaction-findings {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          margin: 8px 0;
+        }
+        
+        .redaction-finding {
+          font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+          font-size: 12px;
+          white-space: pre-wrap;
+          word-break: break-all;
+        }
+        
+        .redaction-finding strong {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+          margin-right: 6px;
+        }
+        
+        .redaction-finding mark {
+          background: #fde68a;
+          color: inherit;
+          border-radius: 2px;
+        }
+        
+        .redaction-actions {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 6px;
+        }
+        
+        .fanout-status {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          margin-top: 12px;
+        }
+        
+        .fanout-status-item {
+          padding: 8px 12px;
+          border-radius: 6px;
+          font-size: 13px;
+          border-left: 3px solid #10b981;
+          background: #ecfdf5;
+          color: #065f46;
+        }
+        
+        .fanout-status-item.error {
+          border-left-color: #ef4444;
+          background: #fef2f2;
+          color: #991b1b;
+        }
+        
         .mode-explanation {
           margin-top: 12px;
           padding: 16px;
@@ -583,18 +819,68 @@ class PopupManager {
           background: #374151;
         }
         
+        .dark .api-response {
+          background: #2d3748;
+          border-color: #4b5563;
+          color: #f9fafb;
+        }
+        
         .dark .form-section textarea[readonly] {
           background: #1a202c;
           color: #9ca3af;
           border-color: #2d3748;
         }
         
+        .dark .code-badge {
+          background: #312e81;
+          color: #c7d2fe;
+        }
+        
+        .dark .token-bar {
+          background: #374151;
+        }
+        
+        .dark .token-meter {
+          color: #9ca3af;
+        }
+        
+        .dark .template-picker,
+        .dark .format-picker {
+          background: #374151;
+          border-color: #4b5563;
+          color: #f9fafb;
+        }
+        
 
         
         .dark .form-options label {
           color: #d1d5db;
         }
         
+        .dark .popup-notice {
+          background: #1e3a8a;
+          color: #dbeafe;
+        }
+        
+        .dark .redaction-review {
+          background: #451a03;
+          color: #fef3c7;
+        }
+        
+        .dark .redaction-finding mark {
+          background: #92400e;
+        }
+        
+        .dark .fanout-status-item {
+          background: #064e3b;
+          color: #d1fae5;
+        }
+        
+        .dark .fanout-status-item.error {
+          background: #7f1d1d;
+          color: #fee2e2;
+        }
+        
         .dark .form-options {
           background: #1a202c;
           border-color: #2d3748;
@@ -744,6 +1030,59 @@ class PopupManager {
           color: #d1d5db;
         }
         
+        .metadata-preview {
+          margin-bottom: 16px;
+        }
+        
+        .metadata-preview h3 {
+          margin: 0 0 8px 0;
+          font-size: 14px;
+          font-weight: 600;
+          color: #374151;
+        }
+        
+        .metadata-fields {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+        }
+        
+        .metadata-fields label {
+          display: flex;
+          align-items: baseline;
+          gap: 8px;
+          font-weight: 400;
+          font-size: 13px;
+          min-width: 0;
+        }
+        
+        .metadata-value {
+          flex: 1;
+          min-width: 0;
+          color: #6b7280;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+        
+        .dark .metadata-preview h3 {
+          color: #f3f4f6;
+        }
+        
+        .dark .metadata-value {
+          color: #9ca3af;
+        }
+        
+        .page-content-status {
+          margin: 8px 0 0 0;
+          font-size: 13px;
+          color: #6b7280;
+        }
+        
+        .page-content-status.error {
+          color: #dc2626;
+        }
+        
         /* Settings Section Styles */
         .settings-section {
           padding: 0;
@@ -967,7 +1306,15 @@ class PopupManager {
             <!-- Text Mode Content -->
             <div id="text-mode-content">
               <div class="form-section">
-                <label for="selected-text" id="selected-text-label">${i18n.selectedText()}</label>
+                <div class="label-row">
+                  <label for="selected-text" id="selected-text-label">${i18n.selectedText()}</label>
+                  <span id="code-badge" class="code-badge" title="Sent as a fenced code block" style="display: none;"></span>
+                  <select id="selection-format" class="format-picker" title="How the selection is sent">
+                    <option value="text">Plain text</option>
+                    <option value="markdown">Markdown</option>
+                    <option value="html">HTML</option>
+                  </select>
+                </div>
                 <textarea 
                   id="selected-text" 
                   readonly
@@ -975,12 +1322,21 @@ class PopupManager {
                 ></textarea>
               </div>
               <div class="form-section">
-                <label for="instructions" id="instructions-label">${i18n.instructions()}</label>
+                <div class="label-row">
+                  <label for="instructions" id="instructions-label">${i18n.instructions()}</label>
+                  <select id="template-picker" class="template-picker" title="Insert a prompt template">
+                    <!-- Template options will be populated dynamically -->
+                  </select>
+                </div>
                 <textarea 
                   id="instructions" 
                   placeholder="${i18n.instructionsPlaceholder()}"
                 ></textarea>
               </div>
+              <div class="token-meter" id="token-meter" title="Estimated locally; the platform's tokenizer may count slightly differently">
+                <div class="token-meter-text" id="token-meter-text"></div>
+                <div class="token-bar"><div class="token-bar-fill" id="token-bar-fill"></div></div>
+              </div>
             </div>
             
             <!-- URL Mode Content -->
@@ -990,8 +1346,19 @@ class PopupManager {
                 <p id="page-title">Loading...</p>
                 <div class="url-display" id="page-url">Loading...</div>
               </div>
+              <div class="metadata-preview" id="metadata-preview" style="display: none;">
+                <h3>Page Metadata</h3>
+                <div class="metadata-fields" id="metadata-fields">
+                  <!-- Metadata fields will be populated dynamically -->
+                </div>
+              </div>
               <div class="form-section">
-                <p style="color: #6b7280; font-size: 14px; margin: 0; padding: 12px 0;">🔗 This will send <strong>only the clean URL</strong> to your selected AI platform. You can then add your own instructions there.</p>
+                <label>
+                  <input type="checkbox" id="send-page-content">
+                  <span>Send the page content, not just the URL</span>
+                </label>
+                <p class="page-content-status" id="page-content-status"></p>
+                <p id="url-only-hint" style="color: #6b7280; font-size: 14px; margin: 0; padding: 12px 0;">🔗 This will send <strong>the clean URL</strong> (plus any metadata ticked above) to your selected AI platform. You can then add your own instructions there.</p>
               </div>
             </div>
             
@@ -1005,6 +1372,8 @@ class PopupManager {
                   <!-- Custom platforms will be populated here -->
                 </div>
                 
+                <div class="popup-notice" id="custom-platforms-policy-notice" style="display: none;">🔒 Adding custom platforms is turned off by your organization.</div>
+                
                 <div class="add-platform-form" id="add-platform-form">
                   <div class="form-group">
                     <label for="platform-name">Platform Name</label>
@@ -1029,6 +1398,8 @@ class PopupManager {
             </div>
 
             <div class="form-options">
+              <div class="popup-notice" id="site-rule-notice" style="display: none;"></div>
+              <div class="popup-notice" id="policy-notice" style="display: none;">🔒 Some options are managed by your organization and can't be changed.</div>
               <label id="save-instructions-container">
                 <input type="checkbox" id="save-instructions">
                 <span id="save-instructions-label">${i18n.saveInstructions()}</span>
@@ -1039,14 +1410,49 @@ class PopupManager {
                   <!-- Platform options will be populated dynamically -->
                 </select>
               </label>
+              <label>
+                <input type="checkbox" id="multi-platform">
+                <span>Send to several platforms at once</span>
+              </label>
+              <div class="platform-multi" id="platform-multi" style="display: none;">
+                <div class="platform-checkboxes" id="platform-checkboxes">
+                  <!-- Platform checkboxes will be populated dynamically -->
+                </div>
+                <label>
+                  <input type="checkbox" id="tile-windows">
+                  <span>Tile side by side in new windows</span>
+                </label>
+              </div>
               <label>
                 <input type="checkbox" id="auto-send">
-                <span id="auto-send-label">Auto-send (works with all platforms)</span>
+                <span id="auto-send-label">Auto-send (press send after inserting)</span>
+              </label>
+              <label id="rewrite-container" style="display: none;" title="Waits for the answer and puts it in place of the selected text. Not used when sending to several platforms.">
+                <input type="checkbox" id="rewrite-selection">
+                <span>Replace the selection with the answer</span>
               </label>
               <div class="mode-explanation">
-                <p><strong>Auto-send ON:</strong> Sends directly to the selected platform with default model</p>
-                <p><strong>Auto-send OFF:</strong> Pastes text into the platform's chat box for manual model selection</p>
+                <p><strong>Auto-send ON:</strong> Inserts the prompt and submits it on the selected platform</p>
+                <p><strong>Auto-send OFF:</strong> Pastes text into the platform's chat box so you can review it before sending</p>
+              </div>
+            </div>
+            <div class="redaction-review" id="redaction-review" style="display: none;">
+              <div id="redaction-summary"></div>
+              <div class="redaction-findings" id="redaction-findings"></div>
+              <div class="redaction-actions">
+                <button type="button" class="btn-small" data-redaction="mask" title="Replace each finding with [REDACTED ...]">Mask</button>
+                <button type="button" class="btn-small" data-redaction="pseudonymize" title="Replace each distinct value with a numbered placeholder such as [EMAIL_1]">Pseudonymize</button>
+                <button type="button" class="btn-small" data-redaction="send">Send anyway</button>
+                <button type="button" class="btn-small" data-redaction="cancel">Edit first</button>
+              </div>
+            </div>
+            <div class="fanout-status" id="fanout-status" style="display: none;"></div>
+            <div class="form-section" id="api-response-section" style="display: none; margin-top: 20px;">
+              <div class="label-row">
+                <label>Answer</label>
+                <button type="button" class="btn-small" id="copy-api-response">Copy</button>
               </div>
+              <div class="api-response" id="api-response"></div>
             </div>
           </div>
           <div class="popup-footer">
@@ -1087,6 +1493,32 @@ class PopupManager {
     urlModeBtn?.addEventListener('click', () => this.switchToUrlMode());
     settingsModeBtn?.addEventListener('click', () => this.switchToSettingsMode());
 
+    // Template picker
+    const templatePicker = this.shadowRoot.getElementById('template-picker') as HTMLSelectElement;
+    templatePicker?.addEventListener('change', () => this.applyTemplate(templatePicker.value));
+
+    // Selection format
+    const formatPicker = this.shadowRoot.getElementById('selection-format') as HTMLSelectElement;
+    formatPicker?.addEventListener('change', () => this.applySelectionFormat(formatPicker.value as SelectionFormat));
+
+    // Live token estimate
+    const instructionsInput = this.shadowRoot.getElementById('instructions');
+    instructionsInput?.addEventListener('input', () => this.updateTokenMeter());
+    const platformPicker = this.shadowRoot.getElementById('ai-platform');
+    platformPicker?.addEventListener('change', () => this.updateTokenMeter());
+
+    // Copy a streamed API answer
+    const copyResponseBtn = this.shadowRoot.getElementById('copy-api-response');
+    copyResponseBtn?.addEventListener('click', () => this.copyApiResponse());
+
+    // Multi-platform sending
+    const multiPlatformCheckbox = this.shadowRoot.getElementById('multi-platform') as HTMLInputElement;
+    multiPlatformCheckbox?.addEventListener('change', () => this.applyMultiPlatformMode(multiPlatformCheckbox.checked));
+
+    // Reader-mode page content in URL mode
+    const pageContentCheckbox = this.shadowRoot.getElementById('send-page-content') as HTMLInputElement;
+    pageContentCheckbox?.addEventListener('change', () => this.applyPageContentMode(pageContentCheckbox.checked));
+
     // Overlay click (close on outside click)
     const overlay = this.shadowRoot.getElementById('popup-overlay');
     overlay?.addEventListener('click', (e) => {
@@ -1199,7 +1631,103 @@ class PopupManager {
     if (sendBtn) sendBtn.style.display = 'block';
     
     // Update send button text
-    if (sendBtnText) sendBtnText.textContent = 'Send URL';
+    if (sendBtnText) sendBtnText.textContent = this.settings?.sendPageContent ? 'Send Page' : 'Send URL';
+    if (this.settings?.sendPageContent) this.showPageContentPreview();
+  }
+
+  /**
+   * List the metadata the page has, each with a checkbox to include it in URL mode
+   */
+  private renderMetadataPreview() {
+    const preview = this.shadowRoot?.getElementById('metadata-preview');
+    const container = this.shadowRoot?.getElementById('metadata-fields');
+    if (!preview || !container || !this.settings) return;
+    
+    container.innerHTML = '';
+    const metadata = this.pageMetadata;
+    const available = metadata ? METADATA_FIELDS.filter(({ field }) => hasMetadataField(metadata, field)) : [];
+    preview.style.display = available.length > 0 ? '' : 'none';
+    
+    available.forEach(({ field, label }) => {
+      const row = document.createElement('label');
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.value = field;
+      checkbox.checked = this.settings!.urlMetadataFields.includes(field);
+      checkbox.disabled = this.isSettingLocked('urlMetadataFields');
+      checkbox.addEventListener('change', () => this.saveMetadataFields());
+      
+      const name = document.createElement('span');
+      name.textContent = label;
+      
+      // Page-provided values, so set as text
+      const value = document.createElement('span');
+      value.className = 'metadata-value';
+      value.textContent = previewMetadataField(metadata!, field);
+      value.title = value.textContent;
+      
+      row.append(checkbox, name, value);
+      container.appendChild(row);
+    });
+  }
+
+  /**
+   * Remember which metadata fields are attached
+   */
+  private async saveMetadataFields() {
+    if (!this.shadowRoot || !this.settings) return;
+    
+    // Fields this page doesn't have keep their earlier choice
+    const shown = Array.from(this.shadowRoot.querySelectorAll<HTMLInputElement>('#metadata-fields input'));
+    const hidden = this.settings.urlMetadataFields.filter(field => !shown.some(checkbox => checkbox.value === field));
+    const checked = shown.filter(checkbox => checkbox.checked).map(checkbox => checkbox.value as MetadataField);
+    
+    this.settings.urlMetadataFields = [...hidden, ...checked];
+    await storageManager.saveSettings({ urlMetadataFields: this.settings.urlMetadataFields });
+  }
+
+  /**
+   * Switch URL mode between the bare URL and the page's article content, and remember the choice
+   */
+  private async applyPageContentMode(enabled: boolean) {
+    if (!this.shadowRoot || !this.settings) return;
+    
+    this.settings.sendPageContent = enabled;
+    this.showPageContentPreview();
+    
+    const sendBtnText = this.shadowRoot.getElementById('send-btn-text');
+    if (sendBtnText) sendBtnText.textContent = enabled ? 'Send Page' : 'Send URL';
+    
+    await storageManager.saveSettings({ sendPageContent: enabled });
+  }
+
+  /**
+   * Show what reader mode found on the page (title, author, length)
+   */
+  private showPageContentPreview() {
+    const status = this.shadowRoot?.getElementById('page-content-status');
+    const urlOnlyHint = this.shadowRoot?.getElementById('url-only-hint');
+    if (!status || !urlOnlyHint) return;
+    
+    const enabled = Boolean(this.settings?.sendPageContent);
+    urlOnlyHint.style.display = enabled ? 'none' : '';
+    status.style.display = enabled ? '' : 'none';
+    if (!enabled) return;
+    
+    const article = extractArticle(document, { baseUrl: window.location.href });
+    status.classList.toggle('error', !article);
+    
+    if (!article) {
+      status.textContent = 'No article text found on this page. Only the URL will be sent.';
+      return;
+    }
+    
+    const words = article.content.split(/\s+/).filter(Boolean).length;
+    status.textContent = [
+      `📄 ${article.title}`,
+      article.byline ? `by ${article.byline}` : '',
+      `${words.toLocaleString()} words`
+    ].filter(Boolean).join(' · ');
   }
   
   /**
@@ -1396,12 +1924,8 @@ class PopupManager {
     if (!this.shadowRoot) return;
     
     try {
-      // Get current platforms and filter out the one to delete
-      const currentPlatforms = await storageManager.getCustomPlatforms();
-      const updatedPlatforms = currentPlatforms.filter(p => p.id !== platformId);
-      
-      // Save the updated platforms list
-      await storageManager.saveCustomPlatforms(updatedPlatforms);
+      // Remove the platform (and any adapter edits for it)
+      await storageManager.removeCustomPlatform(platformId);
       
       // Reload platforms list
       await this.loadCustomPlatforms();
@@ -1418,6 +1942,13 @@ class PopupManager {
     }
   }
   
+  /**
+   * Strip tracking parameters and tokens from a URL that is about to be sent
+   */
+  private cleanUrl(url: string): string {
+    return this.settings ? sanitizeUrl(url, getUrlRules(this.settings)) : url;
+  }
+
   /**
    * Load current page information
    */
@@ -1439,8 +1970,14 @@ class PopupManager {
         }
         
         if (pageUrlElement) {
-          pageUrlElement.textContent = response.data?.url || 'No URL';
+          const url = response.data?.url;
+          const cleanUrl = url ? this.cleanUrl(url) : '';
+          pageUrlElement.textContent = cleanUrl || 'No URL';
+          pageUrlElement.title = cleanUrl !== url ? `Tracking parameters removed from ${url}` : '';
         }
+        
+        this.pageMetadata = response.data?.metadata || null;
+        this.renderMetadataPreview();
       } else {
         throw new Error('Failed to get tab info from background script');
       }
@@ -1465,20 +2002,48 @@ class PopupManager {
   private async populateForm() {
     if (!this.shadowRoot || !this.data || !this.settings) return;
 
-    // Populate selected text
-    const selectedTextArea = this.shadowRoot.getElementById('selected-text') as HTMLTextAreaElement;
-    if (selectedTextArea) {
-      selectedTextArea.value = this.data.text;
-      this.autoResizeTextarea({ target: selectedTextArea } as any);
+    // Populate selected text in the remembered format
+    const formatPicker = this.shadowRoot.getElementById('selection-format') as HTMLSelectElement;
+    if (formatPicker) {
+      formatPicker.value = this.settings.selectionFormat;
+    }
+    const truncated = this.renderSelection(this.settings.selectionFormat);
+    
+    // Code selections are sent verbatim in a fenced block, so the format choice doesn't apply
+    const codeBadge = this.shadowRoot.getElementById('code-badge');
+    if (codeBadge && this.data.isCode) {
+      codeBadge.textContent = this.data.codeLanguage ? `Code · ${this.data.codeLanguage}` : 'Code';
+      codeBadge.style.display = '';
+      if (formatPicker) formatPicker.style.display = 'none';
     }
 
     // Populate instructions
     const instructionsArea = this.shadowRoot.getElementById('instructions') as HTMLTextAreaElement;
     if (instructionsArea) {
-      instructionsArea.value = this.settings.defaultInstructions;
+      instructionsArea.value = this.data.sitePolicy?.instructions ?? this.settings.defaultInstructions;
       this.autoResizeTextarea({ target: instructionsArea } as any);
     }
 
+    // Populate template picker
+    const templatePicker = this.shadowRoot.getElementById('template-picker') as HTMLSelectElement;
+    if (templatePicker) {
+      templatePicker.innerHTML = '';
+      
+      const placeholder = document.createElement('option');
+      placeholder.value = '';
+      placeholder.textContent = 'Templates…';
+      templatePicker.appendChild(placeholder);
+      
+      this.templates.forEach(template => {
+        const option = document.createElement('option');
+        option.value = template.id;
+        option.textContent = template.name;
+        templatePicker.appendChild(option);
+      });
+      
+      templatePicker.style.display = this.templates.length > 0 ? '' : 'none';
+    }
+
     // Set checkboxes
     const saveInstructionsCheckbox = this.shadowRoot.getElementById('save-instructions') as HTMLInputElement;
     if (saveInstructionsCheckbox) {
@@ -1505,26 +2070,342 @@ class PopupManager {
         console.log('Added platform option:', platform.name, platform.id);
       });
       
-      // Set default platform (fallback to chatgpt if custom platform no longer exists)
+      // Set default platform (fallback to the first one if a custom platform no longer exists or isn't allowed)
       const defaultPlatformExists = this.availablePlatforms.some(p => p.id === this.settings?.defaultPlatform);
-      platformSelect.value = defaultPlatformExists ? this.settings?.defaultPlatform || 'chatgpt' : 'chatgpt';
+      platformSelect.value = defaultPlatformExists ? this.settings?.defaultPlatform || 'chatgpt' : this.availablePlatforms[0]?.id || 'chatgpt';
       console.log('Set default platform to:', platformSelect.value);
     }
 
+    this.populateFanOutPlatforms();
+    this.applySitePolicy();
+    this.applyManagedPolicy();
+
     const autoSendCheckbox = this.shadowRoot.getElementById('auto-send') as HTMLInputElement;
     if (autoSendCheckbox) {
       autoSendCheckbox.checked = this.settings.autoSend;
     }
 
+    const pageContentCheckbox = this.shadowRoot.getElementById('send-page-content') as HTMLInputElement;
+    if (pageContentCheckbox) {
+      pageContentCheckbox.checked = this.settings.sendPageContent;
+    }
+
+    // Rewrite in place is only offered for selections the page lets us edit
+    const rewriteContainer = this.shadowRoot.getElementById('rewrite-container');
+    if (rewriteContainer && this.data.editable) {
+      rewriteContainer.style.display = '';
+    }
+
+    this.updateTokenMeter();
+
     // Show truncation warning if needed
-    if (this.data.truncated) {
+    if (this.data.truncated || truncated) {
       this.showNotification(
-        i18n.textTruncated(this.settings.maxTextLength.toString()),
+        i18n.textTruncated(getSelectionLimit(this.settings).toString()),
         'info'
       );
     }
   }
 
+  /**
+   * Fill the selected text area with the capture in the given format
+   * Returns whether the content had to be truncated
+   */
+  private renderSelection(format: SelectionFormat): boolean {
+    if (!this.shadowRoot || !this.data || !this.settings) return false;
+    
+    const selectedTextArea = this.shadowRoot.getElementById('selected-text') as HTMLTextAreaElement;
+    if (!selectedTextArea) return false;
+    
+    const { text, truncated } = formatSelection(this.data, format, getSelectionLimit(this.settings), {
+      baseUrl: window.location.href,
+      rewriteUrl: url => this.cleanUrl(url)
+    });
+    selectedTextArea.value = text;
+    this.autoResizeTextarea({ target: selectedTextArea } as any);
+    this.updateTokenMeter();
+    
+    return truncated;
+  }
+
+  /**
+   * Model whose context window the prompt is measured against
+   */
+  private getTokenProfile(): ModelProfile {
+    if (this.settings?.transport === 'api') {
+      return getModelProfile(this.settings.apiModel);
+    }
+    
+    const platformSelect = this.shadowRoot?.getElementById('ai-platform') as HTMLSelectElement | null;
+    const fanOutPlatforms = this.getFanOutPlatforms();
+    const platformIds = fanOutPlatforms?.length ? fanOutPlatforms : [platformSelect?.value || 'chatgpt'];
+    
+    // A fan-out prompt has to fit every target, so the smallest context window counts
+    return platformIds
+      .map(platformId => getPlatformModelProfile(platformId, getPlatformModel(this.settings?.platformModels || {}, platformId)))
+      .reduce((smallest, profile) => profile.contextWindow < smallest.contextWindow ? profile : smallest);
+  }
+
+  /**
+   * Estimate the prompt the text mode would send, templates expanded
+   */
+  private estimatePromptTokens(): { usage: TokenUsage; profile: ModelProfile; parts: number; cut?: string } | null {
+    const selectedTextArea = this.shadowRoot?.getElementById('selected-text') as HTMLTextAreaElement | null;
+    const instructionsArea = this.shadowRoot?.getElementById('instructions') as HTMLTextAreaElement | null;
+    if (!selectedTextArea || !instructionsArea) return null;
+    
+    const rawText = selectedTextArea.value || '';
+    const rawInstructions = instructionsArea.value || '';
+    const platformSelect = this.shadowRoot?.getElementById('ai-platform') as HTMLSelectElement | null;
+    const platform = this.availablePlatforms.find(p => p.id === (platformSelect?.value || 'chatgpt'));
+    const message: AIMessage = {
+      text: templateUsesVariable(rawInstructions, 'selection') ? '' : rawText,
+      instructions: expandTemplate(rawInstructions, buildTemplateVariables(rawText, this.cleanUrl(window.location.href))),
+      isCode: Boolean(this.data?.isCode),
+      envelope: platform?.envelope // Laid out and split as the background will for this platform
+    };
+    
+    const sent = this.settings && platform && usesChunking(this.settings)
+      ? buildPlatformParts(message, this.settings.maxTextLength, platform)
+      : [message];
+    // Platforms that can't take parts get the text cut to one message, as the background will
+    const cut = sent.length === 1 && sent[0].text !== message.text ? platform?.name : undefined;
+    
+    const profile = this.getTokenProfile();
+    const usage = estimateUsage(formatMessageForClipboard(cut ? sent[0] : message), profile);
+    return { usage, profile, parts: sent.length, cut };
+  }
+
+  /**
+   * Show the live token count and how much of the model's context window it takes
+   */
+  private updateTokenMeter() {
+    const meter = this.shadowRoot?.getElementById('token-meter');
+    const meterText = this.shadowRoot?.getElementById('token-meter-text');
+    const fill = this.shadowRoot?.getElementById('token-bar-fill');
+    const estimate = this.estimatePromptTokens();
+    if (!meter || !meterText || !fill || !estimate) return;
+    
+    const { usage, profile } = estimate;
+    const context = `${profile.name}'s ${formatTokenCount(profile.contextWindow)} context`;
+    const percent = usage.tokens > 0 && usage.ratio < 0.01 ? '<1%' : `${Math.round(usage.ratio * 100)}%`;
+    
+    let label = usage.fits
+      ? `~${formatTokenCount(usage.tokens)} tokens · ${percent} of ${context}`
+      : `~${formatTokenCount(usage.tokens)} tokens · too long for ${context}`;
+    if (this.settings?.transport === 'api' && usage.cost !== undefined) {
+      label += ` · ≈ $${usage.cost < 0.01 ? usage.cost.toFixed(4) : usage.cost.toFixed(2)}`;
+    }
+    if (estimate.parts > 1) {
+      label += ` · sent in ${estimate.parts} parts`;
+    }
+    if (estimate.cut && this.settings) {
+      label += ` · cut to ${this.settings.maxTextLength} characters, ${estimate.cut} can't take parts`;
+    }
+    
+    meterText.textContent = label;
+    fill.style.width = `${Math.min(100, usage.ratio * 100)}%`;
+    meter.classList.toggle('warn', usage.fits && usage.ratio >= 0.8);
+    meter.classList.toggle('over', !usage.fits);
+    
+    // The prompt changed, so an earlier "send anyway" no longer applies
+    this.tokenWarningShown = false;
+  }
+
+  /**
+   * Switch the selection format and remember the choice
+   */
+  private async applySelectionFormat(format: SelectionFormat) {
+    if (!this.settings) return;
+    
+    if (this.renderSelection(format)) {
+      this.showNotification(i18n.textTruncated(getSelectionLimit(this.settings).toString()), 'info');
+    }
+    
+    this.settings.selectionFormat = format;
+    await storageManager.saveSettings({ selectionFormat: format });
+  }
+
+  /**
+   * Lock the platform a site rule forces and say which rules apply
+   */
+  private applySitePolicy() {
+    const policy = this.data?.sitePolicy;
+    const notice = this.shadowRoot?.getElementById('site-rule-notice');
+    if (!policy || policy.patterns.length === 0 || !notice) return;
+    
+    const details: string[] = [];
+    
+    if (policy.platform) {
+      const platformSelect = this.shadowRoot?.getElementById('ai-platform') as HTMLSelectElement | null;
+      const multiPlatformCheckbox = this.shadowRoot?.getElementById('multi-platform') as HTMLInputElement | null;
+      const multiPlatformLabel = multiPlatformCheckbox?.closest('label');
+      
+      this.showMultiPlatformMode(false);
+      if (multiPlatformLabel) multiPlatformLabel.style.display = 'none';
+      if (platformSelect) {
+        platformSelect.value = policy.platform;
+        platformSelect.disabled = true;
+      }
+      
+      const platformName = this.availablePlatforms.find(platform => platform.id === policy.platform)?.name || policy.platform;
+      details.push(`always sent to ${platformName}`);
+    }
+    if (policy.instructions) details.push('instructions set');
+    if (policy.confirm) details.push('confirmation required');
+    
+    notice.textContent = `Site rule (${policy.patterns.join(', ')}): ${details.join(' · ')}`;
+    notice.style.display = '';
+  }
+
+  /**
+   * Make the controls of locked settings read-only and hide what the policy turns off
+   */
+  private applyManagedPolicy() {
+    if (!this.shadowRoot) return;
+    
+    const locked = getLockedSettingKeys(this.policy);
+    locked.forEach(key => {
+      const control = SETTING_CONTROLS[key] && this.shadowRoot?.getElementById(SETTING_CONTROLS[key]!) as HTMLInputElement | HTMLSelectElement | null;
+      if (!control) return;
+      
+      control.disabled = true;
+      // Disabled controls get no hover events, so the explanation goes on their label
+      (control.closest('label') || control).setAttribute('title', MANAGED_EXPLANATION);
+    });
+    
+    const notice = this.shadowRoot.getElementById('policy-notice');
+    if (notice && locked.some(key => key in SETTING_CONTROLS || key === 'fanOutPlatforms' || key === 'urlMetadataFields')) {
+      notice.style.display = '';
+    }
+    
+    // Sensitive data can only be masked or pseudonymized
+    const sendAnywayBtn = this.shadowRoot.querySelector<HTMLElement>('[data-redaction="send"]');
+    if (sendAnywayBtn && this.policy.enforceRedaction) {
+      sendAnywayBtn.style.display = 'none';
+    }
+    
+    if (!this.policy.allowCustomPlatforms) {
+      const addPlatformForm = this.shadowRoot.getElementById('add-platform-form');
+      const customPlatformsNotice = this.shadowRoot.getElementById('custom-platforms-policy-notice');
+      if (addPlatformForm) addPlatformForm.style.display = 'none';
+      if (customPlatformsNotice) customPlatformsNotice.style.display = '';
+    }
+  }
+
+  /**
+   * Whether the managed policy locks a setting
+   */
+  private isSettingLocked(key: keyof ExtensionSettings): boolean {
+    return getLockedSettingKeys(this.policy).includes(key);
+  }
+
+  /**
+   * Ask before sending when a site rule requires it
+   */
+  private confirmSiteRule(): boolean {
+    if (!this.data?.sitePolicy?.confirm) return true;
+    
+    return window.confirm('A site rule asks you to confirm before sending content from this page to an AI platform. Send it?');
+  }
+
+  /**
+   * Platform to remember as the default; one forced by a site rule isn't the user's choice
+   */
+  private getPreferredPlatform(selectedPlatform: string): string {
+    return this.data?.sitePolicy?.platform ? this.settings?.defaultPlatform || 'chatgpt' : selectedPlatform;
+  }
+
+  /**
+   * Fill the multi-platform checkboxes and restore the last fan-out choice
+   */
+  private populateFanOutPlatforms() {
+    if (!this.shadowRoot || !this.settings) return;
+    
+    const checkboxContainer = this.shadowRoot.getElementById('platform-checkboxes');
+    const multiPlatformCheckbox = this.shadowRoot.getElementById('multi-platform') as HTMLInputElement;
+    const tileCheckbox = this.shadowRoot.getElementById('tile-windows') as HTMLInputElement;
+    if (!checkboxContainer) return;
+    
+    checkboxContainer.innerHTML = '';
+    this.availablePlatforms.forEach(platform => {
+      const label = document.createElement('label');
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.value = platform.id;
+      checkbox.checked = this.settings!.fanOutPlatforms.includes(platform.id);
+      checkbox.disabled = this.isSettingLocked('fanOutPlatforms');
+      checkbox.addEventListener('change', () => this.updateTokenMeter());
+      const name = document.createElement('span');
+      name.textContent = platform.name;
+      label.append(checkbox, name);
+      checkboxContainer.appendChild(label);
+    });
+    
+    if (tileCheckbox) tileCheckbox.checked = this.settings.tileFanOutWindows;
+    if (multiPlatformCheckbox) multiPlatformCheckbox.checked = this.settings.multiPlatformSend;
+    
+    // Every platform would hit the same endpoint in API mode
+    const apiMode = this.settings.transport === 'api';
+    const multiPlatformLabel = multiPlatformCheckbox?.closest('label');
+    if (multiPlatformLabel) multiPlatformLabel.style.display = apiMode ? 'none' : '';
+    this.showMultiPlatformMode(this.settings.multiPlatformSend && !apiMode);
+  }
+
+  /**
+   * Swap the single platform picker for the platform checkboxes
+   */
+  private showMultiPlatformMode(enabled: boolean) {
+    if (!this.shadowRoot) return;
+    
+    const platformSelect = this.shadowRoot.getElementById('ai-platform') as HTMLSelectElement;
+    const multiContainer = this.shadowRoot.getElementById('platform-multi');
+    
+    if (platformSelect) platformSelect.disabled = enabled || this.isSettingLocked('defaultPlatform');
+    if (multiContainer) multiContainer.style.display = enabled ? '' : 'none';
+  }
+
+  /**
+   * Toggle multi-platform mode and remember the choice
+   */
+  private async applyMultiPlatformMode(enabled: boolean) {
+    if (!this.settings) return;
+    
+    this.showMultiPlatformMode(enabled);
+    this.updateTokenMeter();
+    this.settings.multiPlatformSend = enabled;
+    await storageManager.saveSettings({ multiPlatformSend: enabled });
+  }
+
+  /**
+   * Platforms checked for a fan-out send, or null in single-platform mode
+   */
+  private getFanOutPlatforms(): string[] | null {
+    if (!this.shadowRoot) return null;
+    
+    const multiPlatformCheckbox = this.shadowRoot.getElementById('multi-platform') as HTMLInputElement;
+    if (!multiPlatformCheckbox?.checked || this.settings?.transport === 'api' || this.data?.sitePolicy?.platform) return null;
+    
+    return Array.from(this.shadowRoot.querySelectorAll<HTMLInputElement>('#platform-checkboxes input:checked'))
+      .map(checkbox => checkbox.value);
+  }
+
+  /**
+   * Replace the instructions with the selected template (variables are expanded on send)
+   */
+  private applyTemplate(templateId: string) {
+    if (!this.shadowRoot) return;
+    
+    const template = this.templates.find(t => t.id === templateId);
+    const instructionsArea = this.shadowRoot.getElementById('instructions') as HTMLTextAreaElement;
+    if (!template || !instructionsArea) return;
+    
+    instructionsArea.value = template.instructions;
+    this.autoResizeTextarea({ target: instructionsArea } as any);
+    this.updateTokenMeter();
+    instructionsArea.focus();
+  }
+
   /**
    * Show popup with enhanced animation
    */
@@ -1661,11 +2542,16 @@ class PopupManager {
     sendBtn.classList.add('loading');
     sendBtn.disabled = true;
 
-    const selectedText = selectedTextArea.value || '';
-    const instructions = instructionsArea.value || '';
+    const rawText = selectedTextArea.value || '';
+    const rawInstructions = instructionsArea.value || '';
     const saveInstructions = saveInstructionsCheckbox.checked;
     const autoSend = autoSendCheckbox.checked;
     const selectedPlatform = platformSelect.value;
+    const rewrite = Boolean(this.data?.editable && (this.shadowRoot.getElementById('rewrite-selection') as HTMLInputElement)?.checked);
+
+    // Expand template variables; a template that embeds {{selection}} carries the text itself
+    const instructions = expandTemplate(rawInstructions, buildTemplateVariables(rawText, this.cleanUrl(window.location.href)));
+    const selectedText = templateUsesVariable(rawInstructions, 'selection') ? '' : rawText;
 
     console.log('Form values:', { selectedText, instructions, saveInstructions, autoSend, selectedPlatform });
     
@@ -1678,28 +2564,67 @@ class PopupManager {
       return;
     }
 
+    // Warn once before sending a prompt the model can't take; clicking send again sends it anyway
+    const estimate = this.estimatePromptTokens();
+    if (estimate && !estimate.usage.fits && !this.tokenWarningShown) {
+      this.tokenWarningShown = true;
+      this.showNotification(
+        `~${formatTokenCount(estimate.usage.tokens)} tokens won't fit ${estimate.profile.name}'s context window. Shorten the prompt or click send again to send anyway.`,
+        'error'
+      );
+      sendBtn.classList.remove('loading');
+      sendBtn.disabled = false;
+      return;
+    }
+
     // Save settings if requested
-    if (saveInstructions || this.settings?.autoSend !== autoSend || this.settings?.defaultPlatform !== selectedPlatform) {
+    const preferredPlatform = this.getPreferredPlatform(selectedPlatform);
+    if (saveInstructions || this.settings?.autoSend !== autoSend || this.settings?.defaultPlatform !== preferredPlatform) {
       await storageManager.saveSettings({
-        defaultInstructions: saveInstructions ? instructions : '',
+        defaultInstructions: saveInstructions ? rawInstructions : '',
         saveInstructions: saveInstructions,
         autoSend: autoSend,
-        defaultPlatform: selectedPlatform as any // Allow any platform ID including custom ones
+        defaultPlatform: preferredPlatform as any // Allow any platform ID including custom ones
       });
     }
 
+    const message: AIMessage = {
+      text: selectedText,
+      instructions: instructions,
+      model: getPlatformModel(this.settings?.platformModels || {}, selectedPlatform),
+      platform: selectedPlatform,
+      isCode: Boolean(this.data?.isCode && selectedText),
+      codeLanguage: this.data?.codeLanguage,
+      sourceUrl: this.cleanUrl(window.location.href),
+      title: document.title
+    };
+
+    // Personal data and secrets are reviewed before anything leaves the page
+    if (!(await this.reviewSensitiveData(message)) || !this.confirmSiteRule()) {
+      sendBtn.classList.remove('loading');
+      sendBtn.disabled = false;
+      return;
+    }
+
+    if (this.settings?.transport === 'api') {
+      await this.streamFromAPI(message, autoSend, selectedPlatform, sendBtn, rewrite);
+      return;
+    }
+
+    const fanOutPlatforms = this.getFanOutPlatforms();
+    if (fanOutPlatforms) {
+      await this.sendToMultiplePlatforms(message, autoSend, fanOutPlatforms, sendBtn);
+      return;
+    }
+
     // Send message to background script
     const messageData = {
       type: 'SEND_TO_AI',
       data: {
-        message: {
-          text: selectedText,
-          instructions: instructions,
-          model: this.settings?.defaultModel || 'gpt-4o',
-          platform: selectedPlatform
-        },
+        message,
         autoSend: autoSend,
-        platform: selectedPlatform
+        platform: selectedPlatform,
+        rewrite
       }
     };
     
@@ -1710,10 +2635,7 @@ class PopupManager {
       console.log('Received response from background:', response);
 
       if (response.success) {
-        const notificationText = response.method === 'deeplink' 
-          ? i18n.openingChatGPT()
-          : i18n.messageCopied();
-        this.showNotification(notificationText, 'success');
+        this.showNotification(describeAIResult(response), response.method === 'clipboard' ? 'info' : 'success');
         
         // Add success animation before closing
         sendBtn.style.background = 'linear-gradient(135deg, #10b981 0%, #059669 100%)';
@@ -1735,6 +2657,90 @@ class PopupManager {
     }
   }
   
+  /**
+   * Check an outgoing message for personal data and secrets and, when something is found, show
+   * it highlighted with mask, pseudonymize and send anyway choices. Applies the chosen redaction
+   * to the message; resolves false when the user goes back to edit instead
+   */
+  private reviewSensitiveData(message: AIMessage): Promise<boolean> {
+    const review = this.shadowRoot?.getElementById('redaction-review');
+    const summary = this.shadowRoot?.getElementById('redaction-summary');
+    const list = this.shadowRoot?.getElementById('redaction-findings');
+    if (!this.settings?.reviewSensitiveData || !review || !summary || !list) {
+      return Promise.resolve(true);
+    }
+
+    const { patterns } = parseCustomPatterns(this.settings.redactionPatterns);
+    const fields = (['text', 'instructions'] as const).map(field => ({
+      field,
+      findings: detectSensitiveData(message[field] || '', patterns)
+    }));
+    const findings = fields.flatMap(({ findings }) => findings);
+    if (findings.length === 0) {
+      return Promise.resolve(true);
+    }
+
+    summary.textContent = `⚠️ Found ${summarizeFindings(findings)}. Choose what to send:`;
+    list.innerHTML = '';
+    fields
+      .flatMap(({ field, findings }) => findings.map(finding => ({ text: message[field] || '', finding })))
+      .slice(0, MAX_FINDINGS_SHOWN)
+      .forEach(({ text, finding }) => list.appendChild(this.renderFinding(text, finding)));
+    if (findings.length > MAX_FINDINGS_SHOWN) {
+      const more = document.createElement('div');
+      more.textContent = `…and ${findings.length - MAX_FINDINGS_SHOWN} more`;
+      list.appendChild(more);
+    }
+
+    review.style.display = '';
+    review.scrollIntoView({ block: 'nearest' });
+
+    return new Promise(resolve => {
+      const buttons = review.querySelectorAll<HTMLButtonElement>('[data-redaction]');
+      const choose = (event: Event) => {
+        const choice = (event.currentTarget as HTMLElement).dataset.redaction;
+        buttons.forEach(button => button.removeEventListener('click', choose));
+        review.style.display = 'none';
+
+        if (choice === 'mask' || choice === 'pseudonymize') {
+          // One map for both fields, so a value gets the same placeholder in the text and the instructions
+          const pseudonyms = new Map<string, string>();
+          fields.forEach(({ field, findings }) => {
+            if (findings.length > 0) {
+              message[field] = redactText(message[field] || '', findings, choice, pseudonyms);
+            }
+          });
+        }
+
+        resolve(choice !== 'cancel');
+      };
+      buttons.forEach(button => button.addEventListener('click', choose));
+    });
+  }
+
+  /**
+   * One finding with a little surrounding text, the value highlighted
+   */
+  private renderFinding(text: string, finding: Finding): HTMLElement {
+    const item = document.createElement('div');
+    item.className = 'redaction-finding';
+
+    const label = document.createElement('strong');
+    label.textContent = finding.label;
+
+    const before = text.slice(Math.max(0, finding.start - 30), finding.start).replace(/\s+/g, ' ');
+    const after = text.slice(finding.end, finding.end + 30).replace(/\s+/g, ' ');
+    const value = finding.value.length > 60
+      ? `${finding.value.slice(0, 28)}…${finding.value.slice(-28)}`
+      : finding.value;
+
+    const mark = document.createElement('mark');
+    mark.textContent = value;
+
+    item.append(label, `…${before}`, mark, `${after}…`);
+    return item;
+  }
+
   /**
    * Send URL to AI Platform
    */
@@ -1762,6 +2768,7 @@ class PopupManager {
     const autoSend = autoSendCheckbox.checked;
     const selectedPlatform = platformSelect.value;
     const pageUrl = pageUrlElement.textContent || '';
+    const sendPageContent = Boolean(this.settings?.sendPageContent);
 
     // Validate URL
     if (!pageUrl || pageUrl === 'No URL' || pageUrl === 'Unable to load URL') {
@@ -1773,25 +2780,73 @@ class PopupManager {
     }
 
     // Save platform preference
-    if (this.settings?.defaultPlatform !== selectedPlatform) {
+    const preferredPlatform = this.getPreferredPlatform(selectedPlatform);
+    if (this.settings?.defaultPlatform !== preferredPlatform) {
       await storageManager.saveSettings({
         defaultInstructions: this.settings?.defaultInstructions || '',
         saveInstructions: this.settings?.saveInstructions || false,
         autoSend: autoSend,
-        defaultPlatform: selectedPlatform as any
+        defaultPlatform: preferredPlatform as any
       });
     }
 
+    const message: AIMessage = {
+      text: pageUrl,  // Clean URL only
+      instructions: '',
+      model: getPlatformModel(this.settings?.platformModels || {}, selectedPlatform),
+      platform: selectedPlatform
+    };
+
+    // Reader mode: the article as a document with the URL as its source (pages the model can't fetch)
+    const article = sendPageContent
+      ? extractArticle(document, { baseUrl: pageUrl, rewriteUrl: url => this.cleanUrl(url) })
+      : null;
+    if (article) {
+      message.text = formatArticle(article, pageUrl);
+      message.sourceUrl = pageUrl;
+      message.title = article.title;
+    }
+
+    // Page metadata the user ticked in the preview
+    const metadataBlock = this.pageMetadata
+      ? sanitizeUrlsInText(formatPageMetadata(this.pageMetadata, this.settings?.urlMetadataFields || []), this.settings ? getUrlRules(this.settings) : [])
+      : '';
+    if (metadataBlock) {
+      message.text = `${message.text}\n\n${metadataBlock}`;
+    }
+
+    if ((article || metadataBlock) && this.settings) {
+      const { text, truncated } = truncateText(message.text, getSelectionLimit(this.settings));
+      message.text = text;
+      
+      if (truncated) {
+        this.showNotification(i18n.textTruncated(getSelectionLimit(this.settings).toString()), 'info');
+      }
+    }
+
+    // Personal data and secrets are reviewed before anything leaves the page
+    if (!(await this.reviewSensitiveData(message)) || !this.confirmSiteRule()) {
+      sendBtn.classList.remove('loading');
+      sendBtn.disabled = false;
+      return;
+    }
+
+    if (this.settings?.transport === 'api') {
+      await this.streamFromAPI(message, autoSend, selectedPlatform, sendBtn);
+      return;
+    }
+
+    const fanOutPlatforms = this.getFanOutPlatforms();
+    if (fanOutPlatforms) {
+      await this.sendToMultiplePlatforms(message, autoSend, fanOutPlatforms, sendBtn);
+      return;
+    }
+
     // Send clean URL to AI platform
     const messageData = {
       type: 'SEND_TO_AI',
       data: {
-        message: {
-          text: pageUrl,  // Clean URL only
-          instructions: '',
-          model: this.settings?.defaultModel || 'gpt-4o',
-          platform: selectedPlatform
-        },
+        message,
         autoSend: autoSend,
         platform: selectedPlatform
       }
@@ -1804,10 +2859,7 @@ class PopupManager {
       console.log('Received response from background:', response);
 
       if (response.success) {
-        const notificationText = response.method === 'deeplink' 
-          ? `Opening ${selectedPlatform}...`
-          : `URL sent to ${selectedPlatform}! Go paste it (Ctrl+V)`;
-        this.showNotification(notificationText, 'success');
+        this.showNotification(describeAIResult(response), response.method === 'clipboard' ? 'info' : 'success');
         
         // Add success animation before closing
         sendBtn.style.background = 'linear-gradient(135deg, #10b981 0%, #059669 100%)';
@@ -1829,6 +2881,144 @@ class PopupManager {
     }
   }
 
+  /**
+   * Send through the direct API transport and stream the answer into the popup
+   */
+  private streamFromAPI(message: AIMessage, autoSend: boolean, platformId: string, sendBtn: HTMLButtonElement, rewrite = false): Promise<void> {
+    const responseSection = this.shadowRoot?.getElementById('api-response-section');
+    const responseElement = this.shadowRoot?.getElementById('api-response');
+    if (!responseSection || !responseElement) return Promise.resolve();
+    
+    responseElement.textContent = '';
+    responseSection.style.display = '';
+    
+    return new Promise(resolve => {
+      const port = chrome.runtime.connect({ name: 'send-stream' });
+      let settled = false;
+      
+      const finish = () => {
+        if (settled) return;
+        settled = true;
+        sendBtn.classList.remove('loading');
+        sendBtn.disabled = false;
+        resolve();
+      };
+      
+      port.onMessage.addListener((event) => {
+        if (event.type === 'delta') {
+          responseElement.textContent += event.text;
+          responseElement.scrollTop = responseElement.scrollHeight;
+        } else if (event.type === 'result') {
+          if (event.result.success) {
+            if (!responseElement.textContent) responseElement.textContent = event.result.response || '';
+            this.showNotification(describeAIResult(event.result), 'success');
+          } else {
+            this.showNotification(event.result.error || i18n.error(), 'error');
+          }
+          port.disconnect();
+          finish();
+        }
+      });
+      
+      port.onDisconnect.addListener(() => {
+        if (!settled) {
+          this.showNotification('Connection to the extension was lost', 'error');
+        }
+        finish();
+      });
+      
+      port.postMessage({ type: 'SEND_TO_AI', data: { message, autoSend, platform: platformId, rewrite } });
+    });
+  }
+
+  /**
+   * Copy the streamed API answer
+   */
+  private async copyApiResponse() {
+    const responseElement = this.shadowRoot?.getElementById('api-response');
+    const answer = responseElement?.textContent || '';
+    if (!answer) return;
+    
+    try {
+      await navigator.clipboard.writeText(answer);
+      this.showNotification('Answer copied to clipboard', 'success');
+    } catch (error) {
+      console.error('Failed to copy answer:', error);
+      this.showNotification('Failed to copy answer', 'error');
+    }
+  }
+
+  /**
+   * Send the same message to every checked platform, each in its own tab or tiled window
+   */
+  private async sendToMultiplePlatforms(message: AIMessage, autoSend: boolean, platformIds: string[], sendBtn: HTMLButtonElement) {
+    if (!this.shadowRoot) return;
+    
+    const tileCheckbox = this.shadowRoot.getElementById('tile-windows') as HTMLInputElement;
+    const tile = Boolean(tileCheckbox?.checked);
+    
+    if (platformIds.length === 0) {
+      this.showNotification('Select at least one AI platform', 'error');
+      sendBtn.classList.remove('loading');
+      sendBtn.disabled = false;
+      return;
+    }
+    
+    await storageManager.saveSettings({ fanOutPlatforms: platformIds, tileFanOutWindows: tile });
+    
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'SEND_TO_MULTIPLE_AI',
+        data: { message, autoSend, platforms: platformIds, tile }
+      });
+      console.log('Received fan-out response from background:', response);
+      
+      if (Array.isArray(response.results)) {
+        this.renderFanOutStatus(response.results);
+      }
+      
+      const allSucceeded = response.success && response.results.every((item: FanOutResult) => item.result.success);
+      if (allSucceeded) {
+        sendBtn.style.background = 'linear-gradient(135deg, #10b981 0%, #059669 100%)';
+        sendBtn.textContent = `✓ Sent to ${platformIds.length}!`;
+        
+        setTimeout(() => {
+          this.closePopup();
+        }, 1500);
+      } else {
+        // Keep the popup open so the failed platforms stay visible
+        this.showNotification(response.success ? 'Some platforms failed' : response.error || i18n.error(), 'error');
+      }
+    } catch (error) {
+      console.error('Failed to send message to background script:', error);
+      this.showNotification(`Communication error: ${(error as Error).message}`, 'error');
+    } finally {
+      sendBtn.classList.remove('loading');
+      sendBtn.disabled = false;
+    }
+  }
+
+  /**
+   * Show one status line per platform after a fan-out send
+   */
+  private renderFanOutStatus(results: FanOutResult[]) {
+    if (!this.shadowRoot) return;
+    
+    const statusContainer = this.shadowRoot.getElementById('fanout-status');
+    if (!statusContainer) return;
+    
+    statusContainer.innerHTML = '';
+    results.forEach(({ platformId, result }) => {
+      const item = document.createElement('div');
+      item.className = result.success ? 'fanout-status-item' : 'fanout-status-item error';
+      item.textContent = result.success
+        ? describeAIResult(result)
+        : `${result.platform || platformId}: ${describeAIResult(result)}`;
+      statusContainer.appendChild(item);
+    });
+    statusContainer.style.display = '';
+  }
+
   /**
    * Show notification
    */
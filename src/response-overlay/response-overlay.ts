@@ -0,0 +1,325 @@
+/**
+ * AI response overlay
+ * Shadow-DOM panel in the source page that shows an answer relayed back from the platform tab
+ */
+
+import { RewriteManager, type RewriteData, type RewriteResult, type RewriteTarget } from './rewrite';
+
+export interface ResponseOverlayData {
+  platformName: string;
+  text: string;
+  darkMode?: boolean;
+}
+
+const SHADOW_HOST_ID = 'bridgeai-response-shadow-host';
+
+const TEXT_INPUT_TYPES = ['text', 'search', 'url', 'tel', '']; // Types that support setRangeText
+
+class ResponseOverlayManager {
+  private shadowRoot: ShadowRoot | null = null;
+  private data: ResponseOverlayData | null = null;
+  private targetField: HTMLElement | null = null;
+  private boundFocusin = this.handleFocusin.bind(this);
+
+  /**
+   * Show the answer; the field focused before (or while) the overlay is open receives "Insert"
+   */
+  show(data: ResponseOverlayData) {
+    this.data = data;
+    this.rememberField(document.activeElement);
+
+    this.createShadowDOM();
+    this.setupEventListeners();
+    document.addEventListener('focusin', this.boundFocusin, true);
+
+    const panel = this.shadowRoot?.querySelector('.response-panel') as HTMLElement | null;
+    setTimeout(() => panel?.classList.add('show'), 10);
+  }
+
+  /**
+   * Create shadow DOM for CSS isolation
+   */
+  private createShadowDOM() {
+    document.getElementById(SHADOW_HOST_ID)?.remove();
+
+    const shadowHost = document.createElement('div');
+    shadowHost.id = SHADOW_HOST_ID;
+    shadowHost.style.cssText = 'position: fixed; bottom: 0; right: 0; z-index: 2147483647;';
+
+    this.shadowRoot = shadowHost.attachShadow({ mode: 'closed' });
+    this.shadowRoot.innerHTML = this.getHTMLContent();
+
+    // Answer text comes from another site, so set it as text
+    const title = this.shadowRoot.getElementById('response-title') as HTMLElement;
+    const body = this.shadowRoot.getElementById('response-text') as HTMLElement;
+    title.textContent = `Answer from ${this.data?.platformName || 'AI'}`;
+    body.textContent = this.data?.text || '';
+
+    if (this.data?.darkMode) {
+      this.shadowRoot.querySelector('.response-panel')?.classList.add('dark');
+    }
+
+    document.body.appendChild(shadowHost);
+  }
+
+  /**
+   * Get HTML content for shadow DOM
+   */
+  private getHTMLContent(): string {
+    return `
+      <style>
+        :host {
+          all: initial;
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        }
+
+        .response-panel {
+          position: fixed;
+          right: 20px;
+          bottom: 20px;
+          width: 420px;
+          max-width: calc(100vw - 40px);
+          max-height: 60vh;
+          display: flex;
+          flex-direction: column;
+          background: white;
+          color: #111827;
+          border: 1px solid rgba(0, 0, 0, 0.08);
+          border-radius: 12px;
+          box-shadow: 0 8px 32px rgba(0, 0, 0, 0.16), 0 2px 8px rgba(0, 0, 0, 0.08);
+          opacity: 0;
+          transform: translateY(20px);
+          transition: all 0.25s cubic-bezier(0.4, 0, 0.2, 1);
+        }
+
+        .response-panel.show {
+          opacity: 1;
+          transform: translateY(0);
+        }
+
+        .response-header {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          padding: 12px 16px;
+          border-bottom: 1px solid #e5e7eb;
+        }
+
+        .response-header h2 {
+          margin: 0;
+          font-size: 15px;
+          font-weight: 600;
+        }
+
+        .close-btn {
+          border: none;
+          background: none;
+          font-size: 20px;
+          line-height: 1;
+          color: #6b7280;
+          cursor: pointer;
+        }
+
+        .response-text {
+          flex: 1;
+          overflow-y: auto;
+          padding: 12px 16px;
+          font-size: 14px;
+          line-height: 1.5;
+          white-space: pre-wrap;
+          word-break: break-word;
+        }
+
+        .response-footer {
+          display: flex;
+          align-items: center;
+          justify-content: flex-end;
+          gap: 8px;
+          padding: 12px 16px;
+          border-top: 1px solid #e5e7eb;
+        }
+
+        .response-status {
+          margin-right: auto;
+          font-size: 12px;
+          color: #6b7280;
+        }
+
+        .btn {
+          padding: 6px 12px;
+          border-radius: 6px;
+          font-size: 13px;
+          font-weight: 500;
+          cursor: pointer;
+          border: 1px solid #d1d5db;
+          background: white;
+          color: #374151;
+        }
+
+        .btn-primary {
+          background: #3b82f6;
+          border-color: #3b82f6;
+          color: white;
+        }
+
+        .dark.response-panel {
+          background: #1f2937;
+          color: #f9fafb;
+          border-color: rgba(255, 255, 255, 0.1);
+        }
+
+        .dark .response-header,
+        .dark .response-footer {
+          border-color: #374151;
+        }
+
+        .dark .btn {
+          background: #374151;
+          border-color: #4b5563;
+          color: #d1d5db;
+        }
+
+        .dark .btn-primary {
+          background: #3b82f6;
+          border-color: #3b82f6;
+          color: white;
+        }
+      </style>
+      <div class="response-panel" role="dialog" aria-labelledby="response-title">
+        <div class="response-header">
+          <h2 id="response-title"></h2>
+          <button class="close-btn" id="close-btn" title="Close">×</button>
+        </div>
+        <div class="response-text" id="response-text"></div>
+        <div class="response-footer">
+          <span class="response-status" id="response-status"></span>
+          <button class="btn" id="copy-btn">Copy</button>
+          <button class="btn btn-primary" id="insert-btn" title="Insert into the text field you last clicked">Insert into field</button>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Setup event listeners
+   */
+  private setupEventListeners() {
+    if (!this.shadowRoot) return;
+
+    this.shadowRoot.getElementById('close-btn')?.addEventListener('click', () => this.close());
+    this.shadowRoot.getElementById('copy-btn')?.addEventListener('click', () => this.copyAnswer());
+    this.shadowRoot.getElementById('insert-btn')?.addEventListener('click', () => this.insertAnswer());
+
+    // Keep the field in the page focused: mousedown on a button would otherwise blur it
+    this.shadowRoot.querySelectorAll('.btn').forEach(button => {
+      button.addEventListener('mousedown', (e) => e.preventDefault());
+    });
+
+    this.shadowRoot.addEventListener('keydown', (e) => {
+      if ((e as KeyboardEvent).key === 'Escape') {
+        this.close();
+      }
+    });
+  }
+
+  private handleFocusin(e: FocusEvent) {
+    this.rememberField(e.target);
+  }
+
+  /**
+   * Track the page's editable fields (never the overlay itself)
+   */
+  private rememberField(target: EventTarget | null) {
+    if (!(target instanceof HTMLElement) || target.id === SHADOW_HOST_ID) return;
+
+    const isTextInput = target instanceof HTMLInputElement &&
+      TEXT_INPUT_TYPES.includes(target.getAttribute('type')?.toLowerCase() || '');
+
+    if (isTextInput || target instanceof HTMLTextAreaElement || target.isContentEditable) {
+      this.targetField = target;
+    }
+  }
+
+  private async copyAnswer() {
+    const text = this.data?.text || '';
+
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch (error) {
+      // Clipboard API needs focus and a secure context; fall back to execCommand
+      const field = this.targetField;
+      const textarea = document.createElement('textarea');
+      textarea.value = text;
+      textarea.style.cssText = 'position: fixed; opacity: 0;';
+      document.body.appendChild(textarea);
+      textarea.select();
+      const copied = document.execCommand('copy');
+      textarea.remove();
+      this.targetField = field; // select() focused the helper textarea
+
+      if (!copied) {
+        this.setStatus('Copy failed');
+        return;
+      }
+    }
+
+    this.setStatus('Copied');
+  }
+
+  /**
+   * Insert the answer at the caret of the remembered field
+   */
+  private insertAnswer() {
+    const field = this.targetField;
+    const text = this.data?.text || '';
+
+    if (!field || !field.isConnected) {
+      this.setStatus('Click into a text field first');
+      return;
+    }
+
+    field.focus();
+
+    if (field instanceof HTMLInputElement || field instanceof HTMLTextAreaElement) {
+      const start = field.selectionStart ?? field.value.length;
+      const end = field.selectionEnd ?? field.value.length;
+      field.setRangeText(text, start, end, 'end');
+      field.dispatchEvent(new Event('input', { bubbles: true }));
+    } else if (!document.execCommand('insertText', false, text)) {
+      field.append(document.createTextNode(text));
+      field.dispatchEvent(new Event('input', { bubbles: true }));
+    }
+
+    this.setStatus('Inserted');
+  }
+
+  private setStatus(message: string) {
+    const status = this.shadowRoot?.getElementById('response-status');
+    if (status) status.textContent = message;
+  }
+
+  private close() {
+    document.removeEventListener('focusin', this.boundFocusin, true);
+
+    const panel = this.shadowRoot?.querySelector('.response-panel');
+    panel?.classList.remove('show');
+
+    setTimeout(() => {
+      document.getElementById(SHADOW_HOST_ID)?.remove();
+    }, 250);
+  }
+}
+
+// Global function to show the overlay (called from the background script)
+(window as any).showAIResponseOverlay = (data: ResponseOverlayData) => {
+  const overlay = new ResponseOverlayManager();
+  overlay.show(data);
+};
+
+// Global function to replace the selection captured for "rewrite in place" (called from the background script)
+(window as any).applyAIRewrite = (data: RewriteData): RewriteResult => {
+  const rewrite = new RewriteManager();
+  return rewrite.apply((window as any).__bridgeaiRewriteTarget as RewriteTarget | undefined, data);
+};
+
+export { ResponseOverlayManager };
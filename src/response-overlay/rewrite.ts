@@ -0,0 +1,206 @@
+/**
+ * Rewrite in place
+ * Replaces the selection remembered at capture time with the AI's answer and offers an undo
+ */
+
+/**
+ * Editable selection remembered by captureSelectedText, kept in the content-script world
+ * Inputs and textareas keep offsets; contenteditable hosts keep the Range
+ */
+export interface RewriteTarget {
+  element: HTMLElement;
+  originalText: string;
+  start?: number;
+  end?: number;
+  range?: Range;
+}
+
+export interface RewriteData {
+  platformName: string;
+  text: string;
+  darkMode?: boolean;
+}
+
+export interface RewriteResult {
+  replaced: boolean;
+  error?: string;
+}
+
+const TOAST_HOST_ID = 'bridgeai-rewrite-shadow-host';
+const UNDO_TIMEOUT = 15000;
+
+type TextField = HTMLInputElement | HTMLTextAreaElement;
+
+function isTextField(element: HTMLElement): element is TextField {
+  return element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement;
+}
+
+/**
+ * Set a field's value through the native setter so framework-controlled inputs (React etc.) notice
+ */
+function setFieldValue(field: TextField, value: string) {
+  const prototype = field instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+  Object.getOwnPropertyDescriptor(prototype, 'value')?.set?.call(field, value);
+  field.dispatchEvent(new Event('input', { bubbles: true }));
+}
+
+class RewriteManager {
+  private shadowRoot: ShadowRoot | null = null;
+  private undoTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Replace the remembered selection; returns an error when it no longer matches the page
+   */
+  apply(target: RewriteTarget | undefined, data: RewriteData): RewriteResult {
+    if (!target || !target.element.isConnected) {
+      return { replaced: false, error: 'The original text field is no longer on the page' };
+    }
+
+    const { element } = target;
+    const undo = isTextField(element)
+      ? this.replaceInField(element, target, data.text)
+      : this.replaceInEditable(element, target, data.text);
+
+    if (!undo) {
+      return { replaced: false, error: 'The selected text was changed after sending' };
+    }
+
+    this.showUndoToast(data, undo);
+    return { replaced: true };
+  }
+
+  /**
+   * Replace a textarea/input range; returns the undo action, or null if the text moved away
+   */
+  private replaceInField(field: TextField, target: RewriteTarget, text: string): (() => void) | null {
+    const previousValue = field.value;
+    let start = target.start ?? -1;
+
+    // The field may have been edited meanwhile: fall back to finding the original text
+    if (previousValue.slice(start, target.end) !== target.originalText) {
+      start = previousValue.indexOf(target.originalText);
+      if (start === -1) return null;
+    }
+    const end = start + target.originalText.length;
+
+    field.focus();
+    field.setSelectionRange(start, end);
+
+    // insertText keeps the browser's own undo stack; not every page allows it
+    if (!document.execCommand('insertText', false, text) || field.value === previousValue) {
+      setFieldValue(field, previousValue.slice(0, start) + text + previousValue.slice(end));
+    }
+    field.setSelectionRange(start, start + text.length);
+
+    return () => setFieldValue(field, previousValue);
+  }
+
+  /**
+   * Replace a contenteditable range; returns the undo action, or null if the text moved away
+   */
+  private replaceInEditable(host: HTMLElement, target: RewriteTarget, text: string): (() => void) | null {
+    const range = target.range;
+    if (!range || range.toString() !== target.originalText) return null;
+
+    const previousHTML = host.innerHTML;
+
+    host.focus();
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+
+    // Rich editors (ProseMirror, Lexical, ...) only stay consistent when they handle the edit themselves
+    const usedEditor = document.execCommand('insertText', false, text) && host.innerHTML !== previousHTML;
+    if (!usedEditor) {
+      range.deleteContents();
+      range.insertNode(document.createTextNode(text));
+      host.dispatchEvent(new Event('input', { bubbles: true }));
+    }
+
+    return () => {
+      host.focus();
+      if (usedEditor && document.execCommand('undo') && host.innerHTML === previousHTML) return;
+      host.innerHTML = previousHTML;
+      host.dispatchEvent(new Event('input', { bubbles: true }));
+    };
+  }
+
+  /**
+   * Small toast with an Undo button, built in its own shadow root
+   */
+  private showUndoToast(data: RewriteData, undo: () => void) {
+    document.getElementById(TOAST_HOST_ID)?.remove();
+
+    const shadowHost = document.createElement('div');
+    shadowHost.id = TOAST_HOST_ID;
+    shadowHost.style.cssText = 'position: fixed; bottom: 0; left: 0; z-index: 2147483647;';
+
+    this.shadowRoot = shadowHost.attachShadow({ mode: 'closed' });
+    this.shadowRoot.innerHTML = `
+      <style>
+        :host {
+          all: initial;
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        }
+
+        .rewrite-toast {
+          position: fixed;
+          left: 50%;
+          bottom: 24px;
+          transform: translateX(-50%);
+          display: flex;
+          align-items: center;
+          gap: 16px;
+          padding: 10px 16px;
+          border-radius: 8px;
+          background: #111827;
+          color: #f9fafb;
+          font-size: 14px;
+          box-shadow: 0 8px 24px rgba(0, 0, 0, 0.2);
+        }
+
+        .rewrite-toast.light {
+          background: white;
+          color: #111827;
+          border: 1px solid #e5e7eb;
+        }
+
+        .undo-btn {
+          border: none;
+          background: none;
+          color: #60a5fa;
+          font-size: 14px;
+          font-weight: 600;
+          cursor: pointer;
+        }
+      </style>
+      <div class="rewrite-toast" role="status">
+        <span id="rewrite-message"></span>
+        <button class="undo-btn" id="undo-btn">Undo</button>
+      </div>
+    `;
+
+    const message = this.shadowRoot.getElementById('rewrite-message') as HTMLElement;
+    message.textContent = `Replaced with the answer from ${data.platformName}`;
+    if (!data.darkMode) {
+      this.shadowRoot.querySelector('.rewrite-toast')?.classList.add('light');
+    }
+
+    const undoBtn = this.shadowRoot.getElementById('undo-btn') as HTMLButtonElement;
+    undoBtn.addEventListener('mousedown', (e) => e.preventDefault());
+    undoBtn.addEventListener('click', () => {
+      undo();
+      this.closeToast();
+    });
+
+    document.body.appendChild(shadowHost);
+    this.undoTimer = setTimeout(() => this.closeToast(), UNDO_TIMEOUT);
+  }
+
+  private closeToast() {
+    if (this.undoTimer) clearTimeout(this.undoTimer);
+    document.getElementById(TOAST_HOST_ID)?.remove();
+  }
+}
+
+export { RewriteManager };
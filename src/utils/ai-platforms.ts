@@ -3,12 +3,22 @@
  */
 
 import { storageManager, CustomPlatform } from './storage';
+import {
+  BUILT_IN_ADAPTERS,
+  GENERIC_ADAPTER,
+  getImageUploadMethod,
+  type ImageUploadMethod,
+  type PlatformAdapter
+} from './platform-adapters';
+import { getDefaultEnvelope, type EnvelopeConfig } from './envelopes';
+import { isPlatformAllowed, restrictsPlatforms } from './managed-policy';
 
 export interface AIPlatform {
   id: string;
   name: string;
   url: string;
-  selectors?: string[];
+  adapter: PlatformAdapter;
+  envelope: EnvelopeConfig; // How instructions and text are laid out for this platform
   color?: string;
   icon: string;
 }
@@ -18,15 +28,8 @@ export const AI_PLATFORMS: Record<string, AIPlatform> = {
     id: 'chatgpt',
     name: 'ChatGPT',
     url: 'https://chatgpt.com',
-    selectors: [
-      'textarea[data-id="root"]',
-      'textarea[placeholder*="Message"]',
-      'textarea[placeholder*="message"]',
-      'textarea[placeholder*="Send"]',
-      'textarea[placeholder*="send"]',
-      'div[contenteditable="true"]',
-      'textarea'
-    ],
+    adapter: BUILT_IN_ADAPTERS.chatgpt,
+    envelope: getDefaultEnvelope('chatgpt'),
     color: '#10a37f',
     icon: 'chatgpt'
   },
@@ -34,14 +37,8 @@ export const AI_PLATFORMS: Record<string, AIPlatform> = {
     id: 'claude',
     name: 'Claude',
     url: 'https://claude.ai/new',
-    selectors: [
-      'div[contenteditable="true"]',
-      'textarea[placeholder*="Talk to Claude"]',
-      'textarea[placeholder*="Message"]',
-      'textarea[placeholder*="message"]',
-      '.ProseMirror',
-      'textarea'
-    ],
+    adapter: BUILT_IN_ADAPTERS.claude,
+    envelope: getDefaultEnvelope('claude'),
     color: '#cc785c',
     icon: 'claude'
   },
@@ -49,22 +46,62 @@ export const AI_PLATFORMS: Record<string, AIPlatform> = {
     id: 'gemini',
     name: 'Gemini',
     url: 'https://gemini.google.com/app',
-    selectors: [
-      'textarea[placeholder*="Enter a prompt here"]',
-      'textarea[placeholder*="Message Gemini"]',
-      'div[contenteditable="true"]',
-      'textarea[placeholder*="Ask Gemini"]',
-      'textarea'
-    ],
+    adapter: BUILT_IN_ADAPTERS.gemini,
+    envelope: getDefaultEnvelope('gemini'),
     color: '#4285f4',
     icon: 'gemini'
   }
 };
 
-export async function getPlatform(platformId: string): Promise<AIPlatform> {
+interface PlatformOverrides {
+  adapters: Record<string, PlatformAdapter>;
+  envelopes: Record<string, EnvelopeConfig>;
+}
+
+async function getPlatformOverrides(): Promise<PlatformOverrides> {
+  const [adapters, envelopes, policy] = await Promise.all([
+    storageManager.getAdapterOverrides(),
+    storageManager.getEnvelopeOverrides(),
+    storageManager.getManagedPolicy()
+  ]);
+  return { adapters: restrictsPlatforms(policy) ? {} : adapters, envelopes };
+}
+
+/**
+ * Convert a stored custom platform to AIPlatform format
+ */
+function toAIPlatform(custom: CustomPlatform): AIPlatform {
+  return {
+    id: custom.id,
+    name: custom.name,
+    url: custom.url,
+    icon: custom.icon,
+    adapter: GENERIC_ADAPTER,
+    envelope: getDefaultEnvelope(custom.id),
+    color: '#6b7280' // Default gray color for custom platforms
+  };
+}
+
+/**
+ * Apply a user-edited adapter and envelope, if any, to a platform
+ */
+function withOverrides(platform: AIPlatform, overrides: PlatformOverrides): AIPlatform {
+  return {
+    ...platform,
+    adapter: overrides.adapters[platform.id] || platform.adapter,
+    envelope: overrides.envelopes[platform.id] || platform.envelope
+  };
+}
+
+/**
+ * Built-in or custom platform by ID, or null when none has it (e.g. a deleted custom platform)
+ */
+export async function findPlatform(platformId: string): Promise<AIPlatform | null> {
+  const overrides = await getPlatformOverrides();
+  
   // Check built-in platforms first
   if (AI_PLATFORMS[platformId]) {
-    return AI_PLATFORMS[platformId];
+    return withOverrides(AI_PLATFORMS[platformId], overrides);
   }
   
   // Check custom platforms
@@ -72,40 +109,40 @@ export async function getPlatform(platformId: string): Promise<AIPlatform> {
   const customPlatform = customPlatforms.find(p => p.id === platformId);
   
   if (customPlatform) {
-    return {
-      id: customPlatform.id,
-      name: customPlatform.name,
-      url: customPlatform.url,
-      icon: customPlatform.icon,
-      selectors: [], // Custom platforms don't have selectors (screenshot mode only)
-      color: '#6b7280' // Default gray color for custom platforms
-    };
+    return withOverrides(toAIPlatform(customPlatform), overrides);
   }
   
-  // Fallback to ChatGPT
-  return AI_PLATFORMS.chatgpt;
+  return null;
+}
+
+/**
+ * Platform by ID; unknown IDs are an error rather than a send to another platform
+ */
+export async function getPlatform(platformId: string): Promise<AIPlatform> {
+  const platform = await findPlatform(platformId);
+  if (!platform) {
+    throw new Error(`AI platform not found: ${platformId}`);
+  }
+  return platform;
 }
 
 export async function getAllPlatforms(): Promise<AIPlatform[]> {
-  const builtInPlatforms = Object.values(AI_PLATFORMS);
+  const overrides = await getPlatformOverrides();
+  
+  const builtInPlatforms = Object.values(AI_PLATFORMS).map(platform => withOverrides(platform, overrides));
   console.log('Built-in platforms:', builtInPlatforms);
   
   const customPlatforms = await storageManager.getCustomPlatforms();
   console.log('Custom platforms from storage in getAllPlatforms:', customPlatforms);
   
   // Convert custom platforms to AIPlatform format
-  const customAIPlatforms: AIPlatform[] = customPlatforms.map(custom => ({
-    id: custom.id,
-    name: custom.name,
-    url: custom.url,
-    icon: custom.icon,
-    selectors: [], // Custom platforms don't have selectors (screenshot mode only)
-    color: '#6b7280' // Default gray color for custom platforms
-  }));
+  const customAIPlatforms: AIPlatform[] = customPlatforms.map(custom => withOverrides(toAIPlatform(custom), overrides));
   
   console.log('Custom AI platforms converted:', customAIPlatforms);
   
-  const allPlatforms = [...builtInPlatforms, ...customAIPlatforms];
+  // Platforms the managed policy doesn't allow are left out everywhere they are listed
+  const policy = await storageManager.getManagedPolicy();
+  const allPlatforms = [...builtInPlatforms, ...customAIPlatforms].filter(platform => isPlatformAllowed(policy, platform.id));
   console.log('All platforms combined:', allPlatforms);
   
   return allPlatforms;
@@ -121,52 +158,81 @@ export function getBuiltInPlatform(platformId: string): AIPlatform {
   return AI_PLATFORMS[platformId] || AI_PLATFORMS.chatgpt;
 }
 
+/**
+ * Default adapter for a platform ID, ignoring user edits
+ */
+export function getDefaultAdapter(platformId: string): PlatformAdapter {
+  return BUILT_IN_ADAPTERS[platformId] || GENERIC_ADAPTER;
+}
+
+export interface InjectionResult {
+  success: boolean;
+  selector?: string; // Selector of the input that received the text
+  attempts: number;
+  elapsedMs: number;
+  reason?: string; // Why injection failed
+}
+
+const INJECTION_TIMEOUT = 15000; // ms to keep polling for the input
+const INJECTION_POLL_INTERVAL = 500; // ms between attempts
+
 /**
  * Inject text into the specified AI platform
+ * Polls the page for the adapter's input until the deadline and reports what happened
  */
 export async function injectTextIntoPlatform(
   tabId: number,
   platform: AIPlatform,
-  text: string
-): Promise<boolean> {
+  text: string,
+  timeout: number = INJECTION_TIMEOUT
+): Promise<InjectionResult> {
+  const startedAt = Date.now();
+  
   try {
-    // For custom platforms without selectors, use generic fallback selectors
-    const selectorsToTry = platform.selectors && platform.selectors.length > 0 
-      ? platform.selectors 
-      : [
-          // Generic AI chat interface selectors
-          'textarea[placeholder*="message"]',
-          'textarea[placeholder*="Message"]',
-          'textarea[placeholder*="chat"]',
-          'textarea[placeholder*="Chat"]',
-          'textarea[placeholder*="prompt"]',
-          'textarea[placeholder*="Prompt"]',
-          'textarea[placeholder*="ask"]',
-          'textarea[placeholder*="Ask"]',
-          'textarea[placeholder*="type"]',
-          'textarea[placeholder*="Type"]',
-          'div[contenteditable="true"]',
-          'textarea[data-testid*="input"]',
-          'textarea[data-testid*="message"]',
-          'textarea[role="textbox"]',
-          'div[role="textbox"]',
-          'textarea', // Last resort
-          'input[type="text"]' // Very last resort
-        ];
+    const { adapter } = platform;
     
     const results = await chrome.scripting.executeScript({
       target: { tabId },
-      func: (messageText: string, selectors: string[]) => {
-        // Enhanced injection approach with platform-specific selectors
-        const injectContent = () => {
-          for (const selector of selectors) {
+      func: async (messageText: string, adapter: PlatformAdapter, timeoutMs: number, intervalMs: number) => {
+        // Enhanced injection approach driven by the platform adapter
+        const insertViaPaste = (element: HTMLElement) => {
+          element.focus();
+          const dataTransfer = new DataTransfer();
+          dataTransfer.setData('text/plain', messageText);
+          element.dispatchEvent(new ClipboardEvent('paste', {
+            clipboardData: dataTransfer,
+            bubbles: true,
+            cancelable: true
+          }));
+          
+          // Editors that ignore synthetic paste events still honour insertText
+          if (!(element.textContent || '').trim()) {
+            document.execCommand('insertText', false, messageText);
+          }
+        };
+        
+        const injectContent = (): { selector?: string; reason?: string } => {
+          // Readiness probe: the app has not mounted its editor yet
+          if (adapter.readySelector && !document.querySelector(adapter.readySelector)) {
+            return { reason: 'Page never became ready (readiness probe did not match)' };
+          }
+          
+          let lastError = '';
+          
+          for (const selector of adapter.inputSelectors) {
             const element = document.querySelector(selector);
             
             if (element) {
               try {
-                if (element instanceof HTMLTextAreaElement) {
-                  // For textarea elements
-                  element.value = messageText;
+                if (element instanceof HTMLTextAreaElement || element instanceof HTMLInputElement) {
+                  // For textarea/input elements, use the native setter so React sees the change
+                  const prototype = Object.getPrototypeOf(element);
+                  const valueSetter = Object.getOwnPropertyDescriptor(prototype, 'value')?.set;
+                  if (valueSetter) {
+                    valueSetter.call(element, messageText);
+                  } else {
+                    element.value = messageText;
+                  }
                   
                   // Trigger comprehensive events
                   element.dispatchEvent(new Event('input', { bubbles: true }));
@@ -178,11 +244,21 @@ export async function injectTextIntoPlatform(
                   element.focus();
                   element.select();
                   
+                  if (!element.value.trim()) {
+                    lastError = 'Input rejected the text';
+                    continue;
+                  }
+                  
                   console.log('✅ Content successfully injected into textarea:', selector);
-                  return true;
-                } else if (element instanceof HTMLDivElement && element.contentEditable === 'true') {
-                  // For contenteditable div elements
-                  element.textContent = messageText;
+                  return { selector };
+                } else if (element instanceof HTMLElement && element.isContentEditable) {
+                  if (adapter.insertMethod === 'prosemirror-paste') {
+                    // ProseMirror keeps its own document model; feed it a paste event
+                    insertViaPaste(element);
+                  } else {
+                    // For contenteditable elements
+                    element.textContent = messageText;
+                  }
                   
                   // Trigger events
                   element.dispatchEvent(new Event('input', { bubbles: true }));
@@ -198,46 +274,437 @@ export async function injectTextIntoPlatform(
                   selection?.removeAllRanges();
                   selection?.addRange(range);
                   
+                  if (!(element.textContent || '').trim()) {
+                    lastError = 'Editor rejected the text';
+                    continue;
+                  }
+                  
                   console.log('✅ Content injected into contenteditable div:', selector);
-                  return true;
+                  return { selector };
                 }
               } catch (error) {
                 console.warn('Failed to inject into element:', selector, error);
+                lastError = error instanceof Error ? error.message : String(error);
                 continue;
               }
             }
           }
           
-          console.warn('❌ Could not find input field for platform');
+          return { reason: lastError || 'Could not find input field for platform' };
+        };
+        
+        // Poll until the input shows up or the deadline passes
+        const deadline = Date.now() + timeoutMs;
+        let attempts = 0;
+        let outcome: { selector?: string; reason?: string } = {};
+        
+        while (true) {
+          attempts++;
+          outcome = injectContent();
+          
+          if (outcome.selector || Date.now() + intervalMs > deadline) {
+            break;
+          }
+          
+          await new Promise(resolve => setTimeout(resolve, intervalMs));
+        }
+        
+        if (!outcome.selector) {
+          console.warn(`❌ Injection failed after ${attempts} attempts - text is copied to clipboard, please paste manually`);
+        }
+        
+        return { selector: outcome.selector, reason: outcome.reason, attempts };
+      },
+      args: [text, adapter, timeout, INJECTION_POLL_INTERVAL]
+    });
+    
+    const pageResult = results?.[0]?.result as { selector?: string; reason?: string; attempts: number } | undefined;
+    
+    return {
+      success: Boolean(pageResult?.selector),
+      selector: pageResult?.selector,
+      attempts: pageResult?.attempts || 0,
+      elapsedMs: Date.now() - startedAt,
+      reason: pageResult?.selector ? undefined : pageResult?.reason || 'No result from page'
+    };
+  } catch (error) {
+    console.error('Failed to inject text into platform:', error);
+    return {
+      success: false,
+      attempts: 0,
+      elapsedMs: Date.now() - startedAt,
+      reason: error instanceof Error ? error.message : 'Script injection failed'
+    };
+  }
+}
+
+export interface SubmitResult {
+  submitted: boolean;
+  method?: 'click' | 'enter';
+  error?: string;
+}
+
+/**
+ * Submit the injected prompt by clicking the send button or pressing Enter
+ */
+export async function submitPromptInPlatform(
+  tabId: number,
+  platform: AIPlatform
+): Promise<SubmitResult> {
+  const { adapter } = platform;
+  const submitMethod = adapter.submitMethod || (adapter.submitSelector ? 'click' : 'enter');
+  
+  if (submitMethod === 'none') {
+    return { submitted: false, error: `Auto-submit is disabled for ${platform.name}` };
+  }
+  
+  try {
+    const results = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: async (adapter: PlatformAdapter, preferClick: boolean) => {
+        const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+        
+        const findInput = (): HTMLElement | null => {
+          for (const selector of adapter.inputSelectors) {
+            const element = document.querySelector(selector);
+            if (element instanceof HTMLElement) {
+              return element;
+            }
+          }
+          return null;
+        };
+        
+        const inputText = (element: HTMLElement | null): string => {
+          if (!element) return '';
+          if (element instanceof HTMLTextAreaElement || element instanceof HTMLInputElement) {
+            return element.value;
+          }
+          return element.textContent || '';
+        };
+        
+        const findEnabledButton = (): HTMLButtonElement | null => {
+          if (!adapter.submitSelector) return null;
+          const button = document.querySelector(adapter.submitSelector);
+          if (button instanceof HTMLButtonElement &&
+              !button.disabled &&
+              button.getAttribute('aria-disabled') !== 'true') {
+            return button;
+          }
+          return null;
+        };
+        
+        // The input counts as submitted once the platform clears it
+        const waitForCleared = async (timeout: number) => {
+          const deadline = Date.now() + timeout;
+          while (Date.now() < deadline) {
+            if (!inputText(findInput()).trim()) return true;
+            await sleep(200);
+          }
           return false;
         };
         
-        // Multiple retry attempts with increasing delays
-        const retryAttempts = [0, 1000, 2000, 5000];
-        let attemptIndex = 0;
+        // Wait for the editor to show the injected text
+        let input = findInput();
+        const textDeadline = Date.now() + 10000;
+        while (!inputText(input).trim() && Date.now() < textDeadline) {
+          await sleep(250);
+          input = findInput();
+        }
+        
+        if (!input || !inputText(input).trim()) {
+          return { submitted: false, error: 'Prompt never appeared in the input field' };
+        }
         
-        const tryInject = () => {
-          if (injectContent()) {
-            return; // Success!
+        if (preferClick) {
+          // Send buttons are often disabled until the app has processed the input
+          const buttonDeadline = Date.now() + 3000;
+          let button = findEnabledButton();
+          while (!button && Date.now() < buttonDeadline) {
+            await sleep(200);
+            button = findEnabledButton();
           }
           
-          attemptIndex++;
-          if (attemptIndex < retryAttempts.length) {
-            console.log(`Retrying injection attempt ${attemptIndex + 1}/${retryAttempts.length} in ${retryAttempts[attemptIndex]}ms`);
-            setTimeout(tryInject, retryAttempts[attemptIndex]);
-          } else {
-            console.warn('❌ All injection attempts failed - text is copied to clipboard, please paste manually');
+          if (button) {
+            button.click();
+            if (await waitForCleared(2000)) {
+              console.log('✅ Prompt submitted via send button');
+              return { submitted: true, method: 'click' as const };
+            }
           }
+          
+          console.warn('Send button unavailable or ineffective, falling back to Enter');
+        }
+        
+        // Enter key fallback
+        input.focus();
+        const keyInit: KeyboardEventInit = {
+          key: 'Enter',
+          code: 'Enter',
+          keyCode: 13,
+          which: 13,
+          bubbles: true,
+          cancelable: true
         };
+        input.dispatchEvent(new KeyboardEvent('keydown', keyInit));
+        input.dispatchEvent(new KeyboardEvent('keypress', keyInit));
+        input.dispatchEvent(new KeyboardEvent('keyup', keyInit));
         
-        tryInject();
+        if (await waitForCleared(2000)) {
+          console.log('✅ Prompt submitted via Enter key');
+          return { submitted: true, method: 'enter' as const };
+        }
+        
+        console.warn('❌ Prompt was not submitted - please press send manually');
+        return { submitted: false, error: 'Send button stayed disabled and Enter was ignored' };
       },
-      args: [text, selectorsToTry]
+      args: [adapter, submitMethod === 'click']
     });
     
-    return true;
+    return (results?.[0]?.result as SubmitResult) || { submitted: false, error: 'No result from page' };
   } catch (error) {
-    console.error('Failed to inject text into platform:', error);
-    return false;
+    console.error('Failed to submit prompt:', error);
+    return { submitted: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+export interface ResponseResult {
+  success: boolean;
+  text?: string;
+  error?: string;
+}
+
+const RESPONSE_TIMEOUT = 5 * 60 * 1000;
+const RESPONSE_POLL_INTERVAL = 1000; // ms between checks for the answer
+
+/**
+ * Count the answers already on the page
+ * Taken before submitting so the watcher can tell the new answer from earlier ones
+ */
+export async function countPlatformResponses(tabId: number, platform: AIPlatform): Promise<number> {
+  const { responseSelector } = platform.adapter;
+  if (!responseSelector) return 0;
+  
+  try {
+    const [{ result }] = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: (selector: string) => document.querySelectorAll(selector).length,
+      args: [responseSelector]
+    });
+    return (result as number) || 0;
+  } catch (error) {
+    console.warn(`Failed to count responses in ${platform.name}:`, error);
+    return 0;
+  }
+}
+
+/**
+ * Wait for a new answer to appear and finish generating, then return its text
+ * An answer counts as finished once the generating indicator is gone and the text stops changing.
+ * Each check is its own short script: one script waiting for minutes would outlive the service
+ * worker, so the waiting happens here
+ */
+export async function waitForPlatformResponse(
+  tabId: number,
+  platform: AIPlatform,
+  baseline: number,
+  timeout: number = RESPONSE_TIMEOUT
+): Promise<ResponseResult> {
+  const { responseSelector, generatingSelector } = platform.adapter;
+  if (!responseSelector) {
+    return { success: false, error: `No response selector defined for ${platform.name}` };
   }
-}
\ No newline at end of file
+  
+  const deadline = Date.now() + timeout;
+  let lastText = '';
+  let stablePolls = 0;
+  
+  try {
+    while (Date.now() < deadline) {
+      const [{ result }] = await chrome.scripting.executeScript({
+        target: { tabId },
+        func: (responseSelector: string, generatingSelector: string, baseline: number) => {
+          const responses = document.querySelectorAll(responseSelector);
+          if (responses.length <= baseline) return null;
+          
+          const latest = responses[responses.length - 1] as HTMLElement;
+          return {
+            text: (latest.innerText || latest.textContent || '').trim(),
+            generating: Boolean(generatingSelector && document.querySelector(generatingSelector))
+          };
+        },
+        args: [responseSelector, generatingSelector || '', baseline]
+      });
+      
+      const latest = result as { text: string; generating: boolean } | null;
+      if (latest) {
+        stablePolls = latest.text && !latest.generating && latest.text === lastText ? stablePolls + 1 : 0;
+        lastText = latest.text;
+        
+        if (stablePolls >= 2) {
+          return { success: true, text: lastText };
+        }
+      }
+      
+      await new Promise(resolve => setTimeout(resolve, RESPONSE_POLL_INTERVAL));
+    }
+    
+    return { success: false, text: lastText || undefined, error: 'Timed out waiting for the answer' };
+  } catch (error) {
+    console.error(`Failed to read response from ${platform.name}:`, error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+export interface UploadResult {
+  uploaded: boolean;
+  verified?: boolean; // An attachment preview appeared; false when the page gave no sign either way
+  method?: Exclude<ImageUploadMethod, 'none'>;
+  error?: string;
+}
+
+const UPLOAD_PREVIEW_TIMEOUT = 3000; // ms to wait for the attachment preview
+
+/**
+ * Attach an image to the platform's upload control using the adapter's imageUpload capability
+ * Polls for the upload target like injectTextIntoPlatform; callers fall back to the clipboard on failure.
+ * Handing the file over doesn't mean the app took it, so the upload is only verified once a new
+ * image preview shows up in the page
+ */
+export async function uploadImageToPlatform(
+  tabId: number,
+  platform: AIPlatform,
+  dataUrl: string,
+  timeout: number = INJECTION_TIMEOUT
+): Promise<UploadResult> {
+  const { adapter } = platform;
+  const method = getImageUploadMethod(adapter);
+  
+  if (method === 'none') {
+    return { uploaded: false, error: `${platform.name} does not support direct image upload` };
+  }
+  
+  try {
+    const results = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: async (
+        imageDataUrl: string,
+        adapter: PlatformAdapter,
+        method: 'file-input' | 'drop' | 'paste',
+        timeoutMs: number,
+        intervalMs: number,
+        previewTimeoutMs: number
+      ) => {
+        // Apps show attachments as images from blob: or data: URLs
+        const countPreviews = () => document.querySelectorAll('img[src^="blob:"], img[src^="data:"]').length;
+        const previewsBefore = countPreviews();
+        
+        const response = await fetch(imageDataUrl);
+        const blob = await response.blob();
+        const file = new File([blob], `screenshot-${Date.now()}.png`, { type: blob.type || 'image/png' });
+        
+        const createTransfer = () => {
+          const dataTransfer = new DataTransfer();
+          dataTransfer.items.add(file);
+          return dataTransfer;
+        };
+        
+        const findInput = (): HTMLElement | null => {
+          for (const selector of adapter.inputSelectors) {
+            const element = document.querySelector(selector);
+            if (element instanceof HTMLElement) return element;
+          }
+          return null;
+        };
+        
+        const tryUpload = (): { uploaded: boolean; reason?: string } => {
+          // Readiness probe: the app has not mounted its editor yet
+          if (adapter.readySelector && !document.querySelector(adapter.readySelector)) {
+            return { uploaded: false, reason: 'Page never became ready (readiness probe did not match)' };
+          }
+          
+          if (method === 'file-input') {
+            const fileInput = adapter.fileInputSelector
+              ? document.querySelector(adapter.fileInputSelector)
+              : null;
+            
+            if (!(fileInput instanceof HTMLInputElement) || fileInput.type !== 'file') {
+              return { uploaded: false, reason: 'Could not find file input for platform' };
+            }
+            
+            fileInput.files = createTransfer().files;
+            fileInput.dispatchEvent(new Event('input', { bubbles: true }));
+            fileInput.dispatchEvent(new Event('change', { bubbles: true }));
+            
+            return { uploaded: true };
+          }
+          
+          const target = findInput();
+          if (!target) {
+            return { uploaded: false, reason: 'Could not find input field for platform' };
+          }
+          
+          target.focus();
+          
+          // Apps call preventDefault when they take the file, which is the only signal we get
+          if (method === 'paste') {
+            const pasteEvent = new ClipboardEvent('paste', {
+              clipboardData: createTransfer(),
+              bubbles: true,
+              cancelable: true
+            });
+            target.dispatchEvent(pasteEvent);
+            
+            return pasteEvent.defaultPrevented
+              ? { uploaded: true }
+              : { uploaded: false, reason: 'Platform ignored the pasted image' };
+          }
+          
+          const dataTransfer = createTransfer();
+          for (const type of ['dragenter', 'dragover']) {
+            target.dispatchEvent(new DragEvent(type, { dataTransfer, bubbles: true, cancelable: true }));
+          }
+          const dropEvent = new DragEvent('drop', { dataTransfer, bubbles: true, cancelable: true });
+          target.dispatchEvent(dropEvent);
+          
+          return dropEvent.defaultPrevented
+            ? { uploaded: true }
+            : { uploaded: false, reason: 'Platform ignored the dropped image' };
+        };
+        
+        // Poll until the upload target shows up or the deadline passes
+        const deadline = Date.now() + timeoutMs;
+        let outcome = tryUpload();
+        
+        while (!outcome.uploaded && Date.now() + intervalMs <= deadline) {
+          await new Promise(resolve => setTimeout(resolve, intervalMs));
+          outcome = tryUpload();
+        }
+        
+        if (!outcome.uploaded) {
+          console.warn('❌ Screenshot upload failed:', outcome.reason);
+          return outcome;
+        }
+        
+        const previewDeadline = Date.now() + previewTimeoutMs;
+        let verified = countPreviews() > previewsBefore;
+        while (!verified && Date.now() < previewDeadline) {
+          await new Promise(resolve => setTimeout(resolve, intervalMs));
+          verified = countPreviews() > previewsBefore;
+        }
+        
+        console.log(verified ? '✅ Screenshot attached via' : '⚠️ Screenshot handed over but no preview appeared via', method);
+        return { uploaded: true, verified };
+      },
+      args: [dataUrl, adapter, method, timeout, INJECTION_POLL_INTERVAL, UPLOAD_PREVIEW_TIMEOUT]
+    });
+    
+    const pageResult = results?.[0]?.result as { uploaded: boolean; verified?: boolean; reason?: string } | undefined;
+    
+    return pageResult?.uploaded
+      ? { uploaded: true, verified: Boolean(pageResult.verified), method }
+      : { uploaded: false, method, error: pageResult?.reason || 'No result from page' };
+  } catch (error) {
+    console.error('Failed to upload image to platform:', error);
+    return { uploaded: false, method, error: error instanceof Error ? error.message : 'Script injection failed' };
+  }
+}
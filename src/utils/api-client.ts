@@ -0,0 +1,145 @@
+/**
+ * Direct API transport
+ * Posts prompts to an OpenAI-compatible /v1/chat/completions endpoint (OpenAI, Ollama, LM Studio, ...)
+ * and streams the answer back instead of opening a web tab
+ */
+
+export interface ApiConfig {
+  endpoint: string; // Base URL, e.g. http://localhost:11434/v1
+  apiKey: string; // Optional for local servers
+  model: string;
+}
+
+export interface SSEParseResult {
+  events: string[]; // Data payloads of complete events
+  rest: string; // Incomplete trailing data to prepend to the next chunk
+}
+
+const COMPLETIONS_PATH = '/chat/completions';
+const DONE_EVENT = '[DONE]';
+
+/**
+ * Resolve the completions URL from a base URL with or without /v1 or the full path
+ */
+export function buildCompletionsUrl(endpoint: string): string {
+  const base = endpoint.trim().replace(/\/+$/, '');
+
+  if (base.endsWith(COMPLETIONS_PATH)) {
+    return base;
+  }
+  if (/\/v\d+$/.test(base)) {
+    return base + COMPLETIONS_PATH;
+  }
+  return `${base}/v1${COMPLETIONS_PATH}`;
+}
+
+/**
+ * Split server-sent event data into complete events; multi-line data fields are joined with newlines
+ */
+export function parseSSEEvents(buffer: string): SSEParseResult {
+  const blocks = buffer.replace(/\r\n?/g, '\n').split('\n\n');
+  const rest = blocks.pop() || '';
+
+  const events = blocks
+    .map(block => block
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n'))
+    .filter(Boolean);
+
+  return { events, rest };
+}
+
+/**
+ * Text added by one streamed chunk; null once the stream reports it is done
+ */
+export function extractDelta(payload: string): string | null {
+  if (payload.trim() === DONE_EVENT) {
+    return null;
+  }
+
+  try {
+    const chunk = JSON.parse(payload);
+    if (chunk.error) {
+      throw new Error(chunk.error.message || String(chunk.error));
+    }
+    return chunk.choices?.[0]?.delta?.content || '';
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      console.warn('Ignoring malformed stream chunk:', payload);
+      return '';
+    }
+    throw error;
+  }
+}
+
+/**
+ * Send a prompt and stream the answer; onDelta receives each piece of text as it arrives
+ * Returns the complete answer
+ */
+export async function streamChatCompletion(
+  config: ApiConfig,
+  prompt: string,
+  onDelta?: (text: string) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+
+  const response = await fetch(buildCompletionsUrl(config.endpoint), {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model: config.model,
+      messages: [{ role: 'user', content: prompt }],
+      stream: true
+    }),
+    signal
+  });
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new Error(`API request failed (${response.status}): ${body.slice(0, 200) || response.statusText}`);
+  }
+
+  // Some servers ignore stream: true and answer with a single JSON body
+  const contentType = response.headers.get('content-type') || '';
+  if (!response.body || contentType.includes('application/json')) {
+    const data = await response.json();
+    const answer: string = data.choices?.[0]?.message?.content || '';
+    onDelta?.(answer);
+    return answer;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let answer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() + '\n\n' : decoder.decode(value, { stream: true });
+
+    const parsed = parseSSEEvents(buffer);
+    buffer = parsed.rest;
+
+    for (const event of parsed.events) {
+      const delta = extractDelta(event);
+      if (delta === null) {
+        await reader.cancel().catch(() => undefined);
+        return answer;
+      }
+      if (delta) {
+        answer += delta;
+        onDelta?.(delta);
+      }
+    }
+
+    if (done) {
+      return answer;
+    }
+  }
+}
@@ -4,43 +4,73 @@
  */
 
 import { copyToClipboard } from './clipboard';
-import { getPlatform, injectTextIntoPlatform, type AIPlatform } from './ai-platforms';
+import {
+  getPlatform,
+  countPlatformResponses,
+  injectTextIntoPlatform,
+  submitPromptInPlatform,
+  type AIPlatform,
+  type InjectionResult
+} from './ai-platforms';
+import { buildDeepLinkUrl } from './platform-adapters';
+import { waitForTabToLoad } from './tabs';
+import { buildEnvelope, type EnvelopeConfig } from './envelopes';
+import { storageManager } from './storage';
+import { streamChatCompletion } from './api-client';
+import { API_ENDPOINT_NOT_ALLOWED_MESSAGE, isApiEndpointAllowed } from './managed-policy';
 
 export interface AIMessage {
   text: string;
   instructions: string;
   model?: string;
   platform?: string;
+  isCode?: boolean; // Wrap the text in a fenced code block
+  codeLanguage?: string;
+  sourceUrl?: string; // Page the text was captured from
+  title?: string;
+  envelope?: EnvelopeConfig; // Defaults to the target platform's envelope in sendToAI
 }
 
 export interface AIResult {
   success: boolean;
-  method: 'deeplink' | 'clipboard';
+  method: 'deeplink' | 'injected' | 'clipboard' | 'api'; // 'clipboard' means the user has to paste
   error?: string;
   platform?: string;
+  submitted?: boolean; // Whether the prompt was actually sent (auto-send only)
+  injection?: InjectionResult;
+  response?: string; // Answer from the direct API transport
+  tabId?: number; // Platform tab the prompt was sent to
+  responseBaseline?: number; // Answers on the page before submitting (only with watchResponse)
+  parts?: number; // Number of parts long text was split into
+}
+
+/**
+ * Opens the platform page; fan-out sends replace this to place tabs in tiled windows
+ */
+export type TabOpener = (url: string) => Promise<chrome.tabs.Tab>;
+
+const openInNewTab: TabOpener = url => chrome.tabs.create({ url });
+
+export interface SendOptions {
+  openTab?: TabOpener;
+  onDelta?: (text: string) => void; // Streamed answer text (API transport only)
+  signal?: AbortSignal;
+  watchResponse?: boolean; // Record what is needed to relay the answer back afterwards
+  skipDeepLink?: boolean; // Open the platform and insert the text even when a deep link would do
 }
 
 const CHATGPT_BASE_URL = 'https://chatgpt.com';
 const URL_SIZE_LIMIT = 1800; // Safe limit for URLs
+export const MAX_MESSAGE_LENGTH = 16384; // Longest message any send accepts; see maxTextLength
 
 /**
  * Build ChatGPT URL with query parameters (only works for ChatGPT)
  */
 export function buildChatGPTUrl(message: AIMessage): string {
-  const { text, instructions, model = 'gpt-4o' } = message;
-  
-  // Add null checks and default to empty string
-  const safeInstructions = instructions || '';
-  const safeText = text || '';
+  const { model = 'gpt-4o' } = message;
   
   // Format the complete message
-  let fullMessage = '';
-  if (safeInstructions.trim()) {
-    fullMessage = safeInstructions.trim() + '\n\n';
-  }
-  if (safeText.trim()) {
-    fullMessage += '"""\n' + safeText.trim() + '\n"""';
-  }
+  const fullMessage = buildMessageBody(message);
   
   // Build URL with query parameters
   const url = new URL(CHATGPT_BASE_URL);
@@ -58,21 +88,14 @@ export function buildChatGPTUrl(message: AIMessage): string {
  * Format message for clipboard
  */
 export function formatMessageForClipboard(message: AIMessage): string {
-  const { text, instructions } = message;
-  
-  // Add null checks and default to empty string
-  const safeInstructions = instructions || '';
-  const safeText = text || '';
-  
-  let fullMessage = '';
-  if (safeInstructions.trim()) {
-    fullMessage = safeInstructions.trim() + '\n\n';
-  }
-  if (safeText.trim()) {
-    fullMessage += '"""\n' + safeText.trim() + '\n"""';
-  }
-  
-  return fullMessage;
+  return buildMessageBody(message);
+}
+
+/**
+ * Lay out instructions and text using the message's envelope
+ */
+function buildMessageBody(message: AIMessage): string {
+  return buildEnvelope(message, message.envelope);
 }
 
 /**
@@ -81,9 +104,12 @@ export function formatMessageForClipboard(message: AIMessage): string {
 export async function sendToAI(
   message: AIMessage,
   autoSend: boolean = true,
-  platformId: string = 'chatgpt'
+  platformId: string = 'chatgpt',
+  options: SendOptions = {}
 ): Promise<AIResult> {
+  const { openTab = openInNewTab } = options;
   const platform = await getPlatform(platformId);
+  message = { ...message, envelope: message.envelope || platform.envelope };
   const formattedMessage = formatMessageForClipboard(message);
   
   if (!formattedMessage.trim()) {
@@ -95,20 +121,32 @@ export async function sendToAI(
     };
   }
   
+  const settings = await storageManager.getSettings();
+  if (settings.transport === 'api') {
+    if (!isApiEndpointAllowed(await storageManager.getManagedPolicy(), settings.apiEndpoint)) {
+      return { success: false, method: 'api', error: API_ENDPOINT_NOT_ALLOWED_MESSAGE, platform: platform.name };
+    }
+    return sendToAPI(formattedMessage, settings.apiEndpoint, settings.apiModel, options);
+  }
+  
   // Always copy to clipboard as backup
   await copyToClipboard(formattedMessage);
   
-  if (autoSend && platformId === 'chatgpt') {
-    // Try deep link first (only works for ChatGPT)
-    const deepLinkUrl = buildChatGPTUrl(message);
+  if (autoSend && platform.adapter.urlTemplate && !options.skipDeepLink) {
+    // Try deep link first (only for platforms whose adapter defines a URL template)
+    const deepLinkUrl = platform.id === 'chatgpt'
+      ? buildChatGPTUrl(message)
+      : buildDeepLinkUrl(platform.adapter, formattedMessage, platform.url);
     
-    if (deepLinkUrl.length <= URL_SIZE_LIMIT) {
+    if (deepLinkUrl && deepLinkUrl.length <= URL_SIZE_LIMIT) {
       try {
-        await chrome.tabs.create({ url: deepLinkUrl });
+        const deepLinkTab = await openTab(deepLinkUrl);
         return {
           success: true,
           method: 'deeplink',
-          platform: platform.name
+          platform: platform.name,
+          tabId: deepLinkTab.id,
+          responseBaseline: 0 // Deep links always start a new conversation
         };
       } catch (error) {
         console.warn('Deep link failed:', error);
@@ -117,35 +155,123 @@ export async function sendToAI(
   }
   
   // For all platforms (including custom), open the platform and inject content
+  let tab: chrome.tabs.Tab;
   try {
-    const tab = await chrome.tabs.create({ url: platform.url });
-    
-    if (tab.id) {
-      // Wait for page to load, then inject the content
-      setTimeout(async () => {
-        try {
-          await injectTextIntoPlatform(tab.id!, platform, formattedMessage);
-        } catch (error) {
-          console.warn(`Failed to inject content into ${platform.name}:`, error);
-        }
-      }, 3000); // Wait 3 seconds for page to load
-    }
-    
+    tab = await openTab(platform.url);
+  } catch (error) {
     return {
-      success: true,
+      success: false,
       method: 'clipboard',
+      error: `Failed to open ${platform.name} tab`,
       platform: platform.name
     };
+  }
+  
+  let submitted: boolean | undefined;
+  let injection: InjectionResult | undefined;
+  let responseBaseline: number | undefined;
+  
+  if (tab.id) {
+    try {
+      // Wait for the page to load, then poll for the input and inject the content
+      await waitForTabToLoad(tab.id);
+      injection = await injectTextIntoPlatform(tab.id, platform, formattedMessage);
+      console.log(`Injection into ${platform.name}:`, injection);
+      
+      if (injection.success && options.watchResponse) {
+        responseBaseline = await countPlatformResponses(tab.id, platform);
+      }
+      
+      if (injection.success && autoSend) {
+        const submitResult = await submitPromptInPlatform(tab.id, platform);
+        submitted = submitResult.submitted;
+        
+        if (!submitResult.submitted) {
+          console.warn(`Auto-submit skipped for ${platform.name}:`, submitResult.error);
+        }
+      }
+    } catch (error) {
+      console.warn(`Failed to inject content into ${platform.name}:`, error);
+    }
+  }
+  
+  return {
+    success: true,
+    method: injection?.success ? 'injected' : 'clipboard',
+    platform: platform.name,
+    submitted,
+    injection,
+    tabId: tab.id,
+    responseBaseline
+  };
+}
+
+/**
+ * Post the message to the configured OpenAI-compatible endpoint and stream the answer
+ */
+async function sendToAPI(formattedMessage: string, endpoint: string, model: string, options: SendOptions): Promise<AIResult> {
+  const platformName = model || 'API';
+  
+  if (!endpoint.trim()) {
+    return {
+      success: false,
+      method: 'api',
+      error: 'No API endpoint configured. Set one in the extension options.',
+      platform: platformName
+    };
+  }
+  
+  try {
+    const apiKey = await storageManager.getApiKey();
+    const response = await streamChatCompletion(
+      { endpoint, apiKey, model },
+      formattedMessage,
+      options.onDelta,
+      options.signal
+    );
+    
+    return { success: true, method: 'api', platform: platformName, response };
   } catch (error) {
+    console.warn('API request failed:', error);
     return {
       success: false,
-      method: 'clipboard',
-      error: `Failed to open ${platform.name} tab`,
-      platform: platform.name
+      method: 'api',
+      error: error instanceof Error ? error.message : 'API request failed',
+      platform: platformName
     };
   }
 }
 
+/**
+ * Describe a send result for notifications ("inserted into Claude" vs. "paste manually")
+ */
+export function describeAIResult(result: AIResult): string {
+  const platformName = result.platform || 'the AI platform';
+  
+  if (!result.success) {
+    return result.error || `Failed to send to ${platformName}`;
+  }
+  
+  switch (result.method) {
+    case 'deeplink':
+      return `Opening ${platformName}...`;
+    case 'api':
+      return `Answered by ${platformName}`;
+    case 'injected':
+      if (result.parts) {
+        return result.submitted === false || result.submitted === undefined
+          ? `Sent ${result.parts - 1} of ${result.parts} parts to ${platformName}; the last part is inserted. Press send there.`
+          : `Sent in ${result.parts} parts to ${platformName}`;
+      }
+      if (result.submitted === false) {
+        return `Inserted into ${platformName} but not sent. Press send there.`;
+      }
+      return result.submitted ? `Sent to ${platformName}` : `Inserted into ${platformName}`;
+    default:
+      return `Copied to clipboard. Paste manually into ${platformName} (Ctrl+V)`;
+  }
+}
+
 /**
  * Test if ChatGPT deep link works
  */
@@ -176,7 +302,7 @@ export async function testDeepLink(): Promise<boolean> {
 /**
  * Validate AI message
  */
-export function validateMessage(message: AIMessage): {
+export function validateMessage(message: AIMessage, maxLength: number = MAX_MESSAGE_LENGTH): {
   valid: boolean;
   error?: string;
 } {
@@ -193,8 +319,9 @@ export function validateMessage(message: AIMessage): {
     };
   }
   
+  // Measured in the message's envelope, as the platform receives it
   const fullMessage = formatMessageForClipboard(message);
-  if (fullMessage.length > 16384) { // 16KB limit
+  if (fullMessage.length > maxLength) {
     return {
       valid: false,
       error: 'Message too long. Please shorten your text or instructions.'
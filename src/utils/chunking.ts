@@ -0,0 +1,233 @@
+/**
+ * Chunked sending
+ * Splits text longer than the message limit into numbered parts and delivers them one after
+ * another into the same conversation, instead of truncating it
+ */
+
+import { sendToAI, formatMessageForClipboard, type AIMessage, type AIResult, type SendOptions } from './chatgpt';
+import {
+  getPlatform,
+  countPlatformResponses,
+  injectTextIntoPlatform,
+  submitPromptInPlatform,
+  waitForPlatformResponse,
+  type AIPlatform
+} from './ai-platforms';
+import { waitForTabToLoad } from './tabs';
+import { truncateText } from './text-format';
+import type { ExtensionSettings } from './storage';
+
+export const MAX_PARTS = 20; // Captures keep at most this many parts' worth of text
+const PART_OVERHEAD = 300; // First guess at the room the part header and the envelope take
+const MIN_PART_LENGTH = 1000;
+
+// Boundaries to split at, from the most to the least natural; each split keeps the separator with the text before it
+const BOUNDARIES = [
+  /(?<=\n[ \t]*\n)/, // Paragraphs
+  /(?<=\n)/, // Lines (also keeps code intact where possible)
+  /(?<=[.!?。！？]["')\]]*\s+)/, // Sentences
+  /(?<=\s)/ // Words
+];
+
+/**
+ * Longest selection kept at capture; only tab sends can be split into parts. Without a platform
+ * this is the limit for any platform that can take parts
+ */
+export function getSelectionLimit(
+  settings: Pick<ExtensionSettings, 'longTextMode' | 'transport' | 'maxTextLength'>,
+  platform?: Pick<AIPlatform, 'adapter'>
+): number {
+  return usesChunking(settings, platform) ? settings.maxTextLength * MAX_PARTS : settings.maxTextLength;
+}
+
+/**
+ * Whether long text is sent in parts with these settings (and to this platform, when given)
+ */
+export function usesChunking(
+  settings: Pick<ExtensionSettings, 'longTextMode' | 'transport'>,
+  platform?: Pick<AIPlatform, 'adapter'>
+): boolean {
+  return settings.longTextMode === 'chunk' && settings.transport === 'tab' && (!platform || canSendInParts(platform));
+}
+
+/**
+ * Whether a platform can receive parts: each further part waits for the answer to the previous one
+ */
+export function canSendInParts(platform: Pick<AIPlatform, 'adapter'>): boolean {
+  return Boolean(platform.adapter.responseSelector);
+}
+
+/**
+ * Part messages for a platform that can receive them; for any other platform the message with
+ * its text truncated to maxLength, as it would have been captured without chunking
+ */
+export function buildPlatformParts(message: AIMessage, maxLength: number, platform: Pick<AIPlatform, 'adapter'>): AIMessage[] {
+  if (canSendInParts(platform)) {
+    return buildPartMessages(message, maxLength);
+  }
+  return [{ ...message, text: truncateText(message.text || '', maxLength).text }];
+}
+
+/**
+ * Split text into chunks of at most maxLength characters at the most natural boundary available
+ */
+export function splitIntoChunks(text: string, maxLength: number): string[] {
+  if (text.length <= maxLength) {
+    return [text];
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of splitPieces(text, maxLength, 0)) {
+    if (current && current.length + piece.length > maxLength) {
+      chunks.push(current.trim());
+      current = '';
+    }
+    current += piece;
+  }
+
+  if (current.trim()) {
+    chunks.push(current.trim());
+  }
+
+  return chunks.filter(Boolean);
+}
+
+function splitPieces(text: string, maxLength: number, level: number): string[] {
+  if (text.length <= maxLength) {
+    return [text];
+  }
+
+  if (level >= BOUNDARIES.length) {
+    // A single word longer than a part: cut it
+    const pieces: string[] = [];
+    for (let start = 0; start < text.length; start += maxLength) {
+      pieces.push(text.slice(start, start + maxLength));
+    }
+    return pieces;
+  }
+
+  return text.split(BOUNDARIES[level]).flatMap(piece => splitPieces(piece, maxLength, level + 1));
+}
+
+/**
+ * Continuation header for a part; the last part carries the user's instructions
+ */
+export function buildPartHeader(part: number, total: number, instructions: string): string {
+  if (part === 1) {
+    return `Part 1/${total}. I'm sending a long text in ${total} parts. Wait for all parts before answering; until then reply only "OK".`;
+  }
+
+  if (part < total) {
+    return `Part ${part}/${total}, wait for all parts. Reply only "OK".`;
+  }
+
+  return `Part ${total}/${total} (last part). You now have the full text. ${instructions.trim() || 'Respond to it.'}`;
+}
+
+/**
+ * Split a message into numbered part messages that each fit in maxLength, laid out with the
+ * message's envelope (set the platform's one to measure what the platform receives)
+ * Returns the message unchanged when it already fits
+ */
+export function buildPartMessages(message: AIMessage, maxLength: number): AIMessage[] {
+  if (formatMessageForClipboard(message).length <= maxLength) {
+    return [message];
+  }
+
+  const instructions = message.instructions || '';
+  let partLength = Math.max(MIN_PART_LENGTH, maxLength - PART_OVERHEAD - instructions.length);
+
+  // Envelopes add more or less around the text, so parts are measured as sent and split smaller until they fit
+  for (;;) {
+    const chunks = splitIntoChunks(message.text || '', partLength);
+    if (chunks.length <= 1) {
+      return [message];
+    }
+
+    const parts = chunks.map((chunk, index) => ({
+      ...message,
+      text: chunk,
+      instructions: buildPartHeader(index + 1, chunks.length, instructions)
+    }));
+
+    const excess = Math.max(...parts.map(part => formatMessageForClipboard(part).length)) - maxLength;
+    if (excess <= 0 || partLength <= MIN_PART_LENGTH) {
+      return parts;
+    }
+    partLength = Math.max(MIN_PART_LENGTH, partLength - excess);
+  }
+}
+
+/**
+ * Deliver part messages into one conversation: the first part opens the platform like any send,
+ * each further part is inserted once the platform has answered the previous one.
+ * Every part but the last is submitted; the last one follows autoSend
+ */
+export async function sendInParts(
+  parts: AIMessage[],
+  autoSend: boolean,
+  platformId: string,
+  options: SendOptions = {}
+): Promise<AIResult> {
+  if (parts.length <= 1) {
+    return sendToAI(parts[0], autoSend, platformId, options);
+  }
+
+  const platform = await getPlatform(platformId);
+  const total = parts.length;
+  const fail = (error: string): AIResult => ({ success: false, method: 'clipboard', error, platform: platform.name });
+
+  if (!canSendInParts(platform)) {
+    return fail(`${platform.name} can't receive text in parts: its adapter has no response selector`);
+  }
+
+  // Later parts go into the tab part 1 was inserted in, so part 1 can't take a deep link
+  const first = await sendToAI(parts[0], true, platformId, { openTab: options.openTab, watchResponse: true, skipDeepLink: true });
+  if (!first.success || first.method === 'clipboard' || first.submitted === false || !first.tabId || first.responseBaseline === undefined) {
+    return fail(first.error || `Could not send part 1/${total} to ${platform.name}. It is in your clipboard.`);
+  }
+
+  const tabId = first.tabId;
+  let baseline = first.responseBaseline;
+  let submitted: boolean | undefined;
+
+  await waitForTabToLoad(tabId);
+
+  for (let index = 1; index < total; index++) {
+    const isLast = index === total - 1;
+
+    const previous = await waitForPlatformResponse(tabId, platform, baseline);
+    if (!previous.success) {
+      return fail(`${platform.name} did not answer part ${index}/${total}: ${previous.error}`);
+    }
+
+    const formatted = formatMessageForClipboard({ ...parts[index], envelope: parts[index].envelope || platform.envelope });
+    const injection = await injectTextIntoPlatform(tabId, platform, formatted);
+    if (!injection.success) {
+      return fail(`Could not insert part ${index + 1}/${total} into ${platform.name}: ${injection.reason}`);
+    }
+
+    baseline = await countPlatformResponses(tabId, platform);
+
+    if (!isLast || autoSend) {
+      const submitResult = await submitPromptInPlatform(tabId, platform);
+      submitted = submitResult.submitted;
+
+      if (!submitResult.submitted && !isLast) {
+        return fail(`Could not send part ${index + 1}/${total} in ${platform.name}: ${submitResult.error}`);
+      }
+    }
+  }
+
+  return {
+    success: true,
+    method: 'injected',
+    platform: platform.name,
+    submitted: autoSend ? submitted : undefined,
+    tabId,
+    responseBaseline: baseline,
+    parts: total
+  };
+}
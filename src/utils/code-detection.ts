@@ -0,0 +1,181 @@
+/**
+ * Code detection for captured selections
+ * Decides whether a selection is source code and which language tag its fence should get
+ */
+
+export interface CodeHints {
+  className?: string; // Classes of the surrounding code element (e.g. "language-ts", "highlight-source-go")
+  filePath?: string; // File path from the page or URL (GitHub/GitLab blobs, review diffs)
+  inCodeElement?: boolean; // Selection lies inside a <pre> or multi-line <code>
+}
+
+export interface CodeDetection {
+  isCode: boolean;
+  language: string; // Empty when the language is unknown
+}
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'tsx',
+  mts: 'typescript',
+  cts: 'typescript',
+  js: 'javascript',
+  jsx: 'jsx',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  py: 'python',
+  rb: 'ruby',
+  go: 'go',
+  rs: 'rust',
+  java: 'java',
+  kt: 'kotlin',
+  kts: 'kotlin',
+  swift: 'swift',
+  c: 'c',
+  h: 'c',
+  cc: 'cpp',
+  cpp: 'cpp',
+  hpp: 'cpp',
+  cs: 'csharp',
+  php: 'php',
+  scala: 'scala',
+  sh: 'bash',
+  bash: 'bash',
+  zsh: 'bash',
+  sql: 'sql',
+  html: 'html',
+  vue: 'vue',
+  svelte: 'svelte',
+  css: 'css',
+  scss: 'scss',
+  less: 'less',
+  json: 'json',
+  yml: 'yaml',
+  yaml: 'yaml',
+  toml: 'toml',
+  xml: 'xml',
+  md: 'markdown',
+  dockerfile: 'dockerfile',
+  tf: 'hcl'
+};
+
+const CLASS_LANGUAGE_PATTERN = /(?:^|\s)(?:(?:language|lang|highlight-source)-|brush:\s*)([\w+#.-]+)/i;
+
+/**
+ * Language from a class list like "language-ts" or GitHub's "highlight-source-go"
+ */
+export function languageFromClassName(className: string | undefined): string {
+  const match = className?.match(CLASS_LANGUAGE_PATTERN);
+  return match ? match[1].toLowerCase() : '';
+}
+
+/**
+ * Language from a file path or GitHub/GitLab blob URL, based on the file extension
+ */
+export function languageFromPath(path: string | undefined): string {
+  if (!path) return '';
+
+  const fileName = path.split(/[?#]/)[0].split('/').pop()?.toLowerCase() || '';
+  if (fileName === 'dockerfile') return 'dockerfile';
+  if (fileName === 'makefile') return 'makefile';
+
+  const extension = fileName.includes('.') ? fileName.split('.').pop() || '' : '';
+  return EXTENSION_LANGUAGES[extension] || '';
+}
+
+// Checked in order; more specific languages come before the ones they resemble
+const LANGUAGE_SIGNATURES: { language: string; patterns: RegExp[] }[] = [
+  { language: 'php', patterns: [/<\?php/, /\$\w+\s*=(?!=)/, /\bfunction\s+\w+\s*\(\$/] },
+  { language: 'typescript', patterns: [/\binterface\s+\w+\s*\{/, /\btype\s+\w+\s*=/, /\w\s*:\s*(string|number|boolean|any|unknown|void)\b/, /\b(import|export)\s+type\b/] },
+  { language: 'javascript', patterns: [/\b(const|let|var)\s+\w+\s*=/, /=>/, /\bfunction\s*\w*\s*\(/, /\bconsole\.\w+\(/, /\brequire\(['"]/] },
+  { language: 'python', patterns: [/^\s*def\s+\w+\(.*\)\s*(->\s*[\w[\], ]+)?:\s*$/m, /^\s*(from\s+[\w.]+\s+)?import\s+[\w.]+(\s+as\s+\w+)?\s*$/m, /\bself\.\w+/, /^\s*(elif|except)\b.*:\s*$/m, /\bprint\(/] },
+  { language: 'go', patterns: [/^package\s+\w+/m, /\bfunc\s+(\(\w+\s+\*?\w+\)\s*)?\w+\(/, /\w+\s*:=\s*/, /\bfmt\.\w+\(/] },
+  { language: 'rust', patterns: [/\bfn\s+\w+(<[^>]*>)?\s*\(/, /\blet\s+mut\b/, /\bimpl\b.*\{/, /\w+::\w+/, /\bprintln!\(/] },
+  { language: 'java', patterns: [/\bpublic\s+(static\s+)?(final\s+)?(class|void|int|String)\b/, /\bSystem\.out\.println\(/, /@Override\b/] },
+  { language: 'csharp', patterns: [/^\s*using\s+System/m, /\bnamespace\s+[\w.]+/, /\bConsole\.WriteLine\(/] },
+  { language: 'cpp', patterns: [/#include\s*[<"]/, /\bstd::\w+/, /\bcout\s*<</] },
+  { language: 'ruby', patterns: [/^\s*def\s+\w+[^:(]*$/m, /^\s*end\s*$/m, /\bputs\s/, /\battr_(reader|accessor)\b/] },
+  { language: 'sql', patterns: [/^\s*(SELECT|INSERT\s+INTO|UPDATE|DELETE\s+FROM|CREATE\s+TABLE)\b/im, /\bFROM\s+\w+/i, /\bWHERE\s+\w+/i] },
+  { language: 'bash', patterns: [/^#!\/(usr\/)?bin\/(env\s+)?(ba)?sh/m, /^\s*\$\s+\w+/m, /^\s*(sudo|apt-get|brew|npm|yarn|git|cd|echo|export)\s/m] },
+  { language: 'html', patterns: [/^\s*<!doctype\s+html/i, /<\/(div|span|p|a|body|html|section)>/i] },
+  { language: 'css', patterns: [/^\s*[.#]?[\w-]+(\s*[,>+~]\s*[.#]?[\w-]+)*\s*\{\s*$/m, /^\s*[\w-]+\s*:\s*[^;]+;\s*$/m] },
+  { language: 'yaml', patterns: [/^[\w-]+:\s*$/m, /^\s+[\w-]+:\s+\S/m, /^\s*-\s+[\w-]+:\s/m] }
+];
+
+/**
+ * Guess the language of a code snippet; returns '' when nothing matches convincingly
+ */
+export function detectLanguage(code: string): string {
+  const trimmed = code.trim();
+
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      JSON.parse(trimmed);
+      return 'json';
+    } catch {
+      // Not JSON; fall through to the signatures
+    }
+  }
+
+  let best = { language: '', score: 0 };
+
+  for (const { language, patterns } of LANGUAGE_SIGNATURES) {
+    const score = patterns.filter(pattern => pattern.test(code)).length;
+    if (score > best.score) {
+      best = { language, score };
+    }
+  }
+
+  return best.language;
+}
+
+const CODE_LINE_SIGNALS: RegExp[] = [
+  /[{};]\s*$/, // Statement or block terminators
+  /^\s*[}\])]/, // Closing brackets
+  /=>|==|!=|&&|\|\||::|->|:=/, // Operators that rarely appear in prose
+  /^\s*(\/\/|#(?!\s*\w+\s*$)|\/\*|\*\s|--\s)/, // Comments
+  /^\s*(function|def|class|return|import|export|const|let|var|if|for|while|fn|func|public|private)\b.*[({:=]/,
+  /^\s*<\/?[a-z][\w-]*(\s[^>]*)?>\s*$/i, // Markup lines
+  /\w+\([^)]*\)\s*;?\s*$/ // Trailing call
+];
+
+/**
+ * Heuristic: does this text read like source code rather than prose?
+ */
+export function looksLikeCode(text: string): boolean {
+  const lines = text.split('\n').filter(line => line.trim());
+  if (lines.length === 0) return false;
+
+  const signalCount = (line: string) => CODE_LINE_SIGNALS.filter(pattern => pattern.test(line)).length;
+
+  if (lines.length === 1) {
+    return signalCount(lines[0]) >= 2;
+  }
+
+  // Prose lines are long runs of words ending in sentence punctuation
+  const proseLines = lines.filter(line => /^[A-Z][^{};=<>]*[.!?]$/.test(line.trim()) && line.trim().split(/\s+/).length > 6);
+  const codeLines = lines.filter(line => signalCount(line) > 0);
+
+  return codeLines.length / lines.length >= 0.5 && proseLines.length / lines.length < 0.3;
+}
+
+/**
+ * Combine page hints and heuristics into a single decision
+ */
+export function detectCode(text: string, hints: CodeHints = {}): CodeDetection {
+  if (!text.trim()) {
+    return { isCode: false, language: '' };
+  }
+
+  const isCode = Boolean(hints.inCodeElement) || looksLikeCode(text);
+  if (!isCode) {
+    return { isCode: false, language: '' };
+  }
+
+  const language =
+    languageFromClassName(hints.className) ||
+    languageFromPath(hints.filePath) ||
+    detectLanguage(text);
+
+  return { isCode: true, language };
+}
@@ -0,0 +1,164 @@
+/**
+ * Message envelopes
+ * Lay out instructions and captured text for the AI platform
+ */
+
+import { fenceCode } from './markdown';
+
+/**
+ * How instructions and text are combined
+ * - triple-quotes: instructions, then the text between """ markers
+ * - xml: the text in a <document source="..."> tag followed by the instructions
+ * - markdown: "Instructions" and "Content" sections
+ * - custom: a user-defined layout with {{placeholders}}
+ */
+export type EnvelopeFormat = 'triple-quotes' | 'xml' | 'markdown' | 'custom';
+
+export const ENVELOPE_FORMATS: EnvelopeFormat[] = ['triple-quotes', 'xml', 'markdown', 'custom'];
+
+export interface EnvelopeConfig {
+  format: EnvelopeFormat;
+  customTemplate?: string; // Only used by the custom format
+}
+
+export interface EnvelopeContent {
+  text: string;
+  instructions: string;
+  isCode?: boolean;
+  codeLanguage?: string;
+  sourceUrl?: string;
+  title?: string;
+}
+
+export const ENVELOPE_PLACEHOLDERS = ['instructions', 'text', 'source', 'title'] as const;
+
+export const DEFAULT_CUSTOM_ENVELOPE = '{{instructions}}\n\n---\n{{text}}\n---';
+
+export const DEFAULT_ENVELOPE: EnvelopeConfig = { format: 'triple-quotes' };
+
+// Built-in platform defaults; Claude is trained to read XML-tagged documents
+const PLATFORM_ENVELOPES: Record<string, EnvelopeConfig> = {
+  claude: { format: 'xml' }
+};
+
+/**
+ * Default envelope for a platform ID, ignoring user settings
+ */
+export function getDefaultEnvelope(platformId: string): EnvelopeConfig {
+  return PLATFORM_ENVELOPES[platformId] || DEFAULT_ENVELOPE;
+}
+
+/**
+ * Validate a user-supplied envelope config; returns null when the format is unknown
+ */
+export function normalizeEnvelope(raw: unknown): EnvelopeConfig | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const candidate = raw as Record<string, unknown>;
+  if (!ENVELOPE_FORMATS.includes(candidate.format as EnvelopeFormat)) {
+    return null;
+  }
+
+  const config: EnvelopeConfig = { format: candidate.format as EnvelopeFormat };
+  if (config.format === 'custom') {
+    config.customTemplate = typeof candidate.customTemplate === 'string' && candidate.customTemplate.trim()
+      ? candidate.customTemplate
+      : DEFAULT_CUSTOM_ENVELOPE;
+  }
+
+  return config;
+}
+
+/**
+ * Build the complete message for the given envelope
+ */
+export function buildEnvelope(content: EnvelopeContent, config: EnvelopeConfig = DEFAULT_ENVELOPE): string {
+  const instructions = (content.instructions || '').trim();
+  const text = formatText(content);
+
+  switch (config.format) {
+    case 'xml':
+      return joinSections([
+        text && `${buildDocumentTag(content)}\n${text}\n</document>`,
+        instructions
+      ]);
+
+    case 'markdown':
+      return joinSections([
+        instructions && `## Instructions\n\n${instructions}`,
+        text && `## Content\n\n${buildSourceLine(content)}${text}`
+      ]);
+
+    case 'custom':
+      return expandEnvelope(config.customTemplate || DEFAULT_CUSTOM_ENVELOPE, {
+        instructions,
+        text,
+        source: content.sourceUrl || '',
+        title: content.title || ''
+      });
+
+    case 'triple-quotes':
+    default:
+      return joinSections([
+        instructions,
+        text && (content.isCode ? text : `"""\n${text}\n"""`)
+      ]);
+  }
+}
+
+/**
+ * Captured text, fenced when it is code
+ */
+function formatText(content: EnvelopeContent): string {
+  const text = content.text || '';
+  if (!text.trim()) {
+    return '';
+  }
+
+  return content.isCode
+    ? fenceCode(text.replace(/^\s*\n|\s+$/g, ''), content.codeLanguage)
+    : text.trim();
+}
+
+function joinSections(sections: (string | undefined | false)[]): string {
+  return sections.filter(Boolean).join('\n\n');
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function buildDocumentTag(content: EnvelopeContent): string {
+  const attributes = [
+    content.sourceUrl && `source="${escapeAttribute(content.sourceUrl)}"`,
+    content.title && `title="${escapeAttribute(content.title)}"`
+  ].filter(Boolean);
+
+  return attributes.length ? `<document ${attributes.join(' ')}>` : '<document>';
+}
+
+function buildSourceLine(content: EnvelopeContent): string {
+  if (!content.sourceUrl) {
+    return '';
+  }
+
+  return `Source: [${content.title || content.sourceUrl}](${content.sourceUrl})\n\n`;
+}
+
+/**
+ * Fill {{placeholders}} in a custom envelope and tidy the blank lines left by empty values
+ */
+function expandEnvelope(template: string, values: Record<typeof ENVELOPE_PLACEHOLDERS[number], string>): string {
+  return template
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+      (ENVELOPE_PLACEHOLDERS as readonly string[]).includes(name) ? values[name as keyof typeof values] : match
+    )
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
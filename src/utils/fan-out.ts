@@ -0,0 +1,126 @@
+/**
+ * Fan-out sending
+ * Sends the same prompt to several AI platforms at once, optionally in tiled windows
+ */
+
+import { sendToAI, type AIMessage, type AIResult, type TabOpener } from './chatgpt';
+import { buildPlatformParts, sendInParts } from './chunking';
+import { getPlatform } from './ai-platforms';
+import { storageManager } from './storage';
+import { getPlatformModel } from './tokens';
+
+export interface FanOutOptions {
+  tile?: boolean; // Open each platform in its own window, tiled over the current one
+  chunkLength?: number; // Send text longer than this in parts, or truncate it for platforms that can't take parts
+}
+
+export interface FanOutResult {
+  platformId: string;
+  result: AIResult;
+}
+
+export interface WindowBounds {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const DEFAULT_TILE_AREA: WindowBounds = { left: 0, top: 0, width: 1440, height: 900 };
+const MAX_COLUMNS = 3;
+
+/**
+ * Split an area into one tile per window: a single row for up to three windows, two rows beyond that
+ */
+export function computeTileBounds(area: WindowBounds, count: number): WindowBounds[] {
+  if (count <= 0) {
+    return [];
+  }
+
+  const columns = count <= MAX_COLUMNS ? count : Math.ceil(count / 2);
+  const rows = Math.ceil(count / columns);
+  const width = Math.floor(area.width / columns);
+  const height = Math.floor(area.height / rows);
+
+  return Array.from({ length: count }, (_, index) => ({
+    left: area.left + (index % columns) * width,
+    top: area.top + Math.floor(index / columns) * height,
+    width,
+    height
+  }));
+}
+
+/**
+ * Bounds of the window the user is looking at, used as the tiling area
+ */
+async function getTileArea(): Promise<WindowBounds> {
+  try {
+    const current = await chrome.windows.getLastFocused();
+    return {
+      left: current.left ?? DEFAULT_TILE_AREA.left,
+      top: current.top ?? DEFAULT_TILE_AREA.top,
+      width: current.width ?? DEFAULT_TILE_AREA.width,
+      height: current.height ?? DEFAULT_TILE_AREA.height
+    };
+  } catch (error) {
+    console.warn('Could not read window bounds for tiling:', error);
+    return DEFAULT_TILE_AREA;
+  }
+}
+
+/**
+ * Opener that places the platform in a new window at the given bounds
+ */
+function openInTiledWindow(bounds: WindowBounds): TabOpener {
+  return async url => {
+    const window = await chrome.windows.create({ url, ...bounds, type: 'normal', focused: true });
+    const tab = window?.tabs?.[0];
+    if (!tab) {
+      throw new Error('New window has no tab');
+    }
+    return tab;
+  };
+}
+
+/**
+ * Send a message to every platform in parallel; each platform gets its own model, tab, injection and result
+ */
+export async function sendToMultiplePlatforms(
+  message: AIMessage,
+  autoSend: boolean,
+  platformIds: string[],
+  options: FanOutOptions = {}
+): Promise<FanOutResult[]> {
+  const uniqueIds = [...new Set(platformIds)];
+  const tiles = options.tile ? computeTileBounds(await getTileArea(), uniqueIds.length) : [];
+  const { platformModels } = await storageManager.getSettings();
+
+  return Promise.all(uniqueIds.map(async (platformId, index): Promise<FanOutResult> => {
+    try {
+      const openTab = tiles[index] ? openInTiledWindow(tiles[index]) : undefined;
+      const platform = await getPlatform(platformId);
+      // Each platform opens with the model chosen for it, not the popup's selected platform's
+      const platformMessage = {
+        ...message,
+        platform: platformId,
+        model: getPlatformModel(platformModels, platformId),
+        envelope: message.envelope || platform.envelope
+      };
+      const result = options.chunkLength
+        ? await sendInParts(buildPlatformParts(platformMessage, options.chunkLength, platform), autoSend, platformId, { openTab })
+        : await sendToAI(platformMessage, autoSend, platformId, { openTab });
+      return { platformId, result };
+    } catch (error) {
+      console.warn(`Fan-out send to ${platformId} failed:`, error);
+      return {
+        platformId,
+        result: {
+          success: false,
+          method: 'clipboard',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          platform: platformId
+        }
+      };
+    }
+  }));
+}
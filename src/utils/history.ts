@@ -0,0 +1,195 @@
+/**
+ * Send history
+ * Every prompt sent through the extension is kept locally so it can be found and resent
+ */
+
+import { truncateText } from './text-format';
+
+export interface HistoryEntry {
+  id: string;
+  timestamp: number;
+  text: string;
+  textTruncated?: boolean; // Only the start of a longer text was kept, see MAX_ENTRY_TEXT_LENGTH
+  instructions: string;
+  platform: string; // Platform ID
+  platformName: string;
+  sourceUrl?: string;
+  title?: string;
+  method: 'deeplink' | 'injected' | 'clipboard' | 'api';
+  success: boolean;
+  submitted?: boolean;
+  isCode?: boolean;
+  codeLanguage?: string;
+}
+
+export interface HistoryRetention {
+  maxEntries: number;
+  retentionDays: number; // 0 keeps entries until they fall out of maxEntries
+}
+
+/**
+ * What happened when history last ran into the local storage quota
+ */
+export interface HistoryStatus {
+  evicted: number; // Older entries removed to make room since history was last cleared
+  failed: boolean; // The latest send could not be recorded at all
+  timestamp: number;
+}
+
+export const MAX_ENTRY_TEXT_LENGTH = 20000; // Keeps 200 entries of long chunked captures well inside the 10 MB quota
+
+const HISTORY_KEY = 'sendHistory';
+const HISTORY_STATUS_KEY = 'sendHistoryStatus';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Drop entries older than the retention window and beyond the entry limit (newest first)
+ */
+export function applyRetention(entries: HistoryEntry[], retention: HistoryRetention, now: number = Date.now()): HistoryEntry[] {
+  const cutoff = retention.retentionDays > 0 ? now - retention.retentionDays * DAY_MS : -Infinity;
+
+  return entries
+    .filter(entry => entry.timestamp >= cutoff)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, Math.max(0, retention.maxEntries));
+}
+
+/**
+ * Case-insensitive match on all words of the query against text, instructions, title, URL and platform
+ */
+export function searchHistory(entries: HistoryEntry[], query: string): HistoryEntry[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return entries;
+  }
+
+  return entries.filter(entry => {
+    const haystack = [entry.text, entry.instructions, entry.title, entry.sourceUrl, entry.platformName]
+      .filter(Boolean)
+      .join('\n')
+      .toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+}
+
+class HistoryManager {
+  /**
+   * Get history entries, newest first
+   * Kept in local storage only: entries can be large and may contain sensitive text
+   */
+  async getEntries(): Promise<HistoryEntry[]> {
+    try {
+      const result = await chrome.storage.local.get([HISTORY_KEY]);
+      return result[HISTORY_KEY] || [];
+    } catch (error) {
+      console.error('History storage unavailable:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Whether history has run into the storage quota, or null when it hasn't
+   */
+  async getStatus(): Promise<HistoryStatus | null> {
+    try {
+      const result = await chrome.storage.local.get([HISTORY_STATUS_KEY]);
+      return result[HISTORY_STATUS_KEY] || null;
+    } catch (error) {
+      console.error('History storage unavailable:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save history entries
+   */
+  private async saveEntries(entries: HistoryEntry[]): Promise<void> {
+    try {
+      await chrome.storage.local.set({ [HISTORY_KEY]: entries });
+    } catch (error) {
+      console.error('Failed to save history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save entries (newest first), dropping the oldest until they fit in local storage. Evictions
+   * and failures are kept in the status so the options page can tell the user
+   */
+  private async saveWithinQuota(entries: HistoryEntry[]): Promise<void> {
+    const status = await this.getStatus();
+    let kept = entries;
+
+    for (;;) {
+      const evicted = entries.length - kept.length;
+      const items: Record<string, unknown> = { [HISTORY_KEY]: kept };
+      if (evicted > 0) {
+        items[HISTORY_STATUS_KEY] = { evicted: (status?.evicted || 0) + evicted, failed: false, timestamp: Date.now() };
+      } else if (status?.failed) {
+        items[HISTORY_STATUS_KEY] = { ...status, failed: false };
+      }
+
+      try {
+        await chrome.storage.local.set(items);
+        return;
+      } catch (error) {
+        if (kept.length <= 1) {
+          console.error('Failed to save history:', error);
+          await chrome.storage.local
+            .set({ [HISTORY_STATUS_KEY]: { evicted: status?.evicted || 0, failed: true, timestamp: Date.now() } })
+            .catch(() => undefined);
+          throw error;
+        }
+        console.warn('History does not fit in local storage, removing the oldest entries:', error);
+        kept = kept.slice(0, kept.length - Math.ceil(kept.length / 4));
+      }
+    }
+  }
+
+  /**
+   * Record a send and apply the retention limits
+   */
+  async addEntry(entry: Omit<HistoryEntry, 'id' | 'timestamp'>, retention: HistoryRetention): Promise<HistoryEntry> {
+    const { text, truncated } = truncateText(entry.text, MAX_ENTRY_TEXT_LENGTH);
+    const newEntry: HistoryEntry = {
+      ...entry,
+      text,
+      textTruncated: truncated || undefined,
+      id: `history_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+      timestamp: Date.now()
+    };
+
+    const entries = await this.getEntries();
+    await this.saveWithinQuota(applyRetention([newEntry, ...entries], retention));
+    return newEntry;
+  }
+
+  /**
+   * Remove a single entry
+   */
+  async removeEntry(id: string): Promise<void> {
+    const entries = await this.getEntries();
+    await this.saveEntries(entries.filter(entry => entry.id !== id));
+  }
+
+  /**
+   * Remove all entries
+   */
+  async clear(): Promise<void> {
+    await this.saveEntries([]);
+    await chrome.storage.local.remove(HISTORY_STATUS_KEY);
+  }
+
+  /**
+   * Re-apply retention limits, e.g. after the user lowers them
+   */
+  async prune(retention: HistoryRetention): Promise<void> {
+    const entries = await this.getEntries();
+    const kept = applyRetention(entries, retention);
+    if (kept.length !== entries.length) {
+      await this.saveEntries(kept);
+    }
+  }
+}
+
+export const historyManager = new HistoryManager();
@@ -0,0 +1,99 @@
+/**
+ * Image utilities for screenshot processing
+ * Uses OffscreenCanvas so they work in the background service worker
+ */
+
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Load a data URL into an ImageBitmap
+ */
+export async function loadImageBitmap(dataUrl: string): Promise<ImageBitmap> {
+  const response = await fetch(dataUrl);
+  const blob = await response.blob();
+  return createImageBitmap(blob);
+}
+
+/**
+ * Convert a blob to a data URL without FileReader (not available in every worker)
+ */
+export async function blobToDataUrl(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  const chunkSize = 0x8000;
+
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+
+  return `data:${blob.type || 'image/png'};base64,${btoa(binary)}`;
+}
+
+/**
+ * Export an OffscreenCanvas as a PNG data URL
+ */
+export async function canvasToDataUrl(canvas: OffscreenCanvas): Promise<string> {
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+  return blobToDataUrl(blob);
+}
+
+/**
+ * Crop a screenshot to a region given in CSS pixels
+ * `scale` converts CSS pixels to image pixels (devicePixelRatio × zoom)
+ */
+export async function cropImage(dataUrl: string, region: ImageRegion, scale: number): Promise<string> {
+  const bitmap = await loadImageBitmap(dataUrl);
+
+  // Clamp to the captured image so rounding never reads outside it
+  const sx = Math.max(0, Math.round(region.x * scale));
+  const sy = Math.max(0, Math.round(region.y * scale));
+  const sw = Math.min(bitmap.width - sx, Math.round(region.width * scale));
+  const sh = Math.min(bitmap.height - sy, Math.round(region.height * scale));
+
+  if (sw <= 0 || sh <= 0) {
+    bitmap.close();
+    throw new Error('Selected region is outside the captured image');
+  }
+
+  const canvas = new OffscreenCanvas(sw, sh);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Canvas 2D context unavailable');
+  }
+
+  context.drawImage(bitmap, sx, sy, sw, sh, 0, 0, sw, sh);
+  bitmap.close();
+
+  return canvasToDataUrl(canvas);
+}
+
+export interface ImageTile {
+  dataUrl: string;
+  y: number; // Vertical offset of the tile in CSS pixels
+}
+
+/**
+ * Stitch vertically offset tiles into one image of the given CSS size
+ * Later tiles are drawn over earlier ones where they overlap
+ */
+export async function stitchImages(tiles: ImageTile[], width: number, height: number, scale: number): Promise<string> {
+  const canvas = new OffscreenCanvas(Math.round(width * scale), Math.round(height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context unavailable');
+  }
+
+  for (const tile of tiles) {
+    const bitmap = await loadImageBitmap(tile.dataUrl);
+    context.drawImage(bitmap, 0, Math.round(tile.y * scale));
+    bitmap.close();
+  }
+
+  return canvasToDataUrl(canvas);
+}
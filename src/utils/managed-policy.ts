@@ -0,0 +1,148 @@
+/**
+ * Enterprise managed policy
+ * Settings, platform restrictions and templates pushed by an administrator through
+ * chrome.storage.managed (schema in managed_schema.json). Managed values win over the user's
+ * and are shown read-only
+ */
+
+import type { ExtensionSettings, PromptTemplate } from './storage';
+import { validateSettings } from './settings-validation';
+
+export interface ManagedPolicy {
+  lockedSettings: Partial<ExtensionSettings>; // Forced values; the user can't change these
+  allowedPlatforms?: string[]; // Built-in platform IDs; every built-in platform when missing
+  allowCustomPlatforms: boolean; // Custom platforms have generated IDs, so they are allowed or not as a group
+  allowedApiEndpoints?: string[]; // Endpoints the direct API transport may use; any when missing, none when empty
+  templates: PromptTemplate[]; // Listed before the user's own templates, can't be edited
+  enforceRedaction: boolean; // Sensitive data review is always on and can't be skipped
+}
+
+export const EMPTY_POLICY: ManagedPolicy = {
+  lockedSettings: {},
+  allowCustomPlatforms: true,
+  templates: [],
+  enforceRedaction: false
+};
+
+export const MANAGED_EXPLANATION = 'Managed by your organization';
+
+export const API_ENDPOINT_NOT_ALLOWED_MESSAGE = 'This API endpoint is not allowed by your organization';
+
+export const MANAGED_TEMPLATE_PREFIX = 'managed_';
+
+const CUSTOM_PLATFORM_PREFIX = 'custom_';
+
+/**
+ * Turn raw managed storage into a policy, dropping unknown settings and invalid values
+ */
+export function normalizeManagedPolicy(raw: Record<string, any> | undefined): ManagedPolicy {
+  if (!raw || typeof raw !== 'object') {
+    return EMPTY_POLICY;
+  }
+
+  const { valid: lockedSettings, invalid } = validateSettings(raw.lockedSettings);
+  if (invalid.length > 0) {
+    console.warn('Ignoring invalid managed settings:', invalid);
+  }
+
+  const templates: PromptTemplate[] = (Array.isArray(raw.templates) ? raw.templates : [])
+    .filter((template: any) => typeof template?.name === 'string' && typeof template?.instructions === 'string')
+    .map((template: any, index: number) => ({
+      id: `${MANAGED_TEMPLATE_PREFIX}${typeof template.id === 'string' && template.id ? template.id : index}`,
+      name: template.name,
+      instructions: template.instructions
+    }));
+
+  return {
+    lockedSettings,
+    allowedPlatforms: Array.isArray(raw.allowedPlatforms)
+      ? raw.allowedPlatforms.filter((id: unknown): id is string => typeof id === 'string')
+      : undefined,
+    allowCustomPlatforms: raw.allowCustomPlatforms !== false,
+    allowedApiEndpoints: Array.isArray(raw.allowedApiEndpoints)
+      ? raw.allowedApiEndpoints.filter((endpoint: unknown): endpoint is string => typeof endpoint === 'string')
+      : undefined,
+    templates,
+    enforceRedaction: raw.enforceRedaction === true
+  };
+}
+
+/**
+ * Settings with the policy's locked values applied
+ */
+export function applyManagedPolicy(settings: ExtensionSettings, policy: ManagedPolicy): ExtensionSettings {
+  const applied = { ...settings, ...policy.lockedSettings };
+
+  if (policy.enforceRedaction) {
+    applied.reviewSensitiveData = true;
+  }
+
+  // A default or fan-out platform the policy doesn't allow falls back to the first allowed one
+  if (!isPlatformAllowed(policy, applied.defaultPlatform) && policy.allowedPlatforms?.length) {
+    applied.defaultPlatform = policy.allowedPlatforms[0];
+  }
+  applied.fanOutPlatforms = applied.fanOutPlatforms.filter(id => isPlatformAllowed(policy, id));
+
+  return applied;
+}
+
+/**
+ * Settings the user can't change under this policy
+ */
+export function getLockedSettingKeys(policy: ManagedPolicy): (keyof ExtensionSettings)[] {
+  const keys = Object.keys(policy.lockedSettings) as (keyof ExtensionSettings)[];
+
+  if (policy.enforceRedaction && !keys.includes('reviewSensitiveData')) {
+    keys.push('reviewSensitiveData');
+  }
+
+  return keys;
+}
+
+/**
+ * Whether the policy lets prompts be sent to a platform
+ */
+export function isPlatformAllowed(policy: ManagedPolicy, platformId: string): boolean {
+  if (platformId.startsWith(CUSTOM_PLATFORM_PREFIX)) {
+    return policy.allowCustomPlatforms;
+  }
+
+  return !policy.allowedPlatforms || policy.allowedPlatforms.includes(platformId);
+}
+
+/**
+ * Whether the policy limits where prompts may go. Adapter edits could point an allowed platform
+ * at any host, so they are ignored and can't be made under such a policy
+ */
+export function restrictsPlatforms(policy: ManagedPolicy): boolean {
+  return policy.allowedPlatforms !== undefined || !policy.allowCustomPlatforms;
+}
+
+/**
+ * Whether the policy lets the direct API transport send to an endpoint. Trailing slashes and
+ * case don't matter
+ */
+export function isApiEndpointAllowed(policy: ManagedPolicy, endpoint: string): boolean {
+  const normalize = (url: string) => url.trim().replace(/\/+$/, '').toLowerCase();
+
+  return !policy.allowedApiEndpoints ||
+    policy.allowedApiEndpoints.some(allowed => normalize(allowed) === normalize(endpoint));
+}
+
+/**
+ * Whether a template was pushed by the policy
+ */
+export function isManagedTemplate(template: PromptTemplate): boolean {
+  return template.id.startsWith(MANAGED_TEMPLATE_PREFIX);
+}
+
+/**
+ * Whether an administrator has set anything at all
+ */
+export function hasManagedPolicy(policy: ManagedPolicy): boolean {
+  return getLockedSettingKeys(policy).length > 0 ||
+    policy.allowedPlatforms !== undefined ||
+    !policy.allowCustomPlatforms ||
+    policy.allowedApiEndpoints !== undefined ||
+    policy.templates.length > 0;
+}
@@ -0,0 +1,290 @@
+/**
+ * HTML to Markdown conversion for captured selections
+ * Keeps the structure models care about: headings, lists, links, tables, emphasis and code
+ */
+
+import { languageFromClassName } from './code-detection';
+
+export interface MarkdownOptions {
+  baseUrl?: string; // Resolve relative links and images against this URL
+  rewriteUrl?: (url: string) => string; // Applied to every link and image URL after resolving
+}
+
+interface ConvertContext {
+  options: MarkdownOptions;
+  codeBlocks: string[]; // Fenced blocks are held aside so whitespace cleanup can't touch them
+}
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'dd', 'details', 'div', 'dl', 'dt', 'fieldset',
+  'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr',
+  'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'tbody', 'td', 'tfoot',
+  'th', 'thead', 'tr', 'ul'
+]);
+
+const IGNORED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'button']);
+
+const CODE_BLOCK_TOKEN = '\u0000';
+
+/**
+ * Convert an HTML fragment to Markdown
+ */
+export function htmlToMarkdown(html: string, options: MarkdownOptions = {}): string {
+  // <template> parses without running scripts or loading images
+  const template = document.createElement('template');
+  template.innerHTML = html;
+
+  const context: ConvertContext = { options, codeBlocks: [] };
+  const markdown = convertChildren(template.content, context)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return markdown.replace(
+    new RegExp(`${CODE_BLOCK_TOKEN}(\\d+)${CODE_BLOCK_TOKEN}`, 'g'),
+    (_, index: string) => context.codeBlocks[Number(index)]
+  );
+}
+
+/**
+ * Language hint from a `language-xxx`-style class on a code block or its <code> child
+ */
+export function getCodeLanguage(element: Element): string {
+  const candidates = [element, element.querySelector('code')];
+
+  for (const candidate of candidates) {
+    const language = languageFromClassName(candidate?.className);
+    if (language) {
+      return language;
+    }
+  }
+
+  return '';
+}
+
+/**
+ * Wrap code in a fence long enough not to collide with backticks inside it
+ */
+export function fenceCode(code: string, language: string = ''): string {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${fence}${language}\n${code.replace(/\n+$/, '')}\n${fence}`;
+}
+
+function convertChildren(node: Node, context: ConvertContext): string {
+  return Array.from(node.childNodes).map(child => convertNode(child, context)).join('');
+}
+
+function convertNode(node: Node, context: ConvertContext): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return convertText(node as Text);
+  }
+
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return '';
+  }
+
+  const element = node as HTMLElement;
+  const tag = element.tagName.toLowerCase();
+
+  if (IGNORED_TAGS.has(tag)) {
+    return '';
+  }
+
+  switch (tag) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+      return block(`${'#'.repeat(Number(tag[1]))} ${singleLine(convertChildren(element, context))}`);
+
+    case 'br':
+      return '\n';
+
+    case 'hr':
+      return block('---');
+
+    case 'strong':
+    case 'b':
+      return wrapInline(convertChildren(element, context), '**');
+
+    case 'em':
+    case 'i':
+      return wrapInline(convertChildren(element, context), '*');
+
+    case 'del':
+    case 's':
+    case 'strike':
+      return wrapInline(convertChildren(element, context), '~~');
+
+    case 'code':
+      return inlineCode(element.textContent || '');
+
+    case 'pre':
+      return convertCodeBlock(element, context);
+
+    case 'a':
+      return convertLink(element, context);
+
+    case 'img':
+      return convertImage(element, context);
+
+    case 'ul':
+    case 'ol':
+      return convertList(element, context);
+
+    case 'blockquote': {
+      const content = convertChildren(element, context).replace(/\n{3,}/g, '\n\n').trim();
+      return block(content.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n'));
+    }
+
+    case 'table':
+      return convertTable(element as HTMLTableElement, context);
+
+    default:
+      if (BLOCK_TAGS.has(tag)) {
+        return block(convertChildren(element, context).trim());
+      }
+      return convertChildren(element, context);
+  }
+}
+
+/**
+ * Collapse whitespace; whitespace-only nodes between blocks are formatting, not content
+ */
+function convertText(node: Text): string {
+  const text = node.data;
+
+  if (!text.trim()) {
+    const isBetweenBlocks = [node.previousSibling, node.nextSibling].some(sibling =>
+      !sibling || (sibling instanceof Element && BLOCK_TAGS.has(sibling.tagName.toLowerCase()))
+    );
+    return isBetweenBlocks ? '' : ' ';
+  }
+
+  return text.replace(/\s+/g, ' ');
+}
+
+function block(content: string): string {
+  return content ? `\n\n${content}\n\n` : '';
+}
+
+function singleLine(content: string): string {
+  return content.replace(/\s*\n\s*/g, ' ').trim();
+}
+
+/**
+ * Wrap inline content in a marker, keeping surrounding spaces outside the markers
+ */
+function wrapInline(content: string, marker: string): string {
+  if (!content.trim()) {
+    return content;
+  }
+
+  const leading = content.match(/^\s*/)?.[0] || '';
+  const trailing = content.match(/\s*$/)?.[0] || '';
+  return `${leading}${marker}${content.trim()}${marker}${trailing}`;
+}
+
+function inlineCode(code: string): string {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const padding = longestRun > 0 ? ' ' : '';
+  return `${fence}${padding}${code}${padding}${fence}`;
+}
+
+function convertCodeBlock(element: HTMLElement, context: ConvertContext): string {
+  const code = element.textContent || '';
+  if (!code.trim()) {
+    return '';
+  }
+
+  context.codeBlocks.push(fenceCode(code, getCodeLanguage(element)));
+  return block(`${CODE_BLOCK_TOKEN}${context.codeBlocks.length - 1}${CODE_BLOCK_TOKEN}`);
+}
+
+function resolveUrl(url: string, context: ConvertContext): string {
+  const { baseUrl, rewriteUrl } = context.options;
+  let resolved = url;
+
+  if (baseUrl) {
+    try {
+      resolved = new URL(url, baseUrl).href;
+    } catch {
+      // Keep the URL as written
+    }
+  }
+
+  return rewriteUrl ? rewriteUrl(resolved) : resolved;
+}
+
+function convertLink(element: HTMLElement, context: ConvertContext): string {
+  const text = singleLine(convertChildren(element, context));
+  const href = element.getAttribute('href')?.trim();
+
+  if (!href || /^javascript:/i.test(href)) {
+    return text;
+  }
+
+  const url = resolveUrl(href, context);
+  return text ? `[${text}](${url})` : `<${url}>`;
+}
+
+function convertImage(element: HTMLElement, context: ConvertContext): string {
+  const src = element.getAttribute('src')?.trim();
+  if (!src || src.startsWith('data:')) {
+    return '';
+  }
+
+  const alt = (element.getAttribute('alt') || '').replace(/[[\]]/g, '');
+  return `![${alt}](${resolveUrl(src, context)})`;
+}
+
+function convertList(element: HTMLElement, context: ConvertContext): string {
+  const ordered = element.tagName.toLowerCase() === 'ol';
+  const start = ordered ? Number(element.getAttribute('start')) || 1 : 1;
+  const items = Array.from(element.children).filter(child => child.tagName.toLowerCase() === 'li');
+
+  const lines = items.map((item, index) => {
+    const marker = ordered ? `${start + index}.` : '-';
+    const indent = ' '.repeat(marker.length + 1);
+
+    // Keep items tight: paragraph breaks inside an item become single newlines
+    const content = convertChildren(item, context).replace(/\n\s*\n/g, '\n').trim();
+
+    return content
+      .split('\n')
+      .map((line, lineIndex) => {
+        if (lineIndex === 0) return `${marker} ${line}`;
+        return line ? `${indent}${line}` : '';
+      })
+      .join('\n');
+  });
+
+  return block(lines.join('\n'));
+}
+
+function convertTable(table: HTMLTableElement, context: ConvertContext): string {
+  const rows = Array.from(table.rows).map(row =>
+    Array.from(row.cells).map(cell =>
+      singleLine(convertChildren(cell, context)).replace(/\|/g, '\\|')
+    )
+  );
+
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const columnCount = Math.max(...rows.map(row => row.length));
+  const formatRow = (cells: string[]) => {
+    const padded = [...cells, ...Array(columnCount - cells.length).fill('')];
+    return `| ${padded.join(' | ')} |`;
+  };
+
+  const [header, ...body] = rows;
+  const separator = `| ${Array(columnCount).fill('---').join(' | ')} |`;
+
+  return block([formatRow(header), separator, ...body.map(formatRow)].join('\n'));
+}
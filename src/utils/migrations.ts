@@ -0,0 +1,59 @@
+/**
+ * Settings migrations
+ * Stored settings carry a schema version (settingsVersion, 0 when missing). Each migration takes
+ * the stored values of the previous version to its own; the ones a profile hasn't had yet run in
+ * order after an update, and on imported settings files
+ */
+
+export interface SettingsMigration {
+  version: number; // Schema version the settings have after this migration
+  description: string;
+  migrate: (stored: Record<string, any>) => Record<string, any>; // All stored values in, all values out
+}
+
+export const SETTINGS_MIGRATIONS: SettingsMigration[] = [
+  {
+    version: 1,
+    description: 'Replace the ChatGPT-only defaultModel with a model per platform',
+    migrate: ({ defaultModel, ...stored }) => {
+      if (typeof defaultModel !== 'string') {
+        return stored;
+      }
+
+      // Custom platforms used the same model for their token estimates
+      const customPlatformIds: string[] = Array.isArray(stored.customPlatforms)
+        ? stored.customPlatforms.map((platform: { id?: unknown }) => platform?.id).filter((id: unknown) => typeof id === 'string')
+        : [];
+      const models = Object.fromEntries(['chatgpt', ...customPlatformIds].map(id => [id, defaultModel]));
+
+      return { ...stored, platformModels: { ...models, ...stored.platformModels } };
+    }
+  }
+];
+
+export const SETTINGS_VERSION = SETTINGS_MIGRATIONS[SETTINGS_MIGRATIONS.length - 1].version;
+
+/**
+ * Apply the migrations after a version, in order
+ */
+export function migrateSettings(stored: Record<string, any>, fromVersion: number): Record<string, any> {
+  return SETTINGS_MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((settings, migration) => migration.migrate(settings), stored);
+}
+
+/**
+ * What to write back after migrating: changed or new values, and keys that are gone
+ */
+export function diffMigratedSettings(
+  stored: Record<string, any>,
+  migrated: Record<string, any>
+): { changed: Record<string, any>; removed: string[] } {
+  const changed = Object.fromEntries(
+    Object.entries(migrated).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(stored[key]))
+  );
+  const removed = Object.keys(stored).filter(key => !(key in migrated));
+
+  return { changed, removed };
+}
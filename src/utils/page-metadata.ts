@@ -0,0 +1,135 @@
+/**
+ * Page metadata for URL sharing
+ * Open Graph and Twitter card tags, canonical URL, description, language and JSON-LD,
+ * collected in the tab and attached to a shared URL field by field
+ */
+
+import { truncateText } from './text-format';
+
+export interface PageMetadata {
+  canonicalUrl?: string;
+  description?: string;
+  language?: string;
+  openGraph: Record<string, string>; // og:* and article:* properties
+  twitter: Record<string, string>; // twitter:* names
+  jsonLd: unknown[]; // Parsed JSON-LD blocks
+}
+
+export type MetadataField = 'canonicalUrl' | 'description' | 'language' | 'openGraph' | 'twitter' | 'jsonLd';
+
+export const METADATA_FIELDS: { field: MetadataField; label: string }[] = [
+  { field: 'canonicalUrl', label: 'Canonical URL' },
+  { field: 'description', label: 'Description' },
+  { field: 'language', label: 'Language' },
+  { field: 'openGraph', label: 'Open Graph' },
+  { field: 'twitter', label: 'Twitter card' },
+  { field: 'jsonLd', label: 'Structured data (JSON-LD)' }
+];
+
+const MAX_JSON_LD_LENGTH = 4000;
+
+/**
+ * Collect the page's metadata
+ * Injected into the tab with chrome.scripting.executeScript, so it must stay self-contained
+ */
+export function collectPageMetadata(): PageMetadata {
+  const metadata: PageMetadata = { openGraph: {}, twitter: {}, jsonLd: [] };
+
+  document.querySelectorAll('meta[property], meta[name]').forEach(meta => {
+    const key = (meta.getAttribute('property') || meta.getAttribute('name') || '').trim();
+    const value = meta.getAttribute('content')?.trim();
+    if (!key || !value) return;
+
+    if (/^(og|article):/i.test(key)) {
+      metadata.openGraph[key] = metadata.openGraph[key] || value;
+    } else if (/^twitter:/i.test(key)) {
+      metadata.twitter[key] = metadata.twitter[key] || value;
+    } else if (key.toLowerCase() === 'description') {
+      metadata.description = metadata.description || value;
+    }
+  });
+
+  const canonical = document.querySelector('link[rel="canonical"]')?.getAttribute('href');
+  if (canonical) {
+    try {
+      metadata.canonicalUrl = new URL(canonical, document.baseURI).href;
+    } catch (error) {
+      metadata.canonicalUrl = canonical;
+    }
+  }
+
+  const language = document.documentElement.getAttribute('lang') ||
+    document.querySelector('meta[http-equiv="content-language"]')?.getAttribute('content');
+  if (language) {
+    metadata.language = language.trim();
+  }
+
+  document.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+    try {
+      metadata.jsonLd.push(JSON.parse(script.textContent || ''));
+    } catch (error) {
+      // Skip malformed blocks
+    }
+  });
+
+  return metadata;
+}
+
+/**
+ * Whether a field has anything to show or send
+ */
+export function hasMetadataField(metadata: PageMetadata, field: MetadataField): boolean {
+  const value = metadata[field];
+  if (Array.isArray(value)) return value.length > 0;
+  if (value && typeof value === 'object') return Object.keys(value).length > 0;
+  return Boolean(value);
+}
+
+/**
+ * One-line summary of a field for the popup preview
+ */
+export function previewMetadataField(metadata: PageMetadata, field: MetadataField): string {
+  switch (field) {
+    case 'openGraph':
+    case 'twitter': {
+      const tags = metadata[field];
+      const title = tags['og:title'] || tags['twitter:title'];
+      return title ? `${title} (${Object.keys(tags).length} tags)` : `${Object.keys(tags).length} tags`;
+    }
+    case 'jsonLd':
+      return metadata.jsonLd
+        .map(item => (item && typeof item === 'object' ? String((item as Record<string, unknown>)['@type'] || 'Item') : 'Item'))
+        .join(', ');
+    default:
+      return metadata[field] || '';
+  }
+}
+
+/**
+ * Render the chosen fields as a block to send after the URL
+ * Returns an empty string when none of the chosen fields are present
+ */
+export function formatPageMetadata(metadata: PageMetadata, fields: MetadataField[]): string {
+  const lines: string[] = [];
+
+  for (const { field, label } of METADATA_FIELDS) {
+    if (!fields.includes(field) || !hasMetadataField(metadata, field)) continue;
+
+    switch (field) {
+      case 'openGraph':
+      case 'twitter':
+        lines.push(`${label}:`);
+        Object.entries(metadata[field]).forEach(([key, value]) => lines.push(`- ${key}: ${value}`));
+        break;
+      case 'jsonLd': {
+        const json = JSON.stringify(metadata.jsonLd.length === 1 ? metadata.jsonLd[0] : metadata.jsonLd, null, 2);
+        lines.push(`${label}:`, '```json', truncateText(json, MAX_JSON_LD_LENGTH).text, '```');
+        break;
+      }
+      default:
+        lines.push(`${label}: ${metadata[field]}`);
+    }
+  }
+
+  return lines.length > 0 ? `Page metadata:\n${lines.join('\n')}` : '';
+}
@@ -0,0 +1,262 @@
+/**
+ * Declarative platform adapters
+ * Describe how to find, fill and drive each AI platform's chat UI
+ */
+
+export const ADAPTER_SCHEMA_VERSION = 1;
+
+/**
+ * How text is put into the platform's input element
+ * - value: set the textarea/input value and fire input events
+ * - contenteditable: replace the element's text content
+ * - prosemirror-paste: dispatch a synthetic paste event (ProseMirror/Lexical editors)
+ */
+export type InsertMethod = 'value' | 'contenteditable' | 'prosemirror-paste';
+
+export const INSERT_METHODS: InsertMethod[] = ['value', 'contenteditable', 'prosemirror-paste'];
+
+/**
+ * How the prompt is submitted after injection
+ * - click: click the submit button, falling back to Enter if it stays disabled
+ * - enter: dispatch an Enter keypress on the input
+ * - none: never submit automatically on this platform
+ */
+export type SubmitMethod = 'click' | 'enter' | 'none';
+
+export const SUBMIT_METHODS: SubmitMethod[] = ['click', 'enter', 'none'];
+
+/**
+ * How a screenshot is handed to the platform
+ * - file-input: assign the file to the upload input through a DataTransfer
+ * - drop: dispatch a synthetic drop event on the chat input
+ * - paste: dispatch a synthetic paste event on the chat input
+ * - none: leave the image on the clipboard for the user to paste
+ */
+export type ImageUploadMethod = 'file-input' | 'drop' | 'paste' | 'none';
+
+export const IMAGE_UPLOAD_METHODS: ImageUploadMethod[] = ['file-input', 'drop', 'paste', 'none'];
+
+export interface PlatformAdapter {
+  version: number;
+  inputSelectors: string[];
+  submitSelector?: string;
+  submitMethod?: SubmitMethod; // Defaults to 'click' when a submitSelector is set, else 'enter'
+  fileInputSelector?: string;
+  imageUpload?: ImageUploadMethod; // Defaults to 'file-input' when a fileInputSelector is set, else 'none'
+  readySelector?: string; // Readiness probe: present once the app can accept input
+  insertMethod: InsertMethod;
+  urlTemplate?: string; // Deep link with a {{prompt}} placeholder
+  responseSelector?: string; // Matches each answer; the last match is relayed back to the source page
+  generatingSelector?: string; // Present while an answer is still being generated (e.g. the stop button)
+}
+
+export const BUILT_IN_ADAPTERS: Record<string, PlatformAdapter> = {
+  chatgpt: {
+    version: ADAPTER_SCHEMA_VERSION,
+    inputSelectors: [
+      '#prompt-textarea',
+      'textarea[data-id="root"]',
+      'textarea[placeholder*="Message"]',
+      'textarea[placeholder*="message"]',
+      'textarea[placeholder*="Send"]',
+      'textarea[placeholder*="send"]',
+      'div[contenteditable="true"]',
+      'textarea'
+    ],
+    submitSelector: 'button[data-testid="send-button"]',
+    submitMethod: 'click',
+    fileInputSelector: 'input[type="file"]',
+    imageUpload: 'file-input',
+    readySelector: '#prompt-textarea, textarea',
+    insertMethod: 'prosemirror-paste',
+    urlTemplate: 'https://chatgpt.com/?q={{prompt}}',
+    responseSelector: 'div[data-message-author-role="assistant"]',
+    generatingSelector: 'button[data-testid="stop-button"]'
+  },
+  claude: {
+    version: ADAPTER_SCHEMA_VERSION,
+    inputSelectors: [
+      'div.ProseMirror[contenteditable="true"]',
+      'div[contenteditable="true"]',
+      'textarea[placeholder*="Talk to Claude"]',
+      'textarea[placeholder*="Message"]',
+      'textarea[placeholder*="message"]',
+      '.ProseMirror',
+      'textarea'
+    ],
+    submitSelector: 'button[aria-label="Send message"], button[aria-label="Send Message"]',
+    submitMethod: 'click',
+    fileInputSelector: 'input[type="file"]',
+    imageUpload: 'file-input',
+    readySelector: 'div[contenteditable="true"]',
+    insertMethod: 'prosemirror-paste',
+    responseSelector: '.font-claude-response, .font-claude-message',
+    generatingSelector: '[data-is-streaming="true"], button[aria-label="Stop response"]'
+  },
+  gemini: {
+    version: ADAPTER_SCHEMA_VERSION,
+    inputSelectors: [
+      'rich-textarea div[contenteditable="true"]',
+      'textarea[placeholder*="Enter a prompt here"]',
+      'textarea[placeholder*="Message Gemini"]',
+      'div[contenteditable="true"]',
+      'textarea[placeholder*="Ask Gemini"]',
+      'textarea'
+    ],
+    submitSelector: 'button[aria-label="Send message"]',
+    submitMethod: 'click',
+    fileInputSelector: 'input[type="file"]',
+    imageUpload: 'paste', // The upload input only exists after opening the upload menu
+    readySelector: 'rich-textarea, div[contenteditable="true"]',
+    insertMethod: 'contenteditable',
+    responseSelector: 'message-content',
+    generatingSelector: 'button[aria-label="Stop response"]'
+  }
+};
+
+/**
+ * Generic adapter for custom platforms without a user-defined adapter
+ */
+export const GENERIC_ADAPTER: PlatformAdapter = {
+  version: ADAPTER_SCHEMA_VERSION,
+  inputSelectors: [
+    // Generic AI chat interface selectors
+    'textarea[placeholder*="message"]',
+    'textarea[placeholder*="Message"]',
+    'textarea[placeholder*="chat"]',
+    'textarea[placeholder*="Chat"]',
+    'textarea[placeholder*="prompt"]',
+    'textarea[placeholder*="Prompt"]',
+    'textarea[placeholder*="ask"]',
+    'textarea[placeholder*="Ask"]',
+    'textarea[placeholder*="type"]',
+    'textarea[placeholder*="Type"]',
+    'div[contenteditable="true"]',
+    'textarea[data-testid*="input"]',
+    'textarea[data-testid*="message"]',
+    'textarea[role="textbox"]',
+    'div[role="textbox"]',
+    'textarea', // Last resort
+    'input[type="text"]' // Very last resort
+  ],
+  fileInputSelector: 'input[type="file"]',
+  insertMethod: 'value'
+};
+
+export interface AdapterValidationResult {
+  adapter?: PlatformAdapter;
+  error?: string;
+}
+
+/**
+ * Validate a user-supplied adapter definition (e.g. parsed from JSON in the options page)
+ */
+export function validateAdapter(raw: unknown): AdapterValidationResult {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'Adapter must be a JSON object' };
+  }
+
+  const candidate = raw as Record<string, unknown>;
+  const version = candidate.version ?? ADAPTER_SCHEMA_VERSION;
+
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { error: '"version" must be a positive integer' };
+  }
+
+  if (version > ADAPTER_SCHEMA_VERSION) {
+    return { error: `Adapter schema version ${version} is newer than supported version ${ADAPTER_SCHEMA_VERSION}` };
+  }
+
+  const inputSelectors = candidate.inputSelectors;
+  if (!Array.isArray(inputSelectors) || inputSelectors.length === 0 ||
+      !inputSelectors.every(s => typeof s === 'string' && s.trim())) {
+    return { error: '"inputSelectors" must be a non-empty list of CSS selectors' };
+  }
+
+  const insertMethod = candidate.insertMethod ?? 'value';
+  if (!INSERT_METHODS.includes(insertMethod as InsertMethod)) {
+    return { error: `"insertMethod" must be one of: ${INSERT_METHODS.join(', ')}` };
+  }
+
+  const submitMethod = candidate.submitMethod;
+  if (submitMethod !== undefined && !SUBMIT_METHODS.includes(submitMethod as SubmitMethod)) {
+    return { error: `"submitMethod" must be one of: ${SUBMIT_METHODS.join(', ')}` };
+  }
+
+  const imageUpload = candidate.imageUpload;
+  if (imageUpload !== undefined && !IMAGE_UPLOAD_METHODS.includes(imageUpload as ImageUploadMethod)) {
+    return { error: `"imageUpload" must be one of: ${IMAGE_UPLOAD_METHODS.join(', ')}` };
+  }
+
+  const optionalStrings = [
+    'submitSelector',
+    'fileInputSelector',
+    'readySelector',
+    'urlTemplate',
+    'responseSelector',
+    'generatingSelector'
+  ] as const;
+  for (const key of optionalStrings) {
+    if (candidate[key] !== undefined && typeof candidate[key] !== 'string') {
+      return { error: `"${key}" must be a string` };
+    }
+  }
+
+  if (typeof candidate.urlTemplate === 'string' && !candidate.urlTemplate.includes('{{prompt}}')) {
+    return { error: '"urlTemplate" must contain a {{prompt}} placeholder' };
+  }
+
+  const adapter: PlatformAdapter = {
+    version: ADAPTER_SCHEMA_VERSION,
+    inputSelectors: (inputSelectors as string[]).map(s => s.trim()),
+    insertMethod: insertMethod as InsertMethod
+  };
+
+  if (submitMethod !== undefined) {
+    adapter.submitMethod = submitMethod as SubmitMethod;
+  }
+
+  if (imageUpload !== undefined) {
+    adapter.imageUpload = imageUpload as ImageUploadMethod;
+  }
+
+  for (const key of optionalStrings) {
+    const value = candidate[key];
+    if (typeof value === 'string' && value.trim()) {
+      adapter[key] = value.trim();
+    }
+  }
+
+  return { adapter };
+}
+
+/**
+ * Resolve how screenshots are delivered to a platform, applying the default
+ */
+export function getImageUploadMethod(adapter: PlatformAdapter): ImageUploadMethod {
+  return adapter.imageUpload || (adapter.fileInputSelector ? 'file-input' : 'none');
+}
+
+const ORIGIN_PATTERN = /^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i;
+
+function getOrigin(url: string): string | undefined {
+  return url.trim().match(ORIGIN_PATTERN)?.[0].toLowerCase();
+}
+
+/**
+ * Build a deep link from an adapter's URL template, or null if the platform has none.
+ * Templates pointing away from the platform's own site are refused so the prompt can't leak elsewhere
+ */
+export function buildDeepLinkUrl(adapter: PlatformAdapter, prompt: string, platformUrl: string): string | null {
+  if (!adapter.urlTemplate) {
+    return null;
+  }
+
+  const origin = getOrigin(adapter.urlTemplate);
+  if (!origin || origin !== getOrigin(platformUrl)) {
+    console.warn('Ignoring a deep link template outside the platform site:', adapter.urlTemplate);
+    return null;
+  }
+
+  return adapter.urlTemplate.replace(/\{\{prompt\}\}/g, encodeURIComponent(prompt));
+}
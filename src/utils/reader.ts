@@ -0,0 +1,204 @@
+/**
+ * Reader-mode extraction
+ * Finds the main article of a page (Readability-style scoring) so URL mode can send the content
+ * of pages the model can't fetch itself: paywalled, intranet or logged-in pages
+ */
+
+import { htmlToMarkdown, type MarkdownOptions } from './markdown';
+
+export interface Article {
+  title: string;
+  byline?: string;
+  publishedAt?: string; // As found on the page, ISO when available
+  siteName?: string;
+  content: string; // Markdown
+}
+
+const CANDIDATE_SELECTOR = 'article, main, section, div, td, [role="main"]';
+const PARAGRAPH_SELECTOR = 'p, pre, blockquote, li, h2, h3';
+const MIN_PARAGRAPH_LENGTH = 25;
+
+// Class/id hints, as in Readability
+const POSITIVE_HINTS = /article|body|content|entry|hentry|main|page|post|story|text|blog/i;
+const NEGATIVE_HINTS = /comment|footer|sidebar|nav|menu|share|social|related|promo|sponsor|advert|\bads?\b|banner|masthead|header|cookie|popup|modal|subscribe|newsletter/i;
+
+// Page chrome removed from the article before it is converted
+const CLUTTER_SELECTOR = [
+  'script', 'style', 'noscript', 'iframe', 'form', 'nav', 'aside', 'footer', 'button', 'input', 'select',
+  '[role="navigation"]', '[role="complementary"]', '[aria-hidden="true"]', '[hidden]'
+].join(', ');
+
+/**
+ * Extract the main article, its title, byline, publish date and site name
+ * Returns null when the page has no recognizable article text
+ */
+export function extractArticle(doc: Document, markdownOptions: MarkdownOptions = {}): Article | null {
+  const root = findArticleRoot(doc);
+  if (!root) {
+    return null;
+  }
+
+  const clone = root.cloneNode(true) as Element;
+  clone.querySelectorAll(CLUTTER_SELECTOR).forEach(element => element.remove());
+  clone.querySelectorAll('*').forEach(element => {
+    if (element.parentNode && NEGATIVE_HINTS.test(getHints(element)) && !POSITIVE_HINTS.test(getHints(element))) {
+      element.remove();
+    }
+  });
+
+  const content = htmlToMarkdown(clone.innerHTML, markdownOptions);
+  if (!content) {
+    return null;
+  }
+
+  const title = getTitle(doc);
+
+  return {
+    title,
+    byline: getByline(doc),
+    publishedAt: getPublishedDate(doc),
+    siteName: getMeta(doc, 'og:site_name'),
+    // The title is sent separately, so drop a leading copy of it
+    content: content.replace(new RegExp(`^#+ ${escapeRegExp(title)}\\s*\\n+`), '')
+  };
+}
+
+/**
+ * Lay an article out as a document with the URL as its source
+ */
+export function formatArticle(article: Article, url: string): string {
+  const details = [
+    `Source: ${url}`,
+    article.siteName ? `Site: ${article.siteName}` : '',
+    article.byline ? `Author: ${article.byline}` : '',
+    article.publishedAt ? `Published: ${article.publishedAt}` : ''
+  ].filter(Boolean);
+
+  return `# ${article.title}\n\n${details.join('\n')}\n\n---\n\n${article.content}`;
+}
+
+/**
+ * Element holding the article: an explicit <article>/main when there is exactly one,
+ * otherwise the best-scoring container of paragraph text
+ */
+function findArticleRoot(doc: Document): Element | null {
+  const explicit = doc.querySelectorAll('article, [itemprop="articleBody"]');
+  if (explicit.length === 1 && textLength(explicit[0]) > MIN_PARAGRAPH_LENGTH * 4) {
+    return explicit[0];
+  }
+
+  const scores = new Map<Element, number>();
+
+  doc.body?.querySelectorAll(PARAGRAPH_SELECTOR).forEach(paragraph => {
+    const length = textLength(paragraph);
+    if (length < MIN_PARAGRAPH_LENGTH) return;
+
+    // Longer paragraphs with more commas read like prose
+    const score = 1 + (paragraph.textContent?.split(',').length || 0) + Math.min(3, Math.floor(length / 100));
+
+    // The parent gets the full score, the grandparent half
+    const parent = paragraph.parentElement?.closest(CANDIDATE_SELECTOR);
+    const grandparent = parent?.parentElement?.closest(CANDIDATE_SELECTOR);
+    if (parent) scores.set(parent, (scores.get(parent) ?? initialScore(parent)) + score);
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? initialScore(grandparent)) + score / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+
+  for (const [element, score] of scores) {
+    // Containers that are mostly links are navigation, not articles
+    const adjusted = score * (1 - linkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+
+  return best;
+}
+
+function initialScore(element: Element): number {
+  let score = element.matches('article, main, [role="main"]') ? 10 : element.matches('td') ? 3 : 0;
+  const hints = getHints(element);
+  if (POSITIVE_HINTS.test(hints)) score += 25;
+  if (NEGATIVE_HINTS.test(hints)) score -= 25;
+  return score;
+}
+
+function getHints(element: Element): string {
+  return `${element.getAttribute('class') || ''} ${element.id}`;
+}
+
+function textLength(element: Element): number {
+  return (element.textContent || '').replace(/\s+/g, ' ').trim().length;
+}
+
+function linkDensity(element: Element): number {
+  const total = textLength(element);
+  if (total === 0) return 1;
+
+  let linked = 0;
+  element.querySelectorAll('a').forEach(link => {
+    linked += textLength(link);
+  });
+  return linked / total;
+}
+
+function getMeta(doc: Document, name: string): string | undefined {
+  const meta = doc.querySelector(`meta[property="${name}"], meta[name="${name}"], meta[itemprop="${name}"]`);
+  return meta?.getAttribute('content')?.trim() || undefined;
+}
+
+/**
+ * Schema.org article data from JSON-LD, when the page provides it
+ */
+function getJsonLd(doc: Document): Record<string, any> | undefined {
+  for (const script of Array.from(doc.querySelectorAll('script[type="application/ld+json"]'))) {
+    try {
+      const data = JSON.parse(script.textContent || '');
+      const items: any[] = Array.isArray(data) ? data : data['@graph'] || [data];
+      const article = items.find(item => /Article|BlogPosting|Report/.test(String(item?.['@type'])));
+      if (article) return article;
+    } catch (error) {
+      // Malformed JSON-LD is common; the other sources still apply
+    }
+  }
+  return undefined;
+}
+
+function getTitle(doc: Document): string {
+  const headings = doc.querySelectorAll('h1');
+  return getMeta(doc, 'og:title') ||
+    getJsonLd(doc)?.headline ||
+    (headings.length === 1 ? headings[0].textContent?.trim() : '') ||
+    doc.title.trim() ||
+    'Untitled Page';
+}
+
+function getByline(doc: Document): string | undefined {
+  const author = getJsonLd(doc)?.author;
+  const jsonLdAuthor = Array.isArray(author)
+    ? author.map(item => item?.name || item).filter(name => typeof name === 'string').join(', ')
+    : typeof author === 'string' ? author : author?.name;
+
+  const element = doc.querySelector('[rel="author"], [itemprop="author"], .byline, .author');
+  return getMeta(doc, 'author') ||
+    getMeta(doc, 'article:author') ||
+    jsonLdAuthor ||
+    element?.textContent?.replace(/\s+/g, ' ').trim().replace(/^by\s+/i, '') ||
+    undefined;
+}
+
+function getPublishedDate(doc: Document): string | undefined {
+  const time = doc.querySelector('article time[datetime], time[itemprop="datePublished"], time[pubdate]');
+  return getMeta(doc, 'article:published_time') ||
+    getMeta(doc, 'datePublished') ||
+    getJsonLd(doc)?.datePublished ||
+    time?.getAttribute('datetime') ||
+    undefined;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,275 @@
+/**
+ * Local PII and secret redaction
+ * Finds personal data and credentials in outgoing text so the popup can mask or pseudonymize
+ * them before anything is copied or inserted into a platform. Under a managed policy that enforces
+ * redaction, the background masks whatever is still left on send
+ */
+
+export type FindingKind =
+  | 'privateKey'
+  | 'jwt'
+  | 'awsKey'
+  | 'apiKey'
+  | 'creditCard'
+  | 'iban'
+  | 'email'
+  | 'phone'
+  | 'custom';
+
+export type RedactionMode = 'mask' | 'pseudonymize';
+
+export interface Finding {
+  kind: FindingKind;
+  label: string; // Detector name shown in the review, the pattern's name for custom ones
+  start: number;
+  end: number;
+  value: string;
+}
+
+export interface CustomPattern {
+  label: string;
+  pattern: RegExp;
+}
+
+interface Detector {
+  kind: FindingKind;
+  label: string;
+  pattern: RegExp; // Global; when it has a capture group, only the group is reported
+  validate?: (value: string) => boolean;
+}
+
+// In priority order: when findings overlap, the earlier detector wins
+const DETECTORS: Detector[] = [
+  {
+    kind: 'privateKey',
+    label: 'Private key',
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----/g
+  },
+  {
+    kind: 'jwt',
+    label: 'JWT',
+    pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]+/g
+  },
+  {
+    kind: 'awsKey',
+    label: 'AWS key',
+    pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[A-Z0-9]{16}\b/g
+  },
+  {
+    kind: 'awsKey',
+    label: 'AWS key',
+    pattern: /aws_secret_access_key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})/gi
+  },
+  {
+    kind: 'apiKey',
+    label: 'API key',
+    // OpenAI/Anthropic, GitHub, GitLab, Slack, Google, Stripe
+    pattern: /\b(?:sk-[A-Za-z0-9_-]{20,}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,}|glpat-[A-Za-z0-9_-]{20,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[A-Za-z0-9_-]{35}|(?:sk|pk|rk)_live_[A-Za-z0-9]{20,})/g
+  },
+  {
+    kind: 'apiKey',
+    label: 'Secret',
+    // Values assigned to key, secret, token and password names
+    pattern: /\b(?:api[_-]?key|secret(?:[_-]?key)?|client[_-]?secret|access[_-]?token|auth[_-]?token|password|passwd|pwd)["']?\s*[:=]\s*["']?([^\s"',;]{8,})/gi
+  },
+  {
+    kind: 'creditCard',
+    label: 'Credit card',
+    // Unbroken, 4-4-4-4 or 4-6-5 groups; a looser shape would take in a following expiry or CVV and fail Luhn
+    pattern: /\b(?:\d{13,19}|\d{4}[ -]\d{4}[ -]\d{4}[ -]\d{1,4}|\d{4}[ -]\d{6}[ -]\d{4,5})\b/g,
+    validate: value => passesLuhn(value.replace(/\D/g, ''))
+  },
+  {
+    kind: 'iban',
+    label: 'IBAN',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+    validate: value => isValidIban(value)
+  },
+  {
+    kind: 'email',
+    label: 'Email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g
+  },
+  {
+    kind: 'phone',
+    label: 'Phone number',
+    pattern: /(?<![\w+.-])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]\d{2,4}){1,4}(?![\w.-]?\d)/g,
+    validate: value => {
+      const digits = value.replace(/\D/g, '').length;
+      // Not IP addresses, versions or dates
+      return digits >= 9 && digits <= 15 && !/^\d{1,3}(?:\.\d{1,3}){3}$/.test(value) && !/^\d{4}-\d{2}-\d{2}/.test(value);
+    }
+  }
+];
+
+/**
+ * Parse custom patterns from the options page, one per line as `Label = regex` or just `regex`.
+ * Blank lines and lines starting with # are skipped, invalid regexes are reported in `invalid`
+ */
+export function parseCustomPatterns(text: string): { patterns: CustomPattern[]; invalid: string[] } {
+  const patterns: CustomPattern[] = [];
+  const invalid: string[] = [];
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    const separator = trimmed.indexOf(' = ');
+    const label = separator > 0 ? trimmed.slice(0, separator).trim() : 'Custom pattern';
+    const source = separator > 0 ? trimmed.slice(separator + 3).trim() : trimmed;
+
+    try {
+      const pattern = new RegExp(source, 'g');
+      if (pattern.test('')) {
+        // A pattern that matches empty text would flag every position
+        invalid.push(trimmed);
+        continue;
+      }
+      patterns.push({ label, pattern });
+    } catch (error) {
+      invalid.push(trimmed);
+    }
+  }
+
+  return { patterns, invalid };
+}
+
+/**
+ * Find personal data and secrets in text, sorted by position and without overlaps
+ */
+export function detectSensitiveData(text: string, customPatterns: CustomPattern[] = []): Finding[] {
+  const detectors: Detector[] = [
+    ...DETECTORS,
+    ...customPatterns.map(({ label, pattern }) => ({ kind: 'custom' as const, label, pattern }))
+  ];
+
+  const findings: Finding[] = [];
+
+  for (const detector of detectors) {
+    const pattern = new RegExp(detector.pattern.source, detector.pattern.flags.includes('g') ? detector.pattern.flags : `${detector.pattern.flags}g`);
+
+    for (const match of text.matchAll(pattern)) {
+      const value = match[1] ?? match[0];
+      if (!value || (detector.validate && !detector.validate(value))) continue;
+
+      const start = (match.index ?? 0) + match[0].indexOf(value);
+      const end = start + value.length;
+
+      // Detectors run in priority order, so anything already found here wins
+      if (findings.some(finding => start < finding.end && end > finding.start)) continue;
+
+      findings.push({ kind: detector.kind, label: detector.label, start, end, value });
+    }
+  }
+
+  return findings.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Replace findings in text
+ * - mask: `[REDACTED EMAIL]`
+ * - pseudonymize: numbered placeholders (`[EMAIL_1]`); the same value always gets the same
+ *   placeholder, also across calls sharing `pseudonyms`, so the model can still tell values apart
+ */
+export function redactText(
+  text: string,
+  findings: Finding[],
+  mode: RedactionMode,
+  pseudonyms: Map<string, string> = new Map()
+): string {
+  let result = '';
+  let position = 0;
+
+  for (const finding of [...findings].sort((a, b) => a.start - b.start)) {
+    if (finding.start < position) continue;
+
+    const name = placeholderName(finding);
+    let replacement = `[REDACTED ${name}]`;
+
+    if (mode === 'pseudonymize') {
+      const key = `${name}\u0000${finding.value}`;
+      if (!pseudonyms.has(key)) {
+        const count = Array.from(pseudonyms.keys()).filter(existing => existing.startsWith(`${name}\u0000`)).length;
+        pseudonyms.set(key, `[${name}_${count + 1}]`);
+      }
+      replacement = pseudonyms.get(key)!;
+    }
+
+    result += text.slice(position, finding.start) + replacement;
+    position = finding.end;
+  }
+
+  return result + text.slice(position);
+}
+
+/**
+ * Mask whatever is left in a message's text and instructions. Placeholders from an earlier
+ * review aren't findings, so reviewed messages come through unchanged
+ */
+export function maskSensitiveFields<T extends { text?: string; instructions?: string }>(
+  message: T,
+  customPatterns: CustomPattern[] = []
+): T {
+  const masked = { ...message };
+
+  for (const field of ['text', 'instructions'] as const) {
+    const value = message[field];
+    if (!value) continue;
+
+    const findings = detectSensitiveData(value, customPatterns);
+    if (findings.length > 0) {
+      masked[field] = redactText(value, findings, 'mask') as T[typeof field];
+    }
+  }
+
+  return masked;
+}
+
+/**
+ * Count findings per label, e.g. "2 Email, 1 API key"
+ */
+export function summarizeFindings(findings: Finding[]): string {
+  const counts = new Map<string, number>();
+  findings.forEach(finding => counts.set(finding.label, (counts.get(finding.label) || 0) + 1));
+  return Array.from(counts, ([label, count]) => `${count} ${label}`).join(', ');
+}
+
+function placeholderName(finding: Finding): string {
+  return finding.label.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '') || 'SENSITIVE';
+}
+
+/**
+ * Luhn checksum used by payment card numbers
+ */
+export function passesLuhn(digits: string): boolean {
+  if (!/^\d{13,19}$/.test(digits)) return false;
+
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 check: country code, check digits and mod-97 of the rearranged number
+ */
+export function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = char >= 'A' ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
@@ -0,0 +1,120 @@
+/**
+ * Response relay
+ * Watches the platform tab for the answer and shows it in the page the prompt came from
+ */
+
+import { getPlatform, waitForPlatformResponse } from './ai-platforms';
+import { storageManager } from './storage';
+import { waitForTabToLoad } from './tabs';
+import type { AIResult } from './chatgpt';
+import type { RewriteResult } from '../response-overlay/rewrite';
+
+/**
+ * Wait for the platform tab to finish answering a send
+ * Returns null when the platform has no response selector or no answer arrived
+ */
+async function waitForAnswer(result: AIResult, platformId: string): Promise<{ platformName: string; text: string } | null> {
+  if (!result.success || !result.tabId || result.responseBaseline === undefined) {
+    return null;
+  }
+
+  const platform = await getPlatform(platformId);
+  if (!platform.adapter.responseSelector) {
+    console.log(`No response selector for ${platform.name}, not reading the answer`);
+    return null;
+  }
+
+  await waitForTabToLoad(result.tabId);
+  const response = await waitForPlatformResponse(result.tabId, platform, result.responseBaseline);
+
+  if (!response.text) {
+    console.warn(`No answer to read from ${platform.name}:`, response.error);
+    return null;
+  }
+
+  return { platformName: platform.name, text: response.text };
+}
+
+/**
+ * Wait for the answer to a send and show it in the source tab
+ * Returns false when no answer could be read
+ */
+export async function relayResponse(result: AIResult, platformId: string, sourceTabId: number): Promise<boolean> {
+  const answer = await waitForAnswer(result, platformId);
+  if (!answer) {
+    return false;
+  }
+
+  return showResponseOverlay(sourceTabId, answer.platformName, answer.text);
+}
+
+/**
+ * Replace the editable selection captured in the source tab with the answer ("rewrite in place")
+ * API answers are used directly; tab sends wait for the platform to finish.
+ * When the selection can no longer be replaced, the answer is shown in the overlay instead
+ */
+export async function rewriteSelection(result: AIResult, platformId: string, sourceTabId: number): Promise<RewriteResult> {
+  const answer = result.method === 'api'
+    ? (result.response ? { platformName: (await getPlatform(platformId)).name, text: result.response } : null)
+    : await waitForAnswer(result, platformId);
+
+  if (!answer) {
+    return { replaced: false, error: 'No answer could be read from the platform' };
+  }
+
+  let rewrite: RewriteResult;
+  try {
+    const { darkMode } = await storageManager.getSettings();
+
+    await chrome.scripting.executeScript({
+      target: { tabId: sourceTabId },
+      files: ['response-overlay.js']
+    });
+
+    const results = await chrome.scripting.executeScript({
+      target: { tabId: sourceTabId },
+      func: (data: { platformName: string; text: string; darkMode: boolean }) => {
+        return (window as any).applyAIRewrite?.(data);
+      },
+      args: [{ platformName: answer.platformName, text: answer.text.trim(), darkMode }]
+    });
+
+    rewrite = results?.[0]?.result || { replaced: false, error: 'The page did not respond' };
+  } catch (error) {
+    rewrite = { replaced: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+
+  if (!rewrite.replaced) {
+    console.warn('Rewrite in place failed, showing the answer instead:', rewrite.error);
+    await showResponseOverlay(sourceTabId, answer.platformName, answer.text);
+  }
+
+  return rewrite;
+}
+
+/**
+ * Inject the response overlay into a tab
+ */
+export async function showResponseOverlay(tabId: number, platformName: string, text: string): Promise<boolean> {
+  try {
+    const { darkMode } = await storageManager.getSettings();
+
+    await chrome.scripting.executeScript({
+      target: { tabId },
+      files: ['response-overlay.js']
+    });
+
+    await chrome.scripting.executeScript({
+      target: { tabId },
+      func: (data: { platformName: string; text: string; darkMode: boolean }) => {
+        (window as any).showAIResponseOverlay?.(data);
+      },
+      args: [{ platformName, text, darkMode }]
+    });
+
+    return true;
+  } catch (error) {
+    console.warn('Failed to show the answer in the source page:', error);
+    return false;
+  }
+}
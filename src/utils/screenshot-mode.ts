@@ -1,35 +1,104 @@
 /**
  * Isolated Screenshot Mode - completely separate from text functionality
- * Simple workflow: capture screenshot → copy to clipboard → open AI platform
+ * Simple workflow: capture screenshot → copy to clipboard → open AI platform → attach to its upload control
  */
 
-import { getAllPlatforms, getPlatform } from './ai-platforms';
+import { getAllPlatforms, getPlatform, uploadImageToPlatform } from './ai-platforms';
+import { waitForTabToLoad } from './tabs';
+import { storageManager } from './storage';
+import { cropImage, stitchImages, type ImageRegion, type ImageTile } from './image';
+
+/**
+ * What part of the page to capture
+ * - visible: the whole viewport
+ * - region: a rectangle the user drags on the page
+ * - full-page: the whole scrollable page, captured tile by tile and stitched
+ */
+export type ScreenshotCaptureMode = 'visible' | 'region' | 'full-page';
 
 export interface ScreenshotResult {
   success: boolean;
   error?: string;
   platform?: string;
+  method?: 'upload' | 'clipboard'; // How the image reached the platform
+  verified?: boolean; // For uploads: the platform showed the attachment
+  cancelled?: boolean; // The user dismissed the region selector or annotation editor
+}
+
+interface SelectedRegion extends ImageRegion {
+  viewportWidth: number;
+  devicePixelRatio: number;
+}
+
+interface PageMetrics {
+  scrollX: number;
+  scrollY: number;
+  scrollHeight: number;
+  viewportWidth: number;
+  viewportHeight: number;
+  devicePixelRatio: number;
+  scrollBehavior: string;
 }
 
+// Full-page capture limits
+const MAX_PAGE_HEIGHT = 20000; // CSS pixels
+const MAX_TILES = 30;
+const MAX_CANVAS_DIMENSION = 32000; // Image pixels; larger canvases fail to allocate
+const CAPTURE_INTERVAL = 550; // captureVisibleTab allows at most 2 calls per second
+
 /**
  * Capture screenshot and copy to clipboard, then open AI platform
  */
-export async function handleScreenshotMode(platformId: string = 'chatgpt'): Promise<ScreenshotResult> {
+export async function handleScreenshotMode(
+  platformId: string = 'chatgpt',
+  captureMode: ScreenshotCaptureMode = 'visible'
+): Promise<ScreenshotResult> {
   try {
-    console.log('🖼️ Starting isolated screenshot mode for platform:', platformId);
+    console.log('🖼️ Starting isolated screenshot mode for platform:', platformId, 'mode:', captureMode);
     
-    // Step 1: Capture screenshot
-    const screenshotData = await captureVisibleTab();
+    const [sourceTab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!sourceTab || !sourceTab.id) {
+      return { success: false, error: 'No active tab found' };
+    }
+    
+    // Step 1: Let the user pick a region (region mode only)
+    let region: SelectedRegion | null = null;
+    if (captureMode === 'region') {
+      region = await selectRegion(sourceTab.id);
+      if (!region) {
+        return { success: false, cancelled: true, error: 'Region selection cancelled' };
+      }
+    }
+    
+    // Step 2: Capture screenshot
+    let screenshotData = captureMode === 'full-page'
+      ? await captureFullPage(sourceTab.id, sourceTab.windowId)
+      : await captureVisibleTab(sourceTab.windowId);
     if (!screenshotData) {
       return { success: false, error: 'Failed to capture screenshot' };
     }
+    
+    if (region) {
+      const scale = await getCaptureScale(screenshotData, region.viewportWidth, region.devicePixelRatio);
+      screenshotData = await cropImage(screenshotData, region, scale);
+    }
     console.log('📸 Screenshot captured, size:', screenshotData.length);
     
-    // Step 2: Copy to clipboard via content script
+    // Step 2b: Let the user annotate the capture
+    const settings = await storageManager.getSettings();
+    if (settings.annotateScreenshots) {
+      const annotated = await annotateScreenshot(sourceTab.id, screenshotData);
+      if (!annotated) {
+        return { success: false, cancelled: true, error: 'Screenshot annotation cancelled' };
+      }
+      screenshotData = annotated;
+    }
+    
+    // Step 3: Copy to clipboard via content script
     let clipboardSuccess = await copyImageToClipboardViaContentScript(screenshotData);
     console.log('📋 Clipboard operation result:', clipboardSuccess);
     
-    // Step 3: Open AI platform and do clipboard operation there
+    // Step 4: Open AI platform
     const platform = await getPlatform(platformId);
     if (!platform) {
       return { success: false, error: 'Invalid platform selected' };
@@ -38,13 +107,25 @@ export async function handleScreenshotMode(platformId: string = 'chatgpt'): Prom
     const newTab = await chrome.tabs.create({ url: platform.url });
     console.log('🌐 Platform opened:', platform.name);
     
-    // Step 4: If clipboard failed in original context, try in the new platform tab
+    // Step 5: Attach the image to the platform's upload control
+    let unverifiedUpload = false;
+    if (newTab.id) {
+      await waitForTabToLoad(newTab.id);
+      
+      const upload = await uploadImageToPlatform(newTab.id, platform, screenshotData);
+      console.log('📎 Upload result:', upload);
+      
+      if (upload.uploaded && upload.verified) {
+        return { success: true, platform: platform.name, method: 'upload', verified: true };
+      }
+      // Not confirmed: keep the clipboard copy ready in case the platform didn't take it
+      unverifiedUpload = upload.uploaded;
+    }
+    
+    // Step 6: Clipboard fallback - if it failed in original context, try in the new platform tab
     if (!clipboardSuccess && newTab.id) {
       console.log('🔄 Clipboard failed in original context, trying in platform tab...');
       
-      // Wait for the platform tab to load properly
-      await waitForTabToLoad(newTab.id);
-      
       const platformClipboardSuccess = await copyImageToClipboardInPlatformTab(newTab.id, screenshotData);
       console.log('📋 Platform tab clipboard result:', platformClipboardSuccess);
       
@@ -53,10 +134,15 @@ export async function handleScreenshotMode(platformId: string = 'chatgpt'): Prom
       }
     }
     
+    if (unverifiedUpload) {
+      return { success: true, platform: platform.name, method: 'upload', verified: false };
+    }
+    
     // Return success with clipboard status
     return { 
       success: true, 
       platform: platform.name,
+      method: 'clipboard',
       error: clipboardSuccess ? undefined : 'Platform opened but clipboard copy may have failed - try manual upload'
     };
     
@@ -72,13 +158,12 @@ export async function handleScreenshotMode(platformId: string = 'chatgpt'): Prom
 /**
  * Capture visible tab as screenshot
  */
-async function captureVisibleTab(): Promise<string | null> {
+async function captureVisibleTab(windowId: number): Promise<string | null> {
   try {
     console.log('📸 Capturing visible tab...');
     
-    const dataUrl = await chrome.tabs.captureVisibleTab(undefined, {
-      format: 'png',
-      quality: 90
+    const dataUrl = await chrome.tabs.captureVisibleTab(windowId, {
+      format: 'png'
     });
     
     console.log('✅ Screenshot captured');
@@ -89,6 +174,302 @@ async function captureVisibleTab(): Promise<string | null> {
   }
 }
 
+/**
+ * Ratio between captured image pixels and CSS pixels
+ * Measured from the capture itself so browser zoom is handled too; devicePixelRatio is the fallback
+ */
+async function getCaptureScale(dataUrl: string, viewportWidth: number, devicePixelRatio: number): Promise<number> {
+  try {
+    const response = await fetch(dataUrl);
+    const bitmap = await createImageBitmap(await response.blob());
+    const scale = bitmap.width / viewportWidth;
+    bitmap.close();
+    
+    if (Number.isFinite(scale) && scale > 0) {
+      return scale;
+    }
+  } catch (error) {
+    console.warn('Could not measure capture scale:', error);
+  }
+  
+  return devicePixelRatio || 1;
+}
+
+/**
+ * Show a drag-to-select overlay in the page and resolve with the chosen rectangle
+ * Resolves null when the user presses Escape or clicks without dragging
+ */
+async function selectRegion(tabId: number): Promise<SelectedRegion | null> {
+  try {
+    const results = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: () => new Promise<SelectedRegion | null>((resolve) => {
+        const MIN_SIZE = 5;
+        
+        const host = document.createElement('div');
+        host.style.cssText = 'position: fixed; inset: 0; z-index: 2147483647;';
+        const root = host.attachShadow({ mode: 'closed' });
+        root.innerHTML = `
+          <style>
+            .overlay {
+              position: fixed;
+              inset: 0;
+              cursor: crosshair;
+              background: rgba(0, 0, 0, 0.25);
+              user-select: none;
+            }
+            .selection {
+              position: fixed;
+              display: none;
+              border: 2px solid #3b82f6;
+              background: rgba(59, 130, 246, 0.12);
+              box-shadow: 0 0 0 9999px rgba(0, 0, 0, 0.35);
+              box-sizing: border-box;
+            }
+            .hint {
+              position: fixed;
+              top: 16px;
+              left: 50%;
+              transform: translateX(-50%);
+              padding: 8px 14px;
+              border-radius: 6px;
+              background: rgba(17, 24, 39, 0.9);
+              color: white;
+              font: 13px -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+              pointer-events: none;
+            }
+          </style>
+          <div class="overlay"></div>
+          <div class="selection"></div>
+          <div class="hint">Drag to select a region · Esc to cancel</div>
+        `;
+        
+        const overlay = root.querySelector('.overlay') as HTMLElement;
+        const selection = root.querySelector('.selection') as HTMLElement;
+        let start: { x: number; y: number } | null = null;
+        let rect = { x: 0, y: 0, width: 0, height: 0 };
+        
+        const finish = (result: SelectedRegion | null) => {
+          document.removeEventListener('keydown', onKeydown, true);
+          host.remove();
+          
+          // Wait for the overlay to disappear from the rendered frame before capturing
+          requestAnimationFrame(() => requestAnimationFrame(() => resolve(result)));
+        };
+        
+        const onKeydown = (e: KeyboardEvent) => {
+          if (e.key === 'Escape') {
+            e.preventDefault();
+            e.stopPropagation();
+            finish(null);
+          }
+        };
+        
+        overlay.addEventListener('mousedown', (e) => {
+          e.preventDefault();
+          start = { x: e.clientX, y: e.clientY };
+          rect = { x: e.clientX, y: e.clientY, width: 0, height: 0 };
+          selection.style.display = 'block';
+        });
+        
+        overlay.addEventListener('mousemove', (e) => {
+          if (!start) return;
+          rect = {
+            x: Math.min(start.x, e.clientX),
+            y: Math.min(start.y, e.clientY),
+            width: Math.abs(e.clientX - start.x),
+            height: Math.abs(e.clientY - start.y)
+          };
+          selection.style.left = `${rect.x}px`;
+          selection.style.top = `${rect.y}px`;
+          selection.style.width = `${rect.width}px`;
+          selection.style.height = `${rect.height}px`;
+        });
+        
+        overlay.addEventListener('mouseup', () => {
+          if (!start) return;
+          start = null;
+          
+          if (rect.width < MIN_SIZE || rect.height < MIN_SIZE) {
+            finish(null);
+            return;
+          }
+          
+          finish({
+            ...rect,
+            viewportWidth: window.innerWidth,
+            devicePixelRatio: window.devicePixelRatio || 1
+          });
+        });
+        
+        document.addEventListener('keydown', onKeydown, true);
+        document.documentElement.appendChild(host);
+      })
+    });
+    
+    return (results?.[0]?.result as SelectedRegion | null) || null;
+  } catch (error) {
+    console.error('❌ Region selection failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Capture the whole page by scrolling through it and stitching the viewport captures
+ * The page's scroll position and any hidden fixed/sticky elements are restored afterwards
+ */
+async function captureFullPage(tabId: number, windowId: number): Promise<string | null> {
+  let metrics: PageMetrics | null = null;
+  
+  try {
+    console.log('📜 Capturing full page...');
+    
+    const [{ result }] = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: (): PageMetrics => {
+        const root = document.scrollingElement || document.documentElement;
+        const html = document.documentElement;
+        const scrollBehavior = html.style.scrollBehavior;
+        
+        // Smooth scrolling would make each jump land after the capture
+        html.style.scrollBehavior = 'auto';
+        
+        return {
+          scrollX: window.scrollX,
+          scrollY: window.scrollY,
+          scrollHeight: root.scrollHeight,
+          viewportWidth: window.innerWidth,
+          viewportHeight: window.innerHeight,
+          devicePixelRatio: window.devicePixelRatio || 1,
+          scrollBehavior
+        };
+      }
+    });
+    metrics = result as PageMetrics;
+    
+    const { viewportWidth, viewportHeight } = metrics;
+    let pageHeight = Math.min(metrics.scrollHeight, MAX_PAGE_HEIGHT, viewportHeight * MAX_TILES);
+    
+    const tiles: ImageTile[] = [];
+    let scale = metrics.devicePixelRatio;
+    let lastCaptureAt = 0;
+    
+    for (let i = 0; i === 0 || i * viewportHeight < pageHeight; i++) {
+      const targetY = Math.max(0, Math.min(i * viewportHeight, pageHeight - viewportHeight));
+      const y = await scrollPageTo(tabId, targetY, i > 0);
+      
+      const wait = CAPTURE_INTERVAL - (Date.now() - lastCaptureAt);
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+      
+      const dataUrl = await captureVisibleTab(windowId);
+      lastCaptureAt = Date.now();
+      if (!dataUrl) {
+        throw new Error(`Failed to capture page segment ${i + 1}`);
+      }
+      
+      if (i === 0) {
+        scale = await getCaptureScale(dataUrl, viewportWidth, metrics.devicePixelRatio);
+        pageHeight = Math.min(pageHeight, Math.floor(MAX_CANVAS_DIMENSION / scale));
+      }
+      
+      tiles.push({ dataUrl, y });
+    }
+    
+    if (tiles.length === 1) {
+      return tiles[0].dataUrl;
+    }
+    
+    console.log('🧩 Stitching', tiles.length, 'tiles, height:', pageHeight);
+    return await stitchImages(tiles, viewportWidth, pageHeight, scale);
+  } catch (error) {
+    console.error('❌ Full-page capture failed:', error);
+    return null;
+  } finally {
+    if (metrics) {
+      await restorePageAfterCapture(tabId, metrics);
+    }
+  }
+}
+
+/**
+ * Scroll the page and resolve with the actual scroll offset once the frame is painted
+ */
+async function scrollPageTo(tabId: number, top: number, hideFixed: boolean): Promise<number> {
+  const [{ result }] = await chrome.scripting.executeScript({
+    target: { tabId },
+    func: (top: number, hideFixed: boolean) => new Promise<number>((resolve) => {
+      if (hideFixed) {
+        // Fixed and sticky elements (headers, cookie bars) would otherwise repeat on every tile
+        document.querySelectorAll<HTMLElement>('body *').forEach((element) => {
+          if (element.hasAttribute('data-bridgeai-hidden')) return;
+          
+          const position = getComputedStyle(element).position;
+          if (position === 'fixed' || position === 'sticky') {
+            element.setAttribute('data-bridgeai-hidden', element.style.visibility);
+            element.style.setProperty('visibility', 'hidden', 'important');
+          }
+        });
+      }
+      
+      window.scrollTo(0, top);
+      requestAnimationFrame(() => requestAnimationFrame(() => resolve(window.scrollY)));
+    }),
+    args: [top, hideFixed]
+  });
+  
+  return (result as number) ?? top;
+}
+
+/**
+ * Undo everything captureFullPage changed on the page
+ */
+async function restorePageAfterCapture(tabId: number, metrics: PageMetrics): Promise<void> {
+  try {
+    await chrome.scripting.executeScript({
+      target: { tabId },
+      func: (scrollX: number, scrollY: number, scrollBehavior: string) => {
+        document.querySelectorAll<HTMLElement>('[data-bridgeai-hidden]').forEach((element) => {
+          element.style.visibility = element.getAttribute('data-bridgeai-hidden') || '';
+          element.removeAttribute('data-bridgeai-hidden');
+        });
+        
+        window.scrollTo(scrollX, scrollY);
+        document.documentElement.style.scrollBehavior = scrollBehavior;
+      },
+      args: [metrics.scrollX, metrics.scrollY, metrics.scrollBehavior]
+    });
+  } catch (error) {
+    console.warn('Could not restore page after full-page capture:', error);
+  }
+}
+
+/**
+ * Open the annotation editor in the page and resolve with the edited image
+ * Resolves null if the user cancels; falls back to the original image if the editor can't be shown
+ */
+async function annotateScreenshot(tabId: number, dataUrl: string): Promise<string | null> {
+  try {
+    await chrome.scripting.executeScript({
+      target: { tabId },
+      files: ['annotator.js']
+    });
+    
+    const [{ result }] = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: (dataUrl: string) => (window as any).showScreenshotAnnotator?.(dataUrl) ?? dataUrl,
+      args: [dataUrl]
+    });
+    
+    console.log('✏️ Annotation finished:', result ? 'saved' : 'cancelled');
+    return (result as string | null) ?? null;
+  } catch (error) {
+    console.warn('Annotation editor unavailable, sending original screenshot:', error);
+    return dataUrl;
+  }
+}
+
 /**
  * Copy image to clipboard via content script (works in page context)
  */
@@ -150,37 +531,6 @@ async function copyImageToClipboardViaContentScript(dataUrl: string): Promise<bo
   }
 }
 
-/**
- * Wait for a tab to finish loading
- */
-async function waitForTabToLoad(tabId: number): Promise<void> {
-  return new Promise((resolve) => {
-    const checkTab = async () => {
-      try {
-        const tab = await chrome.tabs.get(tabId);
-        if (tab.status === 'complete') {
-          console.log('✅ Tab loaded successfully');
-          resolve();
-        } else {
-          console.log('⏳ Tab still loading, waiting...');
-          setTimeout(checkTab, 500);
-        }
-      } catch (error) {
-        console.error('❌ Error checking tab status:', error);
-        resolve(); // Resolve anyway to prevent hanging
-      }
-    };
-    
-    checkTab();
-    
-    // Fallback timeout after 10 seconds
-    setTimeout(() => {
-      console.log('⏰ Tab load timeout, proceeding anyway');
-      resolve();
-    }, 10000);
-  });
-}
-
 /**
  * Copy image to clipboard via the AI platform tab (bypasses PDF restrictions)
  */
@@ -0,0 +1,84 @@
+/**
+ * Settings validation
+ * One check per setting, shared by storage reads, settings import and the managed policy so a
+ * value is accepted or rejected the same way wherever it comes from
+ */
+
+import type { ExtensionSettings } from './storage';
+import { SELECTION_FORMATS } from './text-format';
+import { METADATA_FIELDS } from './page-metadata';
+
+type SettingValidator = (value: unknown) => boolean;
+
+const isBoolean: SettingValidator = value => typeof value === 'boolean';
+
+const isString: SettingValidator = value => typeof value === 'string';
+
+const isStringList: SettingValidator = value => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isOneOf = (options: readonly unknown[]): SettingValidator => value => options.includes(value);
+
+const isNumberBetween = (min: number, max: number): SettingValidator => value =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+// Typed against every setting, so a new setting without a check doesn't compile
+const SETTING_VALIDATORS: Record<keyof ExtensionSettings, SettingValidator> = {
+  autoSend: isBoolean,
+  defaultInstructions: isString,
+  maxTextLength: isNumberBetween(1000, 16384),
+  longTextMode: isOneOf(['truncate', 'chunk']),
+  platformModels: value =>
+    Boolean(value) && typeof value === 'object' && !Array.isArray(value) &&
+    Object.values(value as Record<string, unknown>).every(model => typeof model === 'string'),
+  darkMode: isBoolean,
+  saveInstructions: isBoolean,
+  defaultPlatform: isString,
+  annotateScreenshots: isBoolean,
+  selectionFormat: isOneOf(SELECTION_FORMATS),
+  historyEnabled: isBoolean,
+  historyMaxEntries: isNumberBetween(10, 1000),
+  historyRetentionDays: isNumberBetween(0, 365),
+  multiPlatformSend: isBoolean,
+  fanOutPlatforms: isStringList,
+  tileFanOutWindows: isBoolean,
+  transport: isOneOf(['tab', 'api']),
+  apiEndpoint: isString,
+  apiModel: isString,
+  relayResponses: isBoolean,
+  sendPageContent: isBoolean,
+  urlMetadataFields: value => isStringList(value) && (value as string[]).every(field => METADATA_FIELDS.some(option => option.field === field)),
+  cleanUrls: isBoolean,
+  urlCleanupRules: isString,
+  reviewSensitiveData: isBoolean,
+  redactionPatterns: isString
+};
+
+/**
+ * Whether a value is acceptable for a setting; false for unknown settings
+ */
+export function isValidSetting(key: string, value: unknown): boolean {
+  return key in SETTING_VALIDATORS && SETTING_VALIDATORS[key as keyof ExtensionSettings](value);
+}
+
+/**
+ * Split raw settings into the valid ones and the names of known settings with invalid values.
+ * Unknown keys (other storage entries, settings of later versions) are ignored
+ */
+export function validateSettings(raw: unknown): { valid: Partial<ExtensionSettings>; invalid: string[] } {
+  const valid: Record<string, unknown> = {};
+  const invalid: string[] = [];
+
+  if (raw && typeof raw === 'object') {
+    for (const [key, value] of Object.entries(raw)) {
+      if (!(key in SETTING_VALIDATORS)) continue;
+
+      if (isValidSetting(key, value)) {
+        valid[key] = value;
+      } else {
+        invalid.push(key);
+      }
+    }
+  }
+
+  return { valid: valid as Partial<ExtensionSettings>, invalid };
+}
@@ -0,0 +1,115 @@
+/**
+ * Per-site rules
+ * URL patterns that block the extension, force a platform or instructions, or ask for
+ * confirmation before sending. Evaluated when the popup or screenshot mode opens and again on send
+ */
+
+export interface SiteRule {
+  id: string;
+  pattern: string; // See matchesSitePattern
+  block: boolean; // Nothing is captured or sent from matching pages
+  platform?: string; // Forced platform ID
+  instructions?: string; // Default instructions on matching pages
+  confirm: boolean; // Ask before anything is sent
+}
+
+/**
+ * What the rules matching a page add up to
+ */
+export interface SitePolicy {
+  blocked: boolean;
+  platform?: string; // From the first matching rule that sets one
+  instructions?: string; // From the first matching rule that sets them
+  confirm: boolean;
+  patterns: string[]; // Patterns of the matching rules, for messages
+}
+
+const URL_PARTS = /^([a-z][a-z0-9+.-]*):\/\/(?:[^/?#@]*@)?([^/?#:]*)(?::(\d+))?([^?#]*)/i;
+
+const DEFAULT_PORTS: Record<string, string> = { http: '80', https: '443' };
+
+/**
+ * Whether a URL matches a site pattern: `host[/path]`, optionally with a scheme
+ * - `*.example.com` matches example.com and all its subdomains
+ * - `*` in the host or path matches anything (`jira.*`, `example.com/hr/*`)
+ * - A path matches itself and everything below it (`example.com/hr` matches /hr/payroll)
+ * - A port (`localhost:3000`) only matches that port; without one, any port matches
+ */
+export function matchesSitePattern(url: string, pattern: string): boolean {
+  const target = url.match(URL_PARTS);
+  const rule = pattern.trim().match(/^(?:([a-z*][a-z0-9+.*-]*):\/\/)?([^/]+)(\/.*)?$/i);
+  if (!target || !rule) {
+    return false;
+  }
+
+  const [, scheme, host, port, path] = target;
+  const [, ruleScheme, ruleHostAndPort, rulePath] = rule;
+  const [, ruleHost, rulePort] = ruleHostAndPort.match(/^(.*?)(?::(\d+))?$/)!;
+
+  if (ruleScheme && !globToRegExp(ruleScheme).test(scheme)) {
+    return false;
+  }
+
+  const hostPattern = ruleHost.startsWith('*.')
+    ? new RegExp(`^(?:.+\\.)?${globToSource(ruleHost.slice(2))}$`, 'i')
+    : globToRegExp(ruleHost);
+  if (!hostPattern.test(host)) {
+    return false;
+  }
+
+  if (rulePort && rulePort !== (port || DEFAULT_PORTS[scheme.toLowerCase()])) {
+    return false;
+  }
+
+  // `/hr`, `/hr/` and `/hr/*` all mean /hr and everything below it
+  const basePath = (rulePath || '').replace(/(?:\/\*?)+$/, '');
+  if (!basePath) {
+    return true;
+  }
+
+  return new RegExp(`^${globToSource(basePath)}(?:/.*)?$`, 'i').test(path || '/');
+}
+
+/**
+ * Combine the rules matching a URL: any block or confirm applies, the first forced platform
+ * and instructions win
+ */
+export function evaluateSiteRules(url: string, rules: SiteRule[]): SitePolicy {
+  const matching = rules.filter(rule => matchesSitePattern(url, rule.pattern));
+
+  return {
+    blocked: matching.some(rule => rule.block),
+    platform: matching.find(rule => rule.platform)?.platform,
+    instructions: matching.find(rule => rule.instructions)?.instructions,
+    confirm: matching.some(rule => rule.confirm),
+    patterns: matching.map(rule => rule.pattern)
+  };
+}
+
+/**
+ * Check a rule before it is saved; returns an error message or null
+ */
+export function validateSiteRule(rule: Omit<SiteRule, 'id'>): string | null {
+  const pattern = rule.pattern.trim();
+  if (!pattern) {
+    return 'Enter a URL pattern';
+  }
+
+  if (!/^(?:[a-z*][a-z0-9+.*-]*:\/\/)?[^/\s]+(?:\/\S*)?$/i.test(pattern)) {
+    return 'Patterns look like example.com, *.example.com or example.com/path/*';
+  }
+
+  if (!rule.block && !rule.platform && !rule.instructions?.trim() && !rule.confirm) {
+    return 'Choose what the rule does';
+  }
+
+  return null;
+}
+
+function globToSource(glob: string): string {
+  return glob.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+}
+
+function globToRegExp(glob: string): RegExp {
+  return new RegExp(`^${globToSource(glob)}$`, 'i');
+}
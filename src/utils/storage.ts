@@ -3,14 +3,63 @@
  * Uses Chrome sync storage with local fallback
  */
 
+import type { PlatformAdapter } from './platform-adapters';
+import type { SelectionFormat } from './text-format';
+import type { EnvelopeConfig } from './envelopes';
+import type { MetadataField } from './page-metadata';
+import type { SiteRule } from './site-rules';
+import {
+  EMPTY_POLICY,
+  applyManagedPolicy,
+  getLockedSettingKeys,
+  isManagedTemplate,
+  normalizeManagedPolicy,
+  type ManagedPolicy
+} from './managed-policy';
+import { validateSettings } from './settings-validation';
+import { SETTINGS_VERSION, diffMigratedSettings, migrateSettings } from './migrations';
+
+/**
+ * How prompts are delivered
+ * - tab: open the platform's web page and insert the prompt
+ * - api: post to an OpenAI-compatible endpoint and stream the answer into the popup
+ */
+export type SendTransport = 'tab' | 'api';
+
+/**
+ * What happens to text longer than maxTextLength
+ * - truncate: cut it at a word boundary
+ * - chunk: send it in numbered parts into the same conversation (web tabs only)
+ */
+export type LongTextMode = 'truncate' | 'chunk';
+
 export interface ExtensionSettings {
   autoSend: boolean;
   defaultInstructions: string;
-  maxTextLength: number;
-  defaultModel: string;
+  maxTextLength: number; // Per message; longer text is truncated or split depending on longTextMode
+  longTextMode: LongTextMode;
+  platformModels: Record<string, string>; // Model per platform ID for ChatGPT links and token estimates, see getPlatformModel
   darkMode: boolean;
   saveInstructions: boolean;
   defaultPlatform: string; // Allow any platform ID (built-in or custom)
+  annotateScreenshots: boolean; // Open the annotation editor before a screenshot is sent
+  selectionFormat: SelectionFormat; // Last format chosen in the popup
+  historyEnabled: boolean;
+  historyMaxEntries: number;
+  historyRetentionDays: number; // 0 = keep until the entry limit is reached
+  multiPlatformSend: boolean; // Popup sends to every platform in fanOutPlatforms
+  fanOutPlatforms: string[];
+  tileFanOutWindows: boolean; // Open fan-out platforms in tiled windows instead of tabs
+  transport: SendTransport;
+  apiEndpoint: string; // OpenAI-compatible base URL; the API key is kept in local storage only
+  apiModel: string;
+  relayResponses: boolean; // Show the platform's answer in the page the prompt came from
+  sendPageContent: boolean; // URL mode sends the extracted article instead of only the URL
+  urlMetadataFields: MetadataField[]; // Page metadata attached in URL mode
+  cleanUrls: boolean; // Strip tracking parameters and tokens from sent URLs, see utils/url-sanitizer.ts
+  urlCleanupRules: string; // User rules, one per line, applied on top of the built-in ones
+  reviewSensitiveData: boolean; // Check outgoing text for personal data and secrets, see utils/redaction.ts
+  redactionPatterns: string; // Custom detectors, one `Label = regex` per line
 }
 
 export interface CustomPlatform {
@@ -20,14 +69,62 @@ export interface CustomPlatform {
   url: string;
 }
 
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  instructions: string; // May contain {{variables}}, see utils/templates.ts
+}
+
+export const DEFAULT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'summarize',
+    name: 'Summarize',
+    instructions: 'Summarize the following text in a few bullet points.'
+  },
+  {
+    id: 'review-code',
+    name: 'Review this code',
+    instructions: 'Review this code from {{url}}. Point out bugs, edge cases and readability issues.'
+  },
+  {
+    id: 'translate-ja',
+    name: 'Translate to Japanese',
+    instructions: 'Translate the following text to Japanese.'
+  },
+  {
+    id: 'explain',
+    name: 'Explain',
+    instructions: 'Explain the following text from "{{title}}" in simple terms.'
+  }
+];
+
 export const DEFAULT_SETTINGS: ExtensionSettings = {
   autoSend: false,
   defaultInstructions: '',
   maxTextLength: 8192,
-  defaultModel: 'gpt-4o',
+  longTextMode: 'truncate',
+  platformModels: { chatgpt: 'gpt-4o' },
   darkMode: false,
   saveInstructions: false,
   defaultPlatform: 'chatgpt',
+  annotateScreenshots: false,
+  selectionFormat: 'text',
+  historyEnabled: true,
+  historyMaxEntries: 200,
+  historyRetentionDays: 30,
+  multiPlatformSend: false,
+  fanOutPlatforms: ['chatgpt', 'claude', 'gemini'],
+  tileFanOutWindows: false,
+  transport: 'tab',
+  apiEndpoint: 'http://localhost:11434/v1',
+  apiModel: 'llama3.1',
+  relayResponses: false,
+  sendPageContent: false,
+  urlMetadataFields: [],
+  cleanUrls: true,
+  urlCleanupRules: '',
+  reviewSensitiveData: false,
+  redactionPatterns: '',
 };
 
 class StorageManager {
@@ -35,17 +132,25 @@ class StorageManager {
   private readonly DEBOUNCE_DELAY = 300; // ms
 
   /**
-   * Get settings from storage
+   * Get settings from storage, with values locked by the managed policy applied
    */
   async getSettings(): Promise<ExtensionSettings> {
+    const [settings, policy] = await Promise.all([this.getUserSettings(), this.getManagedPolicy()]);
+    return applyManagedPolicy(settings, policy);
+  }
+
+  /**
+   * Get the user's own settings from storage
+   */
+  private async getUserSettings(): Promise<ExtensionSettings> {
     try {
       const result = await chrome.storage.sync.get(DEFAULT_SETTINGS);
-      return { ...DEFAULT_SETTINGS, ...result };
+      return this.withValidSettings(result);
     } catch (error) {
       console.warn('Sync storage unavailable, using local storage:', error);
       try {
         const result = await chrome.storage.local.get(DEFAULT_SETTINGS);
-        return { ...DEFAULT_SETTINGS, ...result };
+        return this.withValidSettings(result);
       } catch (localError) {
         console.error('Storage unavailable:', localError);
         return DEFAULT_SETTINGS;
@@ -53,6 +158,17 @@ class StorageManager {
     }
   }
 
+  /**
+   * Stored values over the defaults; invalid ones fall back to the default
+   */
+  private withValidSettings(stored: Record<string, unknown>): ExtensionSettings {
+    const { valid, invalid } = validateSettings(stored);
+    if (invalid.length > 0) {
+      console.warn('Ignoring invalid stored settings:', invalid);
+    }
+    return { ...DEFAULT_SETTINGS, ...valid };
+  }
+
   /**
    * Save settings to storage (debounced)
    */
@@ -63,6 +179,12 @@ class StorageManager {
       }
 
       this.debounceTimer = setTimeout(async () => {
+        // Locked settings keep the user's own value underneath the policy
+        const locked = getLockedSettingKeys(await this.getManagedPolicy());
+        settings = Object.fromEntries(
+          Object.entries(settings).filter(([key]) => !locked.includes(key as keyof ExtensionSettings))
+        );
+
         try {
           await chrome.storage.sync.set(settings);
           resolve();
@@ -87,11 +209,49 @@ class StorageManager {
     try {
       await chrome.storage.sync.clear();
       await chrome.storage.local.clear();
+      await chrome.storage.sync.set({ settingsVersion: SETTINGS_VERSION });
     } catch (error) {
       console.error('Failed to reset settings:', error);
     }
   }
 
+  /**
+   * Bring stored settings up to the current schema version; runs when the extension is installed
+   * or updated. Settings may sit in sync or, after a sync failure, in local storage, so both are migrated
+   */
+  async migrateSettings(): Promise<void> {
+    for (const [name, area] of [['sync', chrome.storage.sync], ['local', chrome.storage.local]] as const) {
+      try {
+        const stored = await area.get(null);
+        const version = typeof stored.settingsVersion === 'number' ? stored.settingsVersion : 0;
+        if (version >= SETTINGS_VERSION) continue;
+
+        const { settingsVersion: _version, ...settings } = stored;
+        const { changed, removed } = diffMigratedSettings(settings, migrateSettings(settings, version));
+        if (removed.length > 0) {
+          await area.remove(removed);
+        }
+        await area.set({ ...changed, settingsVersion: SETTINGS_VERSION });
+        console.log(`Migrated ${name} settings from version ${version} to ${SETTINGS_VERSION}`);
+      } catch (error) {
+        console.error(`Failed to migrate ${name} settings:`, error);
+      }
+    }
+  }
+
+  /**
+   * Get the policy an administrator set through chrome.storage.managed
+   */
+  async getManagedPolicy(): Promise<ManagedPolicy> {
+    try {
+      const result = await chrome.storage.managed.get(null);
+      return normalizeManagedPolicy(result);
+    } catch (error) {
+      // Managed storage is missing outside Chrome and read-only profiles may reject the call
+      return EMPTY_POLICY;
+    }
+  }
+
   /**
    * Listen for storage changes
    */
@@ -114,45 +274,76 @@ class StorageManager {
   }
 
   /**
-   * Get custom platforms from storage
+   * Read a list or map the user edits. A copy in local storage only exists while the value
+   * doesn't fit in sync storage (see saveCollection), so it wins over what sync still holds
    */
-  async getCustomPlatforms(): Promise<CustomPlatform[]> {
+  private async getCollection<T>(key: string, fallback: T): Promise<T> {
     try {
-      const result = await chrome.storage.sync.get(['customPlatforms']);
-      return result.customPlatforms || [];
-    } catch (error) {
-      console.warn('Sync storage unavailable, using local storage:', error);
-      try {
-        const result = await chrome.storage.local.get(['customPlatforms']);
-        return result.customPlatforms || [];
-      } catch (localError) {
-        console.error('Storage unavailable:', localError);
-        return [];
+      const local = await chrome.storage.local.get([key]);
+      if (local[key] !== undefined) {
+        return local[key];
       }
+    } catch (error) {
+      console.warn('Local storage unavailable:', error);
+    }
+
+    try {
+      const result = await chrome.storage.sync.get([key]);
+      return result[key] || fallback;
+    } catch (error) {
+      console.error('Storage unavailable:', error);
+      return fallback;
     }
   }
 
   /**
-   * Save custom platforms to storage
+   * Save a list or map to sync storage. One that outgrows a sync item (8 KB) or can't be synced
+   * is kept in local storage until a save fits again
    */
-  async saveCustomPlatforms(platforms: CustomPlatform[]): Promise<void> {
+  private async saveCollection(key: string, value: unknown): Promise<void> {
     try {
-      await chrome.storage.sync.set({ customPlatforms: platforms });
+      await chrome.storage.sync.set({ [key]: value });
     } catch (error) {
       console.warn('Sync storage unavailable, using local storage:', error);
       try {
-        await chrome.storage.local.set({ customPlatforms: platforms });
+        await chrome.storage.local.set({ [key]: value });
       } catch (localError) {
         console.error('Storage unavailable:', localError);
         throw localError;
       }
+      return;
+    }
+
+    // Synced again, so an older local copy must not hide it
+    try {
+      await chrome.storage.local.remove(key);
+    } catch (error) {
+      console.warn('Failed to remove the local copy:', error);
     }
   }
 
+  /**
+   * Get custom platforms from storage
+   */
+  async getCustomPlatforms(): Promise<CustomPlatform[]> {
+    return this.getCollection('customPlatforms', []);
+  }
+
+  /**
+   * Save custom platforms to storage
+   */
+  async saveCustomPlatforms(platforms: CustomPlatform[]): Promise<void> {
+    await this.saveCollection('customPlatforms', platforms);
+  }
+
   /**
    * Add a custom platform
    */
   async addCustomPlatform(platform: Omit<CustomPlatform, 'id'>): Promise<void> {
+    if (!(await this.getManagedPolicy()).allowCustomPlatforms) {
+      throw new Error('Custom platforms are turned off by your organization');
+    }
+
     const platforms = await this.getCustomPlatforms();
     const newPlatform: CustomPlatform = {
       id: `custom_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -163,12 +354,31 @@ class StorageManager {
   }
 
   /**
-   * Remove a custom platform
+   * Remove a custom platform, and every setting and site rule that sends to it
    */
   async removeCustomPlatform(id: string): Promise<void> {
     const platforms = await this.getCustomPlatforms();
     const filtered = platforms.filter(p => p.id !== id);
     await this.saveCustomPlatforms(filtered);
+    await this.removeAdapterOverride(id);
+    await this.removeEnvelopeOverride(id);
+
+    const settings = await this.getUserSettings();
+    const updates: Partial<ExtensionSettings> = {};
+    if (settings.defaultPlatform === id) {
+      updates.defaultPlatform = DEFAULT_SETTINGS.defaultPlatform;
+    }
+    if (settings.fanOutPlatforms.includes(id)) {
+      updates.fanOutPlatforms = settings.fanOutPlatforms.filter(platformId => platformId !== id);
+    }
+    if (Object.keys(updates).length > 0) {
+      await this.saveSettings(updates);
+    }
+
+    const rules = await this.getSiteRules();
+    if (rules.some(rule => rule.platform === id)) {
+      await this.saveSiteRules(rules.map(rule => rule.platform === id ? { ...rule, platform: undefined } : rule));
+    }
   }
 
   /**
@@ -182,6 +392,202 @@ class StorageManager {
       await this.saveCustomPlatforms(platforms);
     }
   }
+
+  /**
+   * Get user-edited platform adapters, keyed by platform ID
+   */
+  async getAdapterOverrides(): Promise<Record<string, PlatformAdapter>> {
+    return this.getCollection('adapterOverrides', {});
+  }
+
+  /**
+   * Save user-edited platform adapters
+   */
+  async saveAdapterOverrides(overrides: Record<string, PlatformAdapter>): Promise<void> {
+    await this.saveCollection('adapterOverrides', overrides);
+  }
+
+  /**
+   * Set the adapter override for a platform
+   */
+  async setAdapterOverride(platformId: string, adapter: PlatformAdapter): Promise<void> {
+    const overrides = await this.getAdapterOverrides();
+    await this.saveAdapterOverrides({ ...overrides, [platformId]: adapter });
+  }
+
+  /**
+   * Remove the adapter override for a platform (reverts to the default adapter)
+   */
+  async removeAdapterOverride(platformId: string): Promise<void> {
+    const overrides = await this.getAdapterOverrides();
+    if (platformId in overrides) {
+      const { [platformId]: _removed, ...rest } = overrides;
+      await this.saveAdapterOverrides(rest);
+    }
+  }
+
+  /**
+   * Get user-chosen message envelopes, keyed by platform ID
+   */
+  async getEnvelopeOverrides(): Promise<Record<string, EnvelopeConfig>> {
+    return this.getCollection('envelopeOverrides', {});
+  }
+
+  /**
+   * Save user-chosen message envelopes
+   */
+  async saveEnvelopeOverrides(overrides: Record<string, EnvelopeConfig>): Promise<void> {
+    await this.saveCollection('envelopeOverrides', overrides);
+  }
+
+  /**
+   * Set the message envelope for a platform
+   */
+  async setEnvelopeOverride(platformId: string, envelope: EnvelopeConfig): Promise<void> {
+    const overrides = await this.getEnvelopeOverrides();
+    await this.saveEnvelopeOverrides({ ...overrides, [platformId]: envelope });
+  }
+
+  /**
+   * Remove the envelope override for a platform (reverts to the platform default)
+   */
+  async removeEnvelopeOverride(platformId: string): Promise<void> {
+    const overrides = await this.getEnvelopeOverrides();
+    if (platformId in overrides) {
+      const { [platformId]: _removed, ...rest } = overrides;
+      await this.saveEnvelopeOverrides(rest);
+    }
+  }
+
+  /**
+   * Get the API key for the direct API transport
+   * Never synced: it stays on this device
+   */
+  async getApiKey(): Promise<string> {
+    try {
+      const result = await chrome.storage.local.get(['apiKey']);
+      return result.apiKey || '';
+    } catch (error) {
+      console.error('Storage unavailable:', error);
+      return '';
+    }
+  }
+
+  /**
+   * Save the API key for the direct API transport
+   */
+  async saveApiKey(apiKey: string): Promise<void> {
+    try {
+      await chrome.storage.local.set({ apiKey });
+    } catch (error) {
+      console.error('Failed to save API key:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get prompt templates: the managed policy's first, then the user's library
+   */
+  async getTemplates(): Promise<PromptTemplate[]> {
+    const [policy, templates] = await Promise.all([this.getManagedPolicy(), this.getUserTemplates()]);
+    return [...policy.templates, ...templates];
+  }
+
+  /**
+   * Get the user's prompt templates from storage (defaults until the user edits the library)
+   */
+  private async getUserTemplates(): Promise<PromptTemplate[]> {
+    return this.getCollection('promptTemplates', DEFAULT_TEMPLATES);
+  }
+
+  /**
+   * Save prompt templates to storage; managed templates are never stored
+   */
+  async saveTemplates(templates: PromptTemplate[]): Promise<void> {
+    templates = templates.filter(template => !isManagedTemplate(template));
+
+    await this.saveCollection('promptTemplates', templates);
+  }
+
+  /**
+   * Add a prompt template
+   */
+  async addTemplate(template: Omit<PromptTemplate, 'id'>): Promise<void> {
+    const templates = await this.getTemplates();
+    const newTemplate: PromptTemplate = {
+      id: `template_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      ...template
+    };
+    await this.saveTemplates([...templates, newTemplate]);
+  }
+
+  /**
+   * Remove a prompt template
+   */
+  async removeTemplate(id: string): Promise<void> {
+    const templates = await this.getTemplates();
+    await this.saveTemplates(templates.filter(t => t.id !== id));
+  }
+
+  /**
+   * Update a prompt template
+   */
+  async updateTemplate(id: string, updates: Partial<Omit<PromptTemplate, 'id'>>): Promise<void> {
+    const templates = await this.getTemplates();
+    const index = templates.findIndex(t => t.id === id);
+    if (index >= 0) {
+      const updated = [...templates];
+      updated[index] = { ...updated[index], ...updates };
+      await this.saveTemplates(updated);
+    }
+  }
+
+  /**
+   * Get per-site rules from storage
+   */
+  async getSiteRules(): Promise<SiteRule[]> {
+    return this.getCollection('siteRules', []);
+  }
+
+  /**
+   * Save per-site rules to storage
+   */
+  async saveSiteRules(rules: SiteRule[]): Promise<void> {
+    await this.saveCollection('siteRules', rules);
+  }
+
+  /**
+   * Add a per-site rule
+   */
+  async addSiteRule(rule: Omit<SiteRule, 'id'>): Promise<void> {
+    const rules = await this.getSiteRules();
+    const newRule: SiteRule = {
+      id: `site_rule_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      ...rule
+    };
+    await this.saveSiteRules([...rules, newRule]);
+  }
+
+  /**
+   * Remove a per-site rule
+   */
+  async removeSiteRule(id: string): Promise<void> {
+    const rules = await this.getSiteRules();
+    await this.saveSiteRules(rules.filter(rule => rule.id !== id));
+  }
+
+  /**
+   * Update a per-site rule
+   */
+  async updateSiteRule(id: string, updates: Partial<Omit<SiteRule, 'id'>>): Promise<void> {
+    const rules = await this.getSiteRules();
+    const index = rules.findIndex(rule => rule.id === id);
+    if (index >= 0) {
+      const updated = [...rules];
+      updated[index] = { ...updated[index], ...updates };
+      await this.saveSiteRules(updated);
+    }
+  }
 }
 
-export const storageManager = new StorageManager(); 
\ No newline at end of file
+export const storageManager = new StorageManager();
\ No newline at end of file
@@ -0,0 +1,46 @@
+/**
+ * Tab utilities shared by the text and screenshot workflows
+ */
+
+/**
+ * Wait for a tab to finish loading
+ * Resolves true once the tab reports status "complete", false on timeout or error
+ */
+export async function waitForTabToLoad(tabId: number, timeout: number = 10000): Promise<boolean> {
+  return new Promise((resolve) => {
+    let settled = false;
+    let pollTimer: ReturnType<typeof setTimeout> | null = null;
+    
+    const finish = (loaded: boolean) => {
+      if (settled) return;
+      settled = true;
+      if (pollTimer) clearTimeout(pollTimer);
+      clearTimeout(fallbackTimer);
+      resolve(loaded);
+    };
+    
+    const checkTab = async () => {
+      try {
+        const tab = await chrome.tabs.get(tabId);
+        if (tab.status === 'complete') {
+          console.log('✅ Tab loaded successfully');
+          finish(true);
+        } else if (!settled) {
+          console.log('⏳ Tab still loading, waiting...');
+          pollTimer = setTimeout(checkTab, 500);
+        }
+      } catch (error) {
+        console.error('❌ Error checking tab status:', error);
+        finish(false); // Resolve anyway to prevent hanging
+      }
+    };
+    
+    // Fallback timeout
+    const fallbackTimer = setTimeout(() => {
+      console.log('⏰ Tab load timeout, proceeding anyway');
+      finish(false);
+    }, timeout);
+    
+    checkTab();
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * Prompt template utilities
+ * Expands {{variables}} in instructions before the message is formatted
+ */
+
+import { getLocale } from './i18n';
+
+export interface TemplateVariables {
+  selection: string;
+  url: string;
+  title: string;
+  date: string;
+  language: string;
+}
+
+export const TEMPLATE_VARIABLE_NAMES: (keyof TemplateVariables)[] = [
+  'selection',
+  'url',
+  'title',
+  'date',
+  'language'
+];
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Replace known {{variables}} in a template; unknown ones are left untouched
+ */
+export function expandTemplate(template: string, variables: Partial<TemplateVariables>): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) => {
+    // Only own keys count: {{constructor}} and friends stay as typed
+    const value = Object.prototype.hasOwnProperty.call(variables, name)
+      ? variables[name as keyof TemplateVariables]
+      : undefined;
+    return value !== undefined ? value : match;
+  });
+}
+
+/**
+ * Check whether a template references a given variable
+ */
+export function templateUsesVariable(template: string, name: keyof TemplateVariables): boolean {
+  return Array.from(template.matchAll(VARIABLE_PATTERN)).some(match => match[1] === name);
+}
+
+/**
+ * Build template variables from the current page (runs in the page context)
+ */
+export function buildTemplateVariables(selection: string, url: string = window.location.href): TemplateVariables {
+  return {
+    selection,
+    url,
+    title: document.title,
+    date: new Date().toLocaleDateString(),
+    language: getLocale()
+  };
+}
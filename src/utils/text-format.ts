@@ -0,0 +1,60 @@
+/**
+ * Selection formatting shared by the background capture and the popup
+ */
+
+import { htmlToMarkdown, type MarkdownOptions } from './markdown';
+
+/**
+ * How the captured selection is sent
+ * - text: the flattened selection text
+ * - markdown: the selection HTML converted to Markdown
+ * - html: the raw selection HTML
+ */
+export type SelectionFormat = 'text' | 'markdown' | 'html';
+
+export const SELECTION_FORMATS: SelectionFormat[] = ['text', 'markdown', 'html'];
+
+export interface TruncatedText {
+  text: string;
+  truncated: boolean;
+}
+
+/**
+ * Truncate text to maxLength, preferring to cut at a word boundary
+ */
+export function truncateText(text: string, maxLength: number): TruncatedText {
+  if (text.length <= maxLength) {
+    return { text, truncated: false };
+  }
+
+  const truncated = text.substring(0, maxLength);
+  const lastSpace = truncated.lastIndexOf(' ');
+
+  if (lastSpace > maxLength * 0.8) {
+    return { text: truncated.substring(0, lastSpace) + '...', truncated: true };
+  }
+
+  return { text: truncated + '...', truncated: true };
+}
+
+/**
+ * Render a captured selection in the requested format
+ * Falls back to plain text when there is no HTML (e.g. selections inside form fields)
+ * and for code, which is fenced as a whole when the message is built
+ */
+export function formatSelection(
+  selection: { text: string; html: string; isCode?: boolean },
+  format: SelectionFormat,
+  maxLength: number,
+  markdownOptions: MarkdownOptions = {}
+): TruncatedText {
+  let content = selection.text;
+
+  if (format !== 'text' && !selection.isCode && selection.html.trim()) {
+    content = format === 'markdown'
+      ? htmlToMarkdown(selection.html, markdownOptions) || selection.text
+      : selection.html.trim();
+  }
+
+  return truncateText(content, maxLength);
+}
@@ -0,0 +1,175 @@
+/**
+ * Token estimation
+ * Approximates how many tokens a prompt uses without shipping a tokenizer, and how much of a
+ * model's context window (and, for API models, how much money) that is
+ */
+
+/**
+ * BPE vocabulary family the estimate is calibrated against
+ * - cl100k: GPT-3.5/GPT-4 and a reasonable stand-in for most other models
+ * - o200k: GPT-4o family; larger vocabulary, fewer tokens for non-English text
+ */
+export type TokenEncoding = 'cl100k' | 'o200k';
+
+export interface ModelProfile {
+  name: string;
+  encoding: TokenEncoding;
+  contextWindow: number; // Tokens
+  inputCostPerMillion?: number; // USD per million input tokens, for API models with a known price
+}
+
+export interface TokenUsage {
+  tokens: number;
+  ratio: number; // Share of the context window, 1 = full
+  fits: boolean;
+  cost?: number; // USD
+}
+
+interface EncodingCalibration {
+  charsPerToken: number; // Latin letters per token beyond the first token of a long word
+  cjkTokensPerChar: number;
+  otherCharsPerToken: number; // Non-Latin, non-CJK letters (Cyrillic, Greek, Arabic, ...)
+}
+
+const CALIBRATION: Record<TokenEncoding, EncodingCalibration> = {
+  cl100k: { charsPerToken: 4, cjkTokensPerChar: 1, otherCharsPerToken: 2 },
+  o200k: { charsPerToken: 4.5, cjkTokensPerChar: 0.8, otherCharsPerToken: 3 }
+};
+
+// Same split as the GPT pre-tokenizer: contractions, words with their leading space, digit runs, punctuation, whitespace
+const PRE_TOKENIZER = /'(?:[sdmt]|ll|ve|re)| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+/gu;
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+const SHORT_WORD = 8; // Common words up to this length (with the leading space) are a single token
+
+/**
+ * Known models; versioned or tagged IDs (gpt-4o-2024-08-06, llama3.1:8b) match by prefix
+ */
+export const MODEL_PROFILES: Record<string, ModelProfile> = {
+  'gpt-4o': { name: 'GPT-4o', encoding: 'o200k', contextWindow: 128000, inputCostPerMillion: 2.5 },
+  'gpt-4o-mini': { name: 'GPT-4o mini', encoding: 'o200k', contextWindow: 128000, inputCostPerMillion: 0.15 },
+  'gpt-4-turbo': { name: 'GPT-4 Turbo', encoding: 'cl100k', contextWindow: 128000, inputCostPerMillion: 10 },
+  'gpt-4': { name: 'GPT-4', encoding: 'cl100k', contextWindow: 8192, inputCostPerMillion: 30 },
+  'gpt-3.5-turbo': { name: 'GPT-3.5 Turbo', encoding: 'cl100k', contextWindow: 16385, inputCostPerMillion: 0.5 },
+  'llama3.1': { name: 'Llama 3.1', encoding: 'cl100k', contextWindow: 128000 },
+  'llama3': { name: 'Llama 3', encoding: 'cl100k', contextWindow: 8192 },
+  'mistral': { name: 'Mistral', encoding: 'cl100k', contextWindow: 32768 },
+  'qwen2.5': { name: 'Qwen 2.5', encoding: 'cl100k', contextWindow: 32768 }
+};
+
+/**
+ * Web platforms that don't let the extension pick a model
+ */
+const PLATFORM_PROFILES: Record<string, ModelProfile> = {
+  claude: { name: 'Claude', encoding: 'cl100k', contextWindow: 200000 },
+  gemini: { name: 'Gemini', encoding: 'o200k', contextWindow: 1000000 }
+};
+
+export const DEFAULT_MODEL = 'gpt-4o';
+
+const FALLBACK_CONTEXT_WINDOW = 8192; // Conservative for unknown (often local) models
+
+/**
+ * Profile for a model ID, matching the longest known prefix; unknown models get a conservative profile
+ */
+export function getModelProfile(model: string): ModelProfile {
+  const id = model.trim().toLowerCase();
+  const match = Object.keys(MODEL_PROFILES)
+    .filter(key => id === key || id.startsWith(`${key}-`) || id.startsWith(`${key}:`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match
+    ? MODEL_PROFILES[match]
+    : { name: model.trim() || 'Unknown model', encoding: 'cl100k', contextWindow: FALLBACK_CONTEXT_WINDOW };
+}
+
+/**
+ * Profile for a send to a web platform; ChatGPT and custom platforms use the selected model
+ */
+export function getPlatformModelProfile(platformId: string, model: string): ModelProfile {
+  return PLATFORM_PROFILES[platformId] || getModelProfile(model);
+}
+
+/**
+ * Whether the model for a platform is the user's choice (ChatGPT and custom platforms)
+ */
+export function platformUsesModel(platformId: string): boolean {
+  return !(platformId in PLATFORM_PROFILES);
+}
+
+/**
+ * Model chosen for a platform in settings.platformModels
+ */
+export function getPlatformModel(platformModels: Record<string, string>, platformId: string): string {
+  return platformModels[platformId] || DEFAULT_MODEL;
+}
+
+/**
+ * Estimate the token count of a text
+ * An approximation of the real tokenizer, close enough for context-window checks
+ */
+export function estimateTokens(text: string, encoding: TokenEncoding = 'cl100k'): number {
+  const calibration = CALIBRATION[encoding];
+  let tokens = 0;
+
+  for (const [chunk] of text.matchAll(PRE_TOKENIZER)) {
+    tokens += estimateChunk(chunk, calibration);
+  }
+
+  return Math.ceil(tokens);
+}
+
+function estimateChunk(chunk: string, calibration: EncodingCalibration): number {
+  const first = chunk.trimStart().charAt(0);
+
+  if (!first) {
+    // Whitespace: runs of spaces and newlines merge into few tokens
+    return Math.max(1, Math.ceil(chunk.length / 4));
+  }
+
+  if (/\p{N}/u.test(first)) {
+    return Math.ceil(chunk.trim().length / 3); // Digits are split in groups of up to three
+  }
+
+  if (!/\p{L}/u.test(first)) {
+    return Math.max(1, Math.ceil(chunk.trim().length / 2));
+  }
+
+  const cjkCount = chunk.match(CJK_CHAR)?.length || 0;
+  if (cjkCount > 0) {
+    return cjkCount * calibration.cjkTokensPerChar + Math.ceil((chunk.trim().length - cjkCount) / calibration.otherCharsPerToken);
+  }
+
+  if (!/^[\x00-\x7f]*$/.test(chunk)) {
+    return Math.max(1, Math.ceil(chunk.trim().length / calibration.otherCharsPerToken));
+  }
+
+  return chunk.length <= SHORT_WORD ? 1 : 1 + Math.ceil((chunk.length - SHORT_WORD) / calibration.charsPerToken);
+}
+
+/**
+ * Estimate a prompt's share of the model's context window and its input cost
+ */
+export function estimateUsage(text: string, profile: ModelProfile): TokenUsage {
+  const tokens = estimateTokens(text, profile.encoding);
+  const ratio = tokens / profile.contextWindow;
+
+  return {
+    tokens,
+    ratio,
+    fits: ratio <= 1,
+    cost: profile.inputCostPerMillion !== undefined ? (tokens / 1000000) * profile.inputCostPerMillion : undefined
+  };
+}
+
+/**
+ * Compact count for display: 950, 12.3K, 1M
+ */
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1000000) {
+    return `${parseFloat((tokens / 1000000).toFixed(1))}M`;
+  }
+  if (tokens >= 1000) {
+    return `${parseFloat((tokens / 1000).toFixed(1))}K`;
+  }
+  return String(tokens);
+}
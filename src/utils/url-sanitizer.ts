@@ -0,0 +1,169 @@
+/**
+ * URL sanitizer
+ * Strips tracking parameters, session tokens and credentials from URLs before they are sent
+ * to a third-party chat, and normalizes what is left
+ */
+
+import type { ExtensionSettings } from './storage';
+
+/**
+ * One parsed rule line. Syntax, one rule per line:
+ * - `param` strips the query parameter on every site; `*` is a wildcard (`utm_*`)
+ * - `host: param` only applies on that host and its subdomains (`amazon.*: ref`)
+ * - `!param` keeps the parameter even when another rule strips it
+ * - Lines starting with # are comments
+ */
+export interface UrlRule {
+  host?: RegExp; // Every host when missing
+  param: RegExp;
+  keep: boolean;
+}
+
+export const BUILT_IN_URL_RULES: string[] = [
+  // Campaign and click IDs
+  'utm_*', 'fbclid', 'gclid', 'gclsrc', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'ttclid',
+  'li_fat_id', 'igshid', 'mc_cid', 'mc_eid', '_ga', '_gl', '_hsenc', '_hsmi', '__hstc', '__hssc', '__hsfp',
+  'mkt_tok', 'vero_id', 'oly_enc_id', 'oly_anon_id', 'rb_clickid', 's_cid', 'ref_src', 'ref_url',
+  // Sessions, tokens and signed-URL credentials
+  'sid', 'session', 'sessionid', 'session_id', 'jsessionid', 'phpsessid', 'token', 'access_token', 'id_token',
+  'refresh_token', 'auth', 'auth_token', 'api_key', 'apikey', 'x-amz-credential', 'x-amz-signature',
+  'x-amz-security-token',
+  // Site-specific share and referral IDs
+  'amazon.*: ref', 'amazon.*: pf_rd_*', 'amazon.*: pd_rd_*', 'amazon.*: _encoding',
+  'youtube.com: si', 'youtu.be: si', 'youtube.com: pp', 'open.spotify.com: si', 'x.com: s', 'x.com: t',
+  'twitter.com: s', 'twitter.com: t', 'instagram.com: igsh', 'linkedin.com: trk', 'linkedin.com: trackingId'
+];
+
+/**
+ * Parse one rule line; null for blank lines, comments and invalid rules
+ */
+export function parseUrlRule(line: string): UrlRule | null {
+  const text = line.trim();
+  if (!text || text.startsWith('#')) {
+    return null;
+  }
+
+  const separator = text.indexOf(':');
+  const host = separator >= 0 ? text.slice(0, separator).trim() : '';
+  let param = (separator >= 0 ? text.slice(separator + 1) : text).trim();
+
+  const keep = param.startsWith('!');
+  if (keep) {
+    param = param.slice(1).trim();
+  }
+
+  if (!param || /[\s=&?#/]/.test(param) || (separator >= 0 && !/^[a-z0-9.*-]+$/i.test(host))) {
+    return null;
+  }
+
+  return {
+    host: host ? new RegExp(`^(?:.+\\.)?${globToPattern(host)}$`, 'i') : undefined,
+    param: new RegExp(`^${globToPattern(param)}$`, 'i'),
+    keep
+  };
+}
+
+/**
+ * Parse rule text, one rule per line
+ */
+export function parseUrlRules(lines: string[]): UrlRule[] {
+  return lines.map(parseUrlRule).filter((rule): rule is UrlRule => rule !== null);
+}
+
+/**
+ * Lines of user rule text that are neither rules, comments nor blank
+ */
+export function findInvalidUrlRules(text: string): string[] {
+  return text.split('\n').filter(line => line.trim() && !line.trim().startsWith('#') && !parseUrlRule(line));
+}
+
+/**
+ * Built-in and user rules for these settings; none when cleanup is off
+ */
+export function getUrlRules(settings: Pick<ExtensionSettings, 'cleanUrls' | 'urlCleanupRules'>): UrlRule[] {
+  if (!settings.cleanUrls) {
+    return [];
+  }
+
+  return parseUrlRules([...BUILT_IN_URL_RULES, ...settings.urlCleanupRules.split('\n')]);
+}
+
+/**
+ * Remove matching query (and query-like fragment) parameters, credentials, path session IDs
+ * and text fragments from an http(s) URL. Anything else is returned unchanged
+ */
+export function sanitizeUrl(url: string, rules: UrlRule[]): string {
+  if (rules.length === 0) {
+    return url;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return url;
+  }
+
+  const applicable = rules.filter(rule => !rule.host || rule.host.test(parsed.hostname));
+
+  parsed.username = '';
+  parsed.password = '';
+  parsed.pathname = parsed.pathname.replace(/;jsessionid=[^/]*/gi, '');
+  parsed.search = filterParams(parsed.search.slice(1), applicable);
+
+  // #:~:text= directives, and fragments carrying parameters (OAuth implicit flow tokens)
+  let hash = parsed.hash.slice(1).replace(/:~:.*$/, '');
+  if (hash.includes('=')) {
+    hash = filterParams(hash, applicable);
+  }
+  parsed.hash = hash;
+
+  return parsed.href;
+}
+
+/**
+ * Sanitize every http(s) URL in plain text
+ */
+export function sanitizeUrlsInText(text: string, rules: UrlRule[]): string {
+  if (rules.length === 0) {
+    return text;
+  }
+
+  return text.replace(/https?:\/\/[^\s<>"'`)\]]+/gi, match => {
+    // Sentence punctuation after a URL is not part of it
+    const trailing = match.match(/[.,;:!?]+$/)?.[0] || '';
+    return sanitizeUrl(match.slice(0, match.length - trailing.length), rules) + trailing;
+  });
+}
+
+/**
+ * Drop matching parameters from a query string, keeping the others exactly as encoded
+ */
+function filterParams(query: string, rules: UrlRule[]): string {
+  return query
+    .split('&')
+    .filter(pair => {
+      if (!pair) return false;
+
+      const name = decodeParam(pair.split('=')[0]);
+      const matching = rules.filter(rule => rule.param.test(name));
+      return matching.length === 0 || matching.some(rule => rule.keep);
+    })
+    .join('&');
+}
+
+function decodeParam(name: string): string {
+  try {
+    return decodeURIComponent(name.replace(/\+/g, ' '));
+  } catch {
+    return name;
+  }
+}
+
+function globToPattern(glob: string): string {
+  return glob.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+}
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for the screenshot annotator's rendering
+ */
+
+import { renderAnnotations, type Annotation } from '../../src/annotator/annotator';
+
+const SIZE = 10;
+
+interface Pixels {
+  pixels: number[]; // Brightness per pixel, 0 = black
+}
+
+/**
+ * Just enough of a 2D context to render blurs and redactions on a grid of brightness values.
+ * The blur filter averages each pixel with its neighbours
+ */
+function createContext(): CanvasRenderingContext2D & Pixels {
+  const state = { clip: null as null | { x: number; y: number; width: number; height: number }, filter: 'none', fillStyle: '#000000' };
+  const stack: typeof state[] = [];
+  const pendingRect: { x: number; y: number; width: number; height: number }[] = [];
+  const inClip = (index: number) => {
+    const x = index % SIZE;
+    const y = Math.floor(index / SIZE);
+    return !state.clip || (x >= state.clip.x && x < state.clip.x + state.clip.width && y >= state.clip.y && y < state.clip.y + state.clip.height);
+  };
+
+  const ctx: any = {
+    pixels: new Array(SIZE * SIZE).fill(255),
+    save: () => stack.push({ ...state }),
+    restore: () => Object.assign(state, stack.pop()),
+    beginPath: () => pendingRect.splice(0),
+    rect: (x: number, y: number, width: number, height: number) => pendingRect.push({ x, y, width, height }),
+    clip: () => { state.clip = pendingRect[0]; },
+    clearRect: () => ctx.pixels.fill(0),
+    fillRect: (x: number, y: number, width: number, height: number) => {
+      ctx.pixels = ctx.pixels.map((value: number, index: number) => {
+        const px = index % SIZE;
+        const py = Math.floor(index / SIZE);
+        const covered = px >= x && px < x + width && py >= y && py < y + height && inClip(index);
+        return covered ? (state.fillStyle === '#000000' ? 0 : 255) : value;
+      });
+    },
+    drawImage: (source: Pixels) => {
+      const input = [...source.pixels];
+      ctx.pixels = ctx.pixels.map((value: number, index: number) => {
+        if (!inClip(index)) return value;
+        if (state.filter === 'none') return input[index];
+
+        const x = index % SIZE;
+        const y = Math.floor(index / SIZE);
+        const neighbours = [[0, 0], [1, 0], [-1, 0], [0, 1], [0, -1]]
+          .map(([dx, dy]) => [x + dx, y + dy])
+          .filter(([nx, ny]) => nx >= 0 && nx < SIZE && ny >= 0 && ny < SIZE)
+          .map(([nx, ny]) => input[ny * SIZE + nx]);
+        return neighbours.reduce((sum, n) => sum + n, 0) / neighbours.length;
+      });
+    }
+  };
+  Object.defineProperty(ctx, 'fillStyle', { get: () => state.fillStyle, set: value => { state.fillStyle = value; } });
+  Object.defineProperty(ctx, 'filter', { get: () => state.filter, set: value => { state.filter = value; } });
+  ctx.canvas = { width: SIZE, height: SIZE, get pixels() { return ctx.pixels; } };
+  return ctx;
+}
+
+const screenshot = { pixels: new Array(SIZE * SIZE).fill(200) } as unknown as CanvasImageSource;
+
+const redact: Annotation = { tool: 'redact', color: '#000000', width: 3, from: { x: 2, y: 2 }, to: { x: 6, y: 6 } };
+const blur: Annotation = { tool: 'blur', color: '#000000', width: 3, from: { x: 0, y: 0 }, to: { x: 8, y: 8 } };
+
+function redactedPixels(ctx: Pixels): number[] {
+  return ctx.pixels.filter((_, index) => {
+    const x = index % SIZE;
+    const y = Math.floor(index / SIZE);
+    return x >= 2 && x < 6 && y >= 2 && y < 6;
+  });
+}
+
+describe('Annotator Rendering', () => {
+  it('should keep a redacted region opaque when a later blur overlaps it', () => {
+    const ctx = createContext();
+
+    renderAnnotations(ctx, screenshot, [redact, blur]);
+
+    expect(redactedPixels(ctx).every(value => value === 0)).toBe(true);
+  });
+
+  it('should keep a redacted region opaque when it is drawn over an earlier blur', () => {
+    const ctx = createContext();
+
+    renderAnnotations(ctx, screenshot, [blur, redact]);
+
+    expect(redactedPixels(ctx).every(value => value === 0)).toBe(true);
+  });
+
+  it('should blur the screenshot outside redacted regions', () => {
+    const ctx = createContext();
+
+    renderAnnotations(ctx, screenshot, [redact, blur]);
+
+    // Next to the redaction, the blur mixes in black rather than the original content
+    expect(ctx.pixels[1 * SIZE + 3]).toBeLessThan(200);
+    expect(ctx.pixels[9 * SIZE + 9]).toBe(200);
+  });
+});
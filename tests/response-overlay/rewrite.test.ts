@@ -0,0 +1,76 @@
+/**
+ * Unit tests for rewrite in place
+ */
+
+import { RewriteManager } from '../../src/response-overlay/rewrite';
+
+const data = { platformName: 'ChatGPT', text: 'Bonjour' };
+
+describe('Rewrite in place', () => {
+  let field: HTMLTextAreaElement;
+  let onInput: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // jsdom has no execCommand; returning false takes the native setter path pages fall back to
+    (document as any).execCommand = jest.fn(() => false);
+
+    document.body.innerHTML = '<textarea></textarea>';
+    field = document.querySelector('textarea')!;
+    field.value = 'Say Hello to everyone';
+    onInput = jest.fn();
+    field.addEventListener('input', onInput);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete (document as any).execCommand;
+    document.body.innerHTML = '';
+  });
+
+  it('should replace the remembered range in a text field', () => {
+    const result = new RewriteManager().apply({ element: field, originalText: 'Hello', start: 4, end: 9 }, data);
+
+    expect(result).toEqual({ replaced: true });
+    expect(field.value).toBe('Say Bonjour to everyone');
+    expect([field.selectionStart, field.selectionEnd]).toEqual([4, 11]);
+    expect(onInput).toHaveBeenCalled();
+  });
+
+  it('should find the original text when the field was edited meanwhile', () => {
+    field.value = 'Please say Hello to everyone';
+
+    const result = new RewriteManager().apply({ element: field, originalText: 'Hello', start: 4, end: 9 }, data);
+
+    expect(result).toEqual({ replaced: true });
+    expect(field.value).toBe('Please say Bonjour to everyone');
+  });
+
+  it('should not touch a field whose text is gone', () => {
+    field.value = 'Say Hi to everyone';
+
+    const result = new RewriteManager().apply({ element: field, originalText: 'Hello', start: 4, end: 9 }, data);
+
+    expect(result).toEqual({ replaced: false, error: 'The selected text was changed after sending' });
+    expect(field.value).toBe('Say Hi to everyone');
+  });
+
+  it('should refuse a field that left the page', () => {
+    field.remove();
+
+    const result = new RewriteManager().apply({ element: field, originalText: 'Hello', start: 4, end: 9 }, data);
+
+    expect(result).toEqual({ replaced: false, error: 'The original text field is no longer on the page' });
+  });
+
+  it('should restore the previous value on undo', () => {
+    const manager = new RewriteManager();
+    manager.apply({ element: field, originalText: 'Hello', start: 4, end: 9 }, data);
+
+    // The toast's shadow root is closed, so reach the button through the manager
+    (manager as any).shadowRoot.getElementById('undo-btn').click();
+
+    expect(field.value).toBe('Say Hello to everyone');
+    expect(document.getElementById('bridgeai-rewrite-shadow-host')).toBeNull();
+  });
+});
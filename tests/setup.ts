@@ -26,6 +26,7 @@ const mockChrome = {
   },
   tabs: {
     query: jest.fn(),
+    get: jest.fn(),
     create: jest.fn(),
     remove: jest.fn(),
     update: jest.fn(),
@@ -43,6 +44,9 @@ const mockChrome = {
       remove: jest.fn(),
       clear: jest.fn(),
     },
+    managed: {
+      get: jest.fn(),
+    },
     onChanged: {
       addListener: jest.fn(),
     },
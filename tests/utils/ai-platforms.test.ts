@@ -0,0 +1,183 @@
+/**
+ * Unit tests for AI platform page scripting
+ */
+
+import {
+  AI_PLATFORMS,
+  injectTextIntoPlatform,
+  submitPromptInPlatform,
+  uploadImageToPlatform,
+  waitForPlatformResponse
+} from '../../src/utils/ai-platforms';
+import { GENERIC_ADAPTER } from '../../src/utils/platform-adapters';
+
+const scriptResults = (...results: unknown[]) => {
+  results.forEach(result => chrome.scripting.executeScript.mockResolvedValueOnce([{ result }]));
+};
+
+// Run injected functions against the test document, as Chrome runs them in the page
+const runScriptsInPage = () => {
+  chrome.scripting.executeScript.mockImplementation(async ({ func, args }: { func: (...args: any[]) => unknown; args: unknown[] }) =>
+    [{ result: await func(...args) }]);
+};
+
+const customPlatform = { ...AI_PLATFORMS.chatgpt, id: 'custom_1', name: 'Custom', adapter: GENERIC_ADAPTER };
+
+describe('AI Platforms', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    chrome.scripting.executeScript.mockReset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  describe('injectTextIntoPlatform', () => {
+    it('should report the input the text went into', async () => {
+      runScriptsInPage();
+      document.body.innerHTML = '<textarea placeholder="Send a message"></textarea>';
+
+      const result = await injectTextIntoPlatform(1, customPlatform, 'Hello', 0);
+
+      expect(result).toMatchObject({ success: true, selector: 'textarea[placeholder*="message"]', attempts: 1 });
+      expect(document.querySelector('textarea')!.value).toBe('Hello');
+    });
+
+    it('should report why nothing was inserted', async () => {
+      runScriptsInPage();
+      document.body.innerHTML = '<p>No chat here</p>';
+
+      const result = await injectTextIntoPlatform(1, customPlatform, 'Hello', 0);
+
+      expect(result).toMatchObject({ success: false, attempts: 1, reason: 'Could not find input field for platform' });
+    });
+
+    it('should wait for the page to become ready', async () => {
+      runScriptsInPage();
+      document.body.innerHTML = '<textarea></textarea>';
+      const platform = { ...customPlatform, adapter: { ...GENERIC_ADAPTER, readySelector: '#app-ready' } };
+
+      const result = await injectTextIntoPlatform(1, platform, 'Hello', 0);
+
+      expect(result).toMatchObject({ success: false, reason: 'Page never became ready (readiness probe did not match)' });
+      expect(document.querySelector('textarea')!.value).toBe('');
+    });
+
+    it('should report pages that cannot be scripted', async () => {
+      chrome.scripting.executeScript.mockRejectedValueOnce(new Error('Cannot access contents of the page'));
+
+      const result = await injectTextIntoPlatform(1, customPlatform, 'Hello', 0);
+
+      expect(result).toMatchObject({ success: false, attempts: 0, reason: 'Cannot access contents of the page' });
+    });
+  });
+
+  describe('submitPromptInPlatform', () => {
+    // The test setup installs another window's HTMLElement; the page code checks elements of this document
+    const setupHTMLElement = global.HTMLElement;
+    beforeAll(() => {
+      global.HTMLElement = Object.getPrototypeOf(HTMLTextAreaElement);
+    });
+    afterAll(() => {
+      global.HTMLElement = setupHTMLElement;
+    });
+
+    it('should click the send button and confirm the input was cleared', async () => {
+      runScriptsInPage();
+      document.body.innerHTML = '<textarea placeholder="message">Hello</textarea><button id="send">Send</button>';
+      const input = document.querySelector('textarea')!;
+      document.getElementById('send')!.addEventListener('click', () => { input.value = ''; });
+      const platform = { ...customPlatform, adapter: { ...GENERIC_ADAPTER, submitSelector: '#send' } };
+
+      await expect(submitPromptInPlatform(1, platform)).resolves.toEqual({ submitted: true, method: 'click' });
+    });
+
+    it('should press Enter when the adapter has no send button', async () => {
+      runScriptsInPage();
+      document.body.innerHTML = '<textarea placeholder="message">Hello</textarea>';
+      const input = document.querySelector('textarea')!;
+      input.addEventListener('keydown', event => {
+        if (event.key === 'Enter') input.value = '';
+      });
+
+      await expect(submitPromptInPlatform(1, customPlatform)).resolves.toEqual({ submitted: true, method: 'enter' });
+    });
+
+    it('should not submit on platforms where auto-submit is off', async () => {
+      const platform = { ...customPlatform, adapter: { ...GENERIC_ADAPTER, submitMethod: 'none' as const } };
+
+      await expect(submitPromptInPlatform(1, platform)).resolves.toEqual({ submitted: false, error: 'Auto-submit is disabled for Custom' });
+      expect(chrome.scripting.executeScript).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('waitForPlatformResponse', () => {
+    it('should return the answer once it stops changing and nothing is generating', async () => {
+      scriptResults(
+        null,
+        { text: 'Hel', generating: true },
+        { text: 'Hello', generating: true },
+        { text: 'Hello', generating: false },
+        { text: 'Hello', generating: false }
+      );
+
+      const response = waitForPlatformResponse(1, AI_PLATFORMS.chatgpt, 0);
+      await jest.advanceTimersByTimeAsync(10000);
+
+      await expect(response).resolves.toEqual({ success: true, text: 'Hello' });
+      expect(chrome.scripting.executeScript).toHaveBeenCalledTimes(5);
+    });
+
+    it('should check the page with short scripts until the deadline', async () => {
+      chrome.scripting.executeScript.mockResolvedValue([{ result: { text: 'Thinking', generating: true } }]);
+
+      const response = waitForPlatformResponse(1, AI_PLATFORMS.chatgpt, 0, 5000);
+      await jest.advanceTimersByTimeAsync(6000);
+
+      await expect(response).resolves.toEqual({ success: false, text: 'Thinking', error: 'Timed out waiting for the answer' });
+      expect(chrome.scripting.executeScript).toHaveBeenCalledTimes(5);
+      expect(chrome.scripting.executeScript.mock.calls[0][0].args).toEqual([
+        AI_PLATFORMS.chatgpt.adapter.responseSelector,
+        AI_PLATFORMS.chatgpt.adapter.generatingSelector,
+        0
+      ]);
+    });
+
+    it('should report pages that can no longer be scripted', async () => {
+      chrome.scripting.executeScript.mockRejectedValueOnce(new Error('The tab was closed'));
+
+      await expect(waitForPlatformResponse(1, AI_PLATFORMS.chatgpt, 0)).resolves.toEqual({ success: false, error: 'The tab was closed' });
+    });
+  });
+
+  describe('uploadImageToPlatform', () => {
+    it('should only report an upload as verified when the page saw a preview', async () => {
+      scriptResults({ uploaded: true, verified: false }, { uploaded: true, verified: true });
+
+      await expect(uploadImageToPlatform(1, AI_PLATFORMS.chatgpt, 'data:image/png;base64,AAAA'))
+        .resolves.toEqual({ uploaded: true, verified: false, method: 'file-input' });
+      await expect(uploadImageToPlatform(1, AI_PLATFORMS.chatgpt, 'data:image/png;base64,AAAA'))
+        .resolves.toEqual({ uploaded: true, verified: true, method: 'file-input' });
+    });
+
+    it('should pass on why the page could not take the image', async () => {
+      scriptResults({ uploaded: false, reason: 'Could not find file input for platform' });
+
+      await expect(uploadImageToPlatform(1, AI_PLATFORMS.chatgpt, 'data:image/png;base64,AAAA'))
+        .resolves.toEqual({ uploaded: false, method: 'file-input', error: 'Could not find file input for platform' });
+    });
+
+    it('should not script the page for platforms without image upload', async () => {
+      const platform = { ...AI_PLATFORMS.chatgpt, adapter: { ...AI_PLATFORMS.chatgpt.adapter, imageUpload: 'none' as const } };
+
+      await expect(uploadImageToPlatform(1, platform, 'data:image/png;base64,AAAA'))
+        .resolves.toEqual({ uploaded: false, error: 'ChatGPT does not support direct image upload' });
+      expect(chrome.scripting.executeScript).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for the direct API transport
+ */
+
+import { ReadableStream } from 'stream/web';
+import { TextEncoder } from 'util';
+import { buildCompletionsUrl, extractDelta, parseSSEEvents, streamChatCompletion } from '../../src/utils/api-client';
+
+const config = { endpoint: 'http://localhost:11434/v1', apiKey: 'sk-test', model: 'llama3' };
+
+/**
+ * A streamed completions response that delivers the given chunks one read at a time
+ */
+function sseResponse(chunks: string[]) {
+  const encoder = new TextEncoder();
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    headers: { get: () => 'text/event-stream' },
+    body: new ReadableStream({
+      start(controller) {
+        chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      }
+    })
+  };
+}
+
+describe('API Client', () => {
+  describe('buildCompletionsUrl', () => {
+    it('should accept base URLs with or without a version', () => {
+      expect(buildCompletionsUrl('http://localhost:11434/v1')).toBe('http://localhost:11434/v1/chat/completions');
+      expect(buildCompletionsUrl('http://localhost:1234/')).toBe('http://localhost:1234/v1/chat/completions');
+      expect(buildCompletionsUrl('https://api.openai.com/v1/chat/completions')).toBe('https://api.openai.com/v1/chat/completions');
+    });
+  });
+
+  describe('parseSSEEvents', () => {
+    it('should return complete events and keep the partial remainder', () => {
+      const { events, rest } = parseSSEEvents('data: {"a":1}\n\n: keep-alive\n\ndata: {"b"');
+
+      expect(events).toEqual(['{"a":1}']);
+      expect(rest).toBe('data: {"b"');
+    });
+
+    it('should handle CRLF line endings and multi-line data', () => {
+      expect(parseSSEEvents('data: one\r\ndata: two\r\n\r\n').events).toEqual(['one\ntwo']);
+    });
+  });
+
+  describe('extractDelta', () => {
+    it('should read streamed content and the done marker', () => {
+      expect(extractDelta('{"choices":[{"delta":{"content":"Hel"}}]}')).toBe('Hel');
+      expect(extractDelta('{"choices":[{"delta":{"role":"assistant"}}]}')).toBe('');
+      expect(extractDelta('[DONE]')).toBeNull();
+    });
+
+    it('should surface errors reported in the stream', () => {
+      expect(() => extractDelta('{"error":{"message":"model not found"}}')).toThrow('model not found');
+    });
+  });
+
+  describe('streamChatCompletion', () => {
+    afterEach(() => {
+      delete (global as any).fetch;
+    });
+
+    it('should post the prompt with the key, model and streaming turned on', async () => {
+      const fetchMock = jest.fn(async () => sseResponse(['data: [DONE]\n\n']));
+      (global as any).fetch = fetchMock;
+
+      await streamChatCompletion(config, 'Summarize this');
+
+      const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+      expect(url).toBe('http://localhost:11434/v1/chat/completions');
+      expect(init.headers).toMatchObject({ Authorization: 'Bearer sk-test' });
+      expect(JSON.parse(init.body as string)).toEqual({
+        model: 'llama3',
+        messages: [{ role: 'user', content: 'Summarize this' }],
+        stream: true
+      });
+    });
+
+    it('should join deltas split across chunks', async () => {
+      (global as any).fetch = jest.fn(async () => sseResponse([
+        'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choi',
+        'ces":[{"delta":{"content":"lo"}}]}\n',
+        '\ndata: [DONE]\n\n'
+      ]));
+      const onDelta = jest.fn();
+
+      const answer = await streamChatCompletion(config, 'Say hello', onDelta);
+
+      expect(answer).toBe('Hello');
+      expect(onDelta.mock.calls).toEqual([['Hel'], ['lo']]);
+    });
+
+    it('should reject responses with an error status', async () => {
+      (global as any).fetch = jest.fn(async () => ({
+        ok: false,
+        status: 401,
+        statusText: 'Unauthorized',
+        text: async () => 'invalid api key'
+      }));
+
+      await expect(streamChatCompletion(config, 'Summarize this')).rejects.toThrow('API request failed (401): invalid api key');
+    });
+
+    it('should reject errors reported in the stream', async () => {
+      (global as any).fetch = jest.fn(async () => sseResponse([
+        'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n',
+        'data: {"error":{"message":"model not found"}}\n\n'
+      ]));
+
+      await expect(streamChatCompletion(config, 'Say hello')).rejects.toThrow('model not found');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for sending prompts to AI platforms
+ */
+
+import { sendToAI } from '../../src/utils/chatgpt';
+import { BUILT_IN_ADAPTERS } from '../../src/utils/platform-adapters';
+import { API_ENDPOINT_NOT_ALLOWED_MESSAGE } from '../../src/utils/managed-policy';
+import { mockStorageGet } from '../setup';
+
+const message = { text: 'Quarterly numbers', instructions: 'Summarize this' };
+
+// A deep link that would hand the whole prompt to another host
+const leakingAdapter = { ...BUILT_IN_ADAPTERS.claude, urlTemplate: 'https://collector.example/?q={{prompt}}' };
+
+describe('Send to AI', () => {
+  beforeEach(() => {
+    mockStorageGet({ adapterOverrides: { claude: leakingAdapter } });
+    navigator.clipboard.writeText.mockResolvedValue(undefined);
+  });
+
+  it('should ignore adapter edits while the policy limits the platforms', async () => {
+    const editedAdapter = { ...BUILT_IN_ADAPTERS.claude, urlTemplate: 'https://claude.ai/new?q={{prompt}}' };
+    mockStorageGet({ adapterOverrides: { claude: editedAdapter } });
+    chrome.storage.managed.get.mockResolvedValue({ allowedPlatforms: ['claude'] });
+    const openTab = jest.fn().mockResolvedValue({});
+
+    const result = await sendToAI(message, true, 'claude', { openTab });
+
+    expect(result).toMatchObject({ success: true, platform: 'Claude' });
+    expect(openTab).toHaveBeenCalledTimes(1);
+    expect(openTab).toHaveBeenCalledWith('https://claude.ai/new');
+  });
+
+  it('should not deep link outside the platform site without a policy', async () => {
+    chrome.storage.managed.get.mockResolvedValue({});
+    const openTab = jest.fn().mockResolvedValue({});
+
+    await sendToAI(message, true, 'claude', { openTab });
+
+    expect(openTab).toHaveBeenCalledTimes(1);
+    expect(openTab).toHaveBeenCalledWith('https://claude.ai/new');
+  });
+
+  it('should not send to another platform when the platform was deleted', async () => {
+    mockStorageGet({ customPlatforms: [] });
+    chrome.storage.managed.get.mockResolvedValue({ allowedPlatforms: ['claude'] });
+    const openTab = jest.fn().mockResolvedValue({});
+
+    await expect(sendToAI(message, true, 'custom_1', { openTab })).rejects.toThrow('AI platform not found: custom_1');
+    expect(openTab).not.toHaveBeenCalled();
+  });
+
+  it('should not call an API endpoint the policy does not allow', async () => {
+    mockStorageGet({ transport: 'api', apiEndpoint: 'https://api.openai.com/v1', apiModel: 'gpt-4o' });
+    chrome.storage.managed.get.mockResolvedValue({ allowedApiEndpoints: ['https://llm.corp.example/v1'] });
+    (global as any).fetch = jest.fn();
+
+    const result = await sendToAI(message, true, 'chatgpt');
+
+    expect(result).toMatchObject({ success: false, method: 'api', error: API_ENDPOINT_NOT_ALLOWED_MESSAGE });
+    expect((global as any).fetch).not.toHaveBeenCalled();
+    delete (global as any).fetch;
+  });
+});
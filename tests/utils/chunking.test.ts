@@ -0,0 +1,102 @@
+/**
+ * Unit tests for chunked sending
+ */
+
+import { buildPartHeader, buildPartMessages, buildPlatformParts, getSelectionLimit, splitIntoChunks } from '../../src/utils/chunking';
+import { formatMessageForClipboard, validateMessage } from '../../src/utils/chatgpt';
+import { BUILT_IN_ADAPTERS, GENERIC_ADAPTER } from '../../src/utils/platform-adapters';
+
+// Custom platforms have no response selector, so they can't be told when to take the next part
+const customPlatform = { adapter: GENERIC_ADAPTER };
+
+describe('Chunk Splitting', () => {
+  it('should keep text that fits in one chunk', () => {
+    expect(splitIntoChunks('Short text.', 100)).toEqual(['Short text.']);
+  });
+
+  it('should split at paragraph boundaries first', () => {
+    const first = 'First paragraph. It has two sentences.';
+    const second = 'Second paragraph.';
+    const chunks = splitIntoChunks(`${first}\n\n${second}`, 45);
+
+    expect(chunks).toEqual([first, second]);
+  });
+
+  it('should fall back to sentence boundaries inside long paragraphs', () => {
+    const chunks = splitIntoChunks('One sentence here. Another sentence there. A third one.', 30);
+
+    expect(chunks).toEqual(['One sentence here.', 'Another sentence there.', 'A third one.']);
+  });
+
+  it('should never exceed the chunk length and keep every word', () => {
+    const text = Array.from({ length: 200 }, (_, i) => `word${i}`).join(' ');
+    const chunks = splitIntoChunks(text, 100);
+
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(100));
+    expect(chunks.join(' ')).toBe(text);
+  });
+
+  it('should cut a single overlong word', () => {
+    expect(splitIntoChunks('x'.repeat(25), 10)).toEqual(['x'.repeat(10), 'x'.repeat(10), 'x'.repeat(5)]);
+  });
+});
+
+describe('Part Messages', () => {
+  it('should number the parts and keep the instructions for the last one', () => {
+    expect(buildPartHeader(2, 5, 'Summarize')).toBe('Part 2/5, wait for all parts. Reply only "OK".');
+    expect(buildPartHeader(5, 5, 'Summarize')).toContain('Part 5/5 (last part)');
+    expect(buildPartHeader(5, 5, 'Summarize')).toContain('Summarize');
+    expect(buildPartHeader(1, 5, 'Summarize')).not.toContain('Summarize');
+  });
+
+  it('should leave messages that fit unchanged', () => {
+    const message = { text: 'Short', instructions: 'Explain' };
+
+    expect(buildPartMessages(message, 1000)).toEqual([message]);
+  });
+
+  it('should split long messages into parts that fit', () => {
+    const text = Array.from({ length: 60 }, (_, i) => `Paragraph ${i} with some text in it.`).join('\n\n');
+    const parts = buildPartMessages({ text, instructions: 'Summarize', isCode: false }, 1500);
+
+    expect(parts.length).toBeGreaterThan(1);
+    parts.forEach(part => expect(part.text.length + part.instructions.length).toBeLessThanOrEqual(1500));
+    expect(parts[parts.length - 1].instructions).toContain('Summarize');
+    expect(parts.map(part => part.text).join('\n\n')).toBe(text);
+  });
+
+  it('should measure parts in the message envelope', () => {
+    const text = Array.from({ length: 60 }, (_, i) => `Paragraph ${i} with some text in it.`).join('\n\n');
+    const envelope = { format: 'custom' as const, customTemplate: `${'Read this carefully. '.repeat(30)}{{instructions}}\n\n{{text}}` };
+    const parts = buildPartMessages({ text, instructions: 'Summarize', envelope }, 2000);
+
+    expect(parts.length).toBeGreaterThan(1);
+    parts.forEach(part => expect(formatMessageForClipboard(part).length).toBeLessThanOrEqual(2000));
+    parts.forEach(part => expect(validateMessage(part, 2000).valid).toBe(true));
+    expect(validateMessage({ text, instructions: 'Summarize', envelope }, 2000).valid).toBe(false);
+  });
+
+  it('should only raise the capture limit for chunked tab sends', () => {
+    expect(getSelectionLimit({ longTextMode: 'chunk', transport: 'tab', maxTextLength: 8000 })).toBe(160000);
+    expect(getSelectionLimit({ longTextMode: 'chunk', transport: 'api', maxTextLength: 8000 })).toBe(8000);
+    expect(getSelectionLimit({ longTextMode: 'truncate', transport: 'tab', maxTextLength: 8000 })).toBe(8000);
+  });
+
+  it('should not raise the capture limit for platforms that cannot take parts', () => {
+    const settings = { longTextMode: 'chunk' as const, transport: 'tab' as const, maxTextLength: 8000 };
+
+    expect(getSelectionLimit(settings, { adapter: BUILT_IN_ADAPTERS.chatgpt })).toBe(160000);
+    expect(getSelectionLimit(settings, customPlatform)).toBe(8000);
+  });
+
+  it('should truncate long text for platforms that cannot take parts', () => {
+    const text = Array.from({ length: 60 }, (_, i) => `Paragraph ${i} with some text in it.`).join('\n\n');
+
+    expect(buildPlatformParts({ text, instructions: 'Summarize' }, 1000, { adapter: BUILT_IN_ADAPTERS.chatgpt }).length).toBeGreaterThan(1);
+
+    const parts = buildPlatformParts({ text, instructions: 'Summarize' }, 1000, customPlatform);
+    expect(parts).toHaveLength(1);
+    expect(parts[0].text!.length).toBeLessThanOrEqual(1000);
+    expect(parts[0].instructions).toBe('Summarize');
+  });
+});
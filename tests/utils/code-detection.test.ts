@@ -0,0 +1,64 @@
+/**
+ * Unit tests for code detection
+ */
+
+import { detectCode, detectLanguage, languageFromClassName, languageFromPath, looksLikeCode } from '../../src/utils/code-detection';
+import { formatMessageForClipboard } from '../../src/utils/chatgpt';
+
+describe('Code Detection', () => {
+  describe('page hints', () => {
+    it('should read language classes', () => {
+      expect(languageFromClassName('hljs language-ts')).toBe('ts');
+      expect(languageFromClassName('highlight highlight-source-go')).toBe('go');
+      expect(languageFromClassName('languages')).toBe('');
+    });
+
+    it('should map file extensions from GitHub and GitLab paths', () => {
+      expect(languageFromPath('/owner/repo/blob/main/src/index.tsx')).toBe('tsx');
+      expect(languageFromPath('/group/project/-/blob/main/app/models/user.rb')).toBe('ruby');
+      expect(languageFromPath('/owner/repo/pull/12/files')).toBe('');
+    });
+  });
+
+  describe('heuristics', () => {
+    const python = 'def greet(name):\n    print(f"Hello {name}")\n    return name';
+    const go = 'package main\n\nfunc main() {\n\tmsg := "hi"\n\tfmt.Println(msg)\n}';
+
+    it('should recognise code and prose', () => {
+      expect(looksLikeCode(python)).toBe(true);
+      expect(looksLikeCode(go)).toBe(true);
+      expect(looksLikeCode('This is a normal paragraph of text about a product launch.\nIt has two sentences that read like prose.')).toBe(false);
+    });
+
+    it('should guess common languages', () => {
+      expect(detectLanguage(python)).toBe('python');
+      expect(detectLanguage(go)).toBe('go');
+      expect(detectLanguage('interface User {\n  name: string;\n}')).toBe('typescript');
+      expect(detectLanguage('{"a": [1, 2]}')).toBe('json');
+    });
+  });
+
+  describe('detectCode', () => {
+    it('should prefer page hints over heuristics', () => {
+      expect(detectCode('x = 1', { inCodeElement: true, filePath: '/repo/blob/main/a.py' }))
+        .toEqual({ isCode: true, language: 'python' });
+    });
+
+    it('should not flag prose', () => {
+      expect(detectCode('Just a sentence.')).toEqual({ isCode: false, language: '' });
+    });
+  });
+
+  describe('message formatting', () => {
+    it('should fence code with its language instead of triple quotes', () => {
+      const message = formatMessageForClipboard({
+        text: '  const a = 1;\n',
+        instructions: 'Review this',
+        isCode: true,
+        codeLanguage: 'ts'
+      });
+
+      expect(message).toBe('Review this\n\n```ts\n  const a = 1;\n```');
+    });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Unit tests for message envelopes
+ */
+
+import { buildEnvelope, getDefaultEnvelope, normalizeEnvelope, DEFAULT_CUSTOM_ENVELOPE } from '../../src/utils/envelopes';
+
+describe('Message Envelopes', () => {
+  const content = {
+    instructions: 'Summarize this',
+    text: 'Some article text',
+    sourceUrl: 'https://example.com/a?x=1&y="2"',
+    title: 'Article'
+  };
+
+  it('should keep the triple-quote layout by default', () => {
+    expect(buildEnvelope(content)).toBe('Summarize this\n\n"""\nSome article text\n"""');
+  });
+
+  it('should wrap text in an XML document tag with escaped attributes', () => {
+    expect(buildEnvelope(content, { format: 'xml' })).toBe(
+      '<document source="https://example.com/a?x=1&amp;y=&quot;2&quot;" title="Article">\n' +
+      'Some article text\n' +
+      '</document>\n\n' +
+      'Summarize this'
+    );
+  });
+
+  it('should build Markdown sections', () => {
+    expect(buildEnvelope({ ...content, sourceUrl: 'https://example.com' }, { format: 'markdown' })).toBe(
+      '## Instructions\n\nSummarize this\n\n## Content\n\nSource: [Article](https://example.com)\n\nSome article text'
+    );
+  });
+
+  it('should expand custom layouts', () => {
+    const result = buildEnvelope(content, { format: 'custom', customTemplate: '[{{title}}]\n{{text}}\n\n\n\n{{instructions}}' });
+
+    expect(result).toBe('[Article]\nSome article text\n\nSummarize this');
+  });
+
+  it('should leave unknown placeholders in custom layouts as typed', () => {
+    const result = buildEnvelope(content, { format: 'custom', customTemplate: '{{constructor}} {{toString}}\n{{text}}' });
+
+    expect(result).toBe('{{constructor}} {{toString}}\nSome article text');
+  });
+
+  it('should omit empty sections', () => {
+    expect(buildEnvelope({ instructions: 'Just a question', text: '' }, { format: 'xml' })).toBe('Just a question');
+  });
+
+  it('should default Claude to XML', () => {
+    expect(getDefaultEnvelope('claude').format).toBe('xml');
+    expect(getDefaultEnvelope('chatgpt').format).toBe('triple-quotes');
+  });
+
+  it('should normalize stored configs', () => {
+    expect(normalizeEnvelope({ format: 'bogus' })).toBeNull();
+    expect(normalizeEnvelope({ format: 'custom' })).toEqual({ format: 'custom', customTemplate: DEFAULT_CUSTOM_ENVELOPE });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Unit tests for fan-out sending and window tiling
+ */
+
+import * as chatgpt from '../../src/utils/chatgpt';
+import { computeTileBounds, sendToMultiplePlatforms } from '../../src/utils/fan-out';
+import { mockStorageGet } from '../setup';
+
+describe('Fan-out Tiling', () => {
+  const area = { left: 100, top: 50, width: 1500, height: 900 };
+
+  it('should place up to three windows in one row', () => {
+    expect(computeTileBounds(area, 3)).toEqual([
+      { left: 100, top: 50, width: 500, height: 900 },
+      { left: 600, top: 50, width: 500, height: 900 },
+      { left: 1100, top: 50, width: 500, height: 900 }
+    ]);
+  });
+
+  it('should use two rows for more windows', () => {
+    const tiles = computeTileBounds(area, 5);
+
+    expect(tiles).toHaveLength(5);
+    expect(tiles[2]).toEqual({ left: 1100, top: 50, width: 500, height: 450 });
+    expect(tiles[3]).toEqual({ left: 100, top: 500, width: 500, height: 450 });
+  });
+
+  it('should return nothing for zero windows', () => {
+    expect(computeTileBounds(area, 0)).toEqual([]);
+  });
+});
+
+describe('Fan-out Sending', () => {
+  beforeEach(() => {
+    mockStorageGet({ platformModels: { chatgpt: 'o3', claude: 'claude-sonnet-4' } });
+    chrome.storage.managed.get.mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send each platform its own model', async () => {
+    const sendToAI = jest.spyOn(chatgpt, 'sendToAI').mockResolvedValue({ success: true, method: 'deeplink' });
+    const message = { text: 'Quarterly numbers', instructions: 'Summarize this', model: 'claude-sonnet-4', platform: 'claude' };
+
+    const results = await sendToMultiplePlatforms(message, true, ['claude', 'chatgpt']);
+
+    expect(results.map(({ platformId }) => platformId)).toEqual(['claude', 'chatgpt']);
+    expect(sendToAI).toHaveBeenCalledWith(
+      expect.objectContaining({ platform: 'claude', model: 'claude-sonnet-4' }), true, 'claude', expect.anything()
+    );
+    expect(sendToAI).toHaveBeenCalledWith(
+      expect.objectContaining({ platform: 'chatgpt', model: 'o3' }), true, 'chatgpt', expect.anything()
+    );
+  });
+});
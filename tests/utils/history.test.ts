@@ -0,0 +1,101 @@
+/**
+ * Unit tests for send history
+ */
+
+import { MAX_ENTRY_TEXT_LENGTH, applyRetention, historyManager, searchHistory, type HistoryEntry } from '../../src/utils/history';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = Date.UTC(2024, 5, 1);
+
+function entry(id: string, daysAgo: number, fields: Partial<HistoryEntry> = {}): HistoryEntry {
+  return {
+    id,
+    timestamp: now - daysAgo * DAY_MS,
+    text: '',
+    instructions: '',
+    platform: 'chatgpt',
+    platformName: 'ChatGPT',
+    method: 'injected',
+    success: true,
+    ...fields
+  };
+}
+
+describe('Send History', () => {
+  describe('applyRetention', () => {
+    const entries = [entry('old', 40), entry('new', 1), entry('mid', 10)];
+
+    it('should drop expired entries and sort newest first', () => {
+      expect(applyRetention(entries, { maxEntries: 10, retentionDays: 30 }, now).map(e => e.id)).toEqual(['new', 'mid']);
+    });
+
+    it('should keep only the newest entries up to the limit', () => {
+      expect(applyRetention(entries, { maxEntries: 1, retentionDays: 0 }, now).map(e => e.id)).toEqual(['new']);
+    });
+  });
+
+  describe('searchHistory', () => {
+    const entries = [
+      entry('a', 1, { instructions: 'Summarize this', title: 'Release Notes' }),
+      entry('b', 2, { text: 'const a = 1;', platform: 'claude', platformName: 'Claude' })
+    ];
+
+    it('should match every word across fields, ignoring case', () => {
+      expect(searchHistory(entries, 'summarize release').map(e => e.id)).toEqual(['a']);
+      expect(searchHistory(entries, 'CLAUDE const').map(e => e.id)).toEqual(['b']);
+      expect(searchHistory(entries, 'summarize claude')).toEqual([]);
+    });
+
+    it('should return everything for an empty query', () => {
+      expect(searchHistory(entries, '  ')).toHaveLength(2);
+    });
+  });
+
+  describe('addEntry', () => {
+    const retention = { maxEntries: 200, retentionDays: 0 };
+    const sent = { text: 'Hello', instructions: '', platform: 'chatgpt', platformName: 'ChatGPT', method: 'injected' as const, success: true };
+
+    // Local storage that only takes history up to the given number of entries
+    const storageFitting = (maxEntries: number, stored: HistoryEntry[]) => {
+      chrome.storage.local.get.mockImplementation(async (keys: string[]) => keys.includes('sendHistory') ? { sendHistory: stored } : {});
+      chrome.storage.local.set.mockImplementation(async (items: Record<string, unknown>) => {
+        const history = items.sendHistory as HistoryEntry[] | undefined;
+        if (history && history.length > maxEntries) {
+          throw new Error('QUOTA_BYTES quota exceeded');
+        }
+      });
+    };
+
+    beforeEach(() => {
+      chrome.storage.local.get.mockReset();
+      chrome.storage.local.set.mockReset();
+    });
+
+    it('should keep only the start of very long texts', async () => {
+      storageFitting(200, []);
+
+      const added = await historyManager.addEntry({ ...sent, text: 'word '.repeat(MAX_ENTRY_TEXT_LENGTH) }, retention);
+
+      expect(added.text.length).toBeLessThanOrEqual(MAX_ENTRY_TEXT_LENGTH + 3);
+      expect(added.textTruncated).toBe(true);
+    });
+
+    it('should remove the oldest entries until the history fits', async () => {
+      storageFitting(5, Array.from({ length: 8 }, (_, i) => entry(`old_${i}`, i + 1)));
+
+      const added = await historyManager.addEntry(sent, retention);
+
+      const saved = chrome.storage.local.set.mock.calls.pop()[0];
+      expect(saved.sendHistory.map((e: HistoryEntry) => e.id)).toEqual([added.id, 'old_0', 'old_1', 'old_2']);
+      expect(saved.sendHistoryStatus).toMatchObject({ evicted: 5, failed: false });
+    });
+
+    it('should record that a send could not be kept at all', async () => {
+      storageFitting(0, [entry('old', 1)]);
+
+      await expect(historyManager.addEntry(sent, retention)).rejects.toThrow('quota exceeded');
+
+      expect(chrome.storage.local.set).toHaveBeenLastCalledWith({ sendHistoryStatus: expect.objectContaining({ failed: true }) });
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for screenshot image processing
+ */
+
+import { cropImage, stitchImages } from '../../src/utils/image';
+
+interface FakeCanvas {
+  width: number;
+  height: number;
+  drawImage: jest.Mock;
+}
+
+// jsdom has no image decoding or OffscreenCanvas; these record what would be drawn
+const canvases: FakeCanvas[] = [];
+
+class FakeOffscreenCanvas {
+  drawImage = jest.fn();
+
+  constructor(public width: number, public height: number) {
+    canvases.push(this);
+  }
+
+  getContext() {
+    return { drawImage: this.drawImage };
+  }
+
+  async convertToBlob() {
+    return { type: 'image/png', arrayBuffer: async () => new Uint8Array([1, 2, 3]).buffer };
+  }
+}
+
+const bitmap = (width: number, height: number) => ({ width, height, close: jest.fn() });
+
+describe('Image Processing', () => {
+  beforeEach(() => {
+    canvases.length = 0;
+    (global as any).OffscreenCanvas = FakeOffscreenCanvas;
+    (global as any).fetch = jest.fn(async () => ({ blob: async () => ({}) }));
+    (global as any).createImageBitmap = jest.fn(async () => bitmap(200, 100));
+  });
+
+  afterEach(() => {
+    delete (global as any).OffscreenCanvas;
+    delete (global as any).fetch;
+    delete (global as any).createImageBitmap;
+  });
+
+  describe('cropImage', () => {
+    it('should crop a region given in CSS pixels at the capture scale', async () => {
+      const dataUrl = await cropImage('data:image/png;base64,AAAA', { x: 10, y: 5, width: 40, height: 20 }, 2);
+
+      expect(dataUrl).toBe('data:image/png;base64,AQID');
+      expect(canvases[0]).toMatchObject({ width: 80, height: 40 });
+      expect(canvases[0].drawImage).toHaveBeenCalledWith(expect.anything(), 20, 10, 80, 40, 0, 0, 80, 40);
+    });
+
+    it('should clamp regions that reach past the captured image', async () => {
+      await cropImage('data:image/png;base64,AAAA', { x: -5, y: 40, width: 150, height: 80 }, 2);
+
+      // Starts at the image edge and stops at the image's right and bottom borders
+      expect(canvases[0]).toMatchObject({ width: 200, height: 20 });
+      expect(canvases[0].drawImage).toHaveBeenCalledWith(expect.anything(), 0, 80, 200, 20, 0, 0, 200, 20);
+    });
+
+    it('should reject regions entirely outside the captured image', async () => {
+      await expect(cropImage('data:image/png;base64,AAAA', { x: 150, y: 10, width: 20, height: 20 }, 2))
+        .rejects.toThrow('Selected region is outside the captured image');
+      expect(canvases).toHaveLength(0);
+    });
+  });
+
+  describe('stitchImages', () => {
+    it('should draw each tile at its scaled offset on a page-sized canvas', async () => {
+      const tiles = [
+        { dataUrl: 'data:image/png;base64,AAAA', y: 0 },
+        { dataUrl: 'data:image/png;base64,BBBB', y: 600 },
+        { dataUrl: 'data:image/png;base64,CCCC', y: 1000.4 } // The last tile is scrolled back to end at the page bottom
+      ];
+
+      const dataUrl = await stitchImages(tiles, 800, 1600.6, 1.5);
+
+      expect(dataUrl).toBe('data:image/png;base64,AQID');
+      expect(canvases[0]).toMatchObject({ width: 1200, height: 2401 });
+      expect(canvases[0].drawImage.mock.calls.map(([, x, y]) => [x, y])).toEqual([[0, 0], [0, 900], [0, 1501]]);
+    });
+
+    it('should release every tile after drawing it', async () => {
+      const bitmaps = [bitmap(800, 600), bitmap(800, 600)];
+      (global as any).createImageBitmap = jest.fn()
+        .mockResolvedValueOnce(bitmaps[0])
+        .mockResolvedValueOnce(bitmaps[1]);
+
+      await stitchImages([{ dataUrl: 'a', y: 0 }, { dataUrl: 'b', y: 600 }], 800, 1200, 1);
+
+      bitmaps.forEach(tile => expect(tile.close).toHaveBeenCalled());
+    });
+  });
+});
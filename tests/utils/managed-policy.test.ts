@@ -0,0 +1,138 @@
+/**
+ * Unit tests for the enterprise managed policy
+ */
+
+import { DEFAULT_SETTINGS } from '../../src/utils/storage';
+import {
+  EMPTY_POLICY,
+  applyManagedPolicy,
+  getLockedSettingKeys,
+  hasManagedPolicy,
+  isApiEndpointAllowed,
+  isPlatformAllowed,
+  normalizeManagedPolicy,
+  restrictsPlatforms
+} from '../../src/utils/managed-policy';
+
+describe('Managed Policy', () => {
+  describe('normalizeManagedPolicy', () => {
+    it('should return the empty policy when nothing is managed', () => {
+      expect(normalizeManagedPolicy(undefined)).toEqual(EMPTY_POLICY);
+      expect(hasManagedPolicy(normalizeManagedPolicy({}))).toBe(false);
+    });
+
+    it('should keep known settings with valid values only', () => {
+      const policy = normalizeManagedPolicy(
+        {
+          lockedSettings: {
+            transport: 'tab',
+            longTextMode: 'split',
+            maxTextLength: '4000',
+            fanOutPlatforms: ['chatgpt', 3],
+            historyEnabled: false,
+            unknownSetting: true
+          }
+        }
+      );
+
+      expect(policy.lockedSettings).toEqual({ transport: 'tab', historyEnabled: false });
+    });
+
+    it('should read platform restrictions and templates', () => {
+      const policy = normalizeManagedPolicy(
+        {
+          allowedPlatforms: ['claude', 1],
+          allowCustomPlatforms: false,
+          templates: [
+            { id: 'triage', name: 'Triage', instructions: 'Triage this.' },
+            { name: 'Summary', instructions: 'Summarize.' },
+            { name: 'Missing instructions' }
+          ],
+          enforceRedaction: true
+        }
+      );
+
+      expect(policy.allowedPlatforms).toEqual(['claude']);
+      expect(policy.allowCustomPlatforms).toBe(false);
+      expect(policy.templates.map(template => template.id)).toEqual(['managed_triage', 'managed_1']);
+      expect(policy.enforceRedaction).toBe(true);
+    });
+
+    it('should read allowed API endpoints', () => {
+      const policy = normalizeManagedPolicy({ allowedApiEndpoints: ['https://llm.example.com/v1', null] });
+
+      expect(policy.allowedApiEndpoints).toEqual(['https://llm.example.com/v1']);
+      expect(hasManagedPolicy(policy)).toBe(true);
+    });
+  });
+
+  describe('applyManagedPolicy', () => {
+    it('should override user values with locked ones', () => {
+      const settings = applyManagedPolicy(
+        { ...DEFAULT_SETTINGS, autoSend: true, darkMode: true },
+        { ...EMPTY_POLICY, lockedSettings: { autoSend: false } }
+      );
+
+      expect(settings.autoSend).toBe(false);
+      expect(settings.darkMode).toBe(true);
+    });
+
+    it('should keep sensitive data review on when redaction is enforced', () => {
+      const policy = { ...EMPTY_POLICY, enforceRedaction: true };
+
+      expect(applyManagedPolicy({ ...DEFAULT_SETTINGS, reviewSensitiveData: false }, policy).reviewSensitiveData).toBe(true);
+      expect(getLockedSettingKeys(policy)).toEqual(['reviewSensitiveData']);
+    });
+
+    it('should move platform choices to allowed platforms', () => {
+      const settings = applyManagedPolicy(
+        { ...DEFAULT_SETTINGS, defaultPlatform: 'chatgpt', fanOutPlatforms: ['chatgpt', 'claude', 'gemini'] },
+        { ...EMPTY_POLICY, allowedPlatforms: ['claude', 'gemini'] }
+      );
+
+      expect(settings.defaultPlatform).toBe('claude');
+      expect(settings.fanOutPlatforms).toEqual(['claude', 'gemini']);
+    });
+  });
+
+  describe('isPlatformAllowed', () => {
+    it('should allow every platform without restrictions', () => {
+      expect(isPlatformAllowed(EMPTY_POLICY, 'gemini')).toBe(true);
+      expect(isPlatformAllowed(EMPTY_POLICY, 'custom_123_abc')).toBe(true);
+    });
+
+    it('should restrict built-in platforms to the allowed list', () => {
+      const policy = { ...EMPTY_POLICY, allowedPlatforms: ['claude'] };
+
+      expect(isPlatformAllowed(policy, 'claude')).toBe(true);
+      expect(isPlatformAllowed(policy, 'chatgpt')).toBe(false);
+      expect(isPlatformAllowed(policy, 'custom_123_abc')).toBe(true);
+    });
+
+    it('should reject custom platforms when they are turned off', () => {
+      expect(isPlatformAllowed({ ...EMPTY_POLICY, allowCustomPlatforms: false }, 'custom_123_abc')).toBe(false);
+    });
+  });
+
+  describe('restrictsPlatforms', () => {
+    it('should tell whether the policy limits the platforms', () => {
+      expect(restrictsPlatforms(EMPTY_POLICY)).toBe(false);
+      expect(restrictsPlatforms({ ...EMPTY_POLICY, allowedPlatforms: ['claude'] })).toBe(true);
+      expect(restrictsPlatforms({ ...EMPTY_POLICY, allowCustomPlatforms: false })).toBe(true);
+    });
+  });
+
+  describe('isApiEndpointAllowed', () => {
+    it('should allow any endpoint without restrictions', () => {
+      expect(isApiEndpointAllowed(EMPTY_POLICY, 'https://api.openai.com/v1')).toBe(true);
+    });
+
+    it('should restrict the API transport to the allowed endpoints', () => {
+      const policy = { ...EMPTY_POLICY, allowedApiEndpoints: ['https://LLM.example.com/v1/'] };
+
+      expect(isApiEndpointAllowed(policy, 'https://llm.example.com/v1')).toBe(true);
+      expect(isApiEndpointAllowed(policy, 'https://api.openai.com/v1')).toBe(false);
+      expect(isApiEndpointAllowed({ ...EMPTY_POLICY, allowedApiEndpoints: [] }, 'https://llm.example.com/v1')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for HTML to Markdown conversion
+ */
+
+import { htmlToMarkdown, fenceCode } from '../../src/utils/markdown';
+import { formatSelection, truncateText } from '../../src/utils/text-format';
+
+describe('Markdown Conversion', () => {
+  describe('htmlToMarkdown', () => {
+    it('should convert headings and paragraphs', () => {
+      const result = htmlToMarkdown('<h2>Setup</h2>\n<p>Install the <strong>latest</strong> <em>stable</em> release.</p>');
+
+      expect(result).toBe('## Setup\n\nInstall the **latest** *stable* release.');
+    });
+
+    it('should convert nested lists', () => {
+      const result = htmlToMarkdown('<ul><li>One<ul><li>Nested</li></ul></li><li>Two</li></ul><ol start="3"><li>Three</li></ol>');
+
+      expect(result).toBe('- One\n  - Nested\n- Two\n\n3. Three');
+    });
+
+    it('should convert links and drop javascript: URLs', () => {
+      const result = htmlToMarkdown('See <a href="https://example.com/docs">the docs</a> or <a href="javascript:void(0)">this</a>.');
+
+      expect(result).toBe('See [the docs](https://example.com/docs) or this.');
+    });
+
+    it('should pass link and image URLs through rewriteUrl', () => {
+      const result = htmlToMarkdown('<a href="https://example.com/a?utm_source=x">A</a> <img src="https://example.com/i.png" alt="I">', {
+        rewriteUrl: url => url.replace(/\?.*$/, '')
+      });
+
+      expect(result).toBe('[A](https://example.com/a) ![I](https://example.com/i.png)');
+    });
+
+    it('should convert tables with a header separator', () => {
+      const result = htmlToMarkdown(
+        '<table><thead><tr><th>Name</th><th>Value</th></tr></thead>' +
+        '<tbody><tr><td>a|b</td><td>1</td></tr><tr><td>c</td></tr></tbody></table>'
+      );
+
+      expect(result).toBe('| Name | Value |\n| --- | --- |\n| a\\|b | 1 |\n| c |  |');
+    });
+
+    it('should keep code blocks verbatim with their language', () => {
+      const result = htmlToMarkdown('<pre><code class="language-ts">const a = 1;\n\n\n\nconst b = 2;\n</code></pre><p>Use <code>a</code></p>');
+
+      expect(result).toBe('```ts\nconst a = 1;\n\n\n\nconst b = 2;\n```\n\nUse `a`');
+    });
+
+    it('should drop scripts and styles', () => {
+      expect(htmlToMarkdown('<p>Text</p><script>alert(1)</script><style>p{}</style>')).toBe('Text');
+    });
+  });
+
+  describe('fenceCode', () => {
+    it('should use a longer fence when the code contains backticks', () => {
+      expect(fenceCode('```nested```')).toBe('````\n```nested```\n````');
+    });
+  });
+
+  describe('formatSelection', () => {
+    const selection = { text: 'Title Body', html: '<h1>Title</h1><p>Body</p>' };
+
+    it('should render each format', () => {
+      expect(formatSelection(selection, 'text', 1000).text).toBe('Title Body');
+      expect(formatSelection(selection, 'markdown', 1000).text).toBe('# Title\n\nBody');
+      expect(formatSelection(selection, 'html', 1000).text).toBe('<h1>Title</h1><p>Body</p>');
+    });
+
+    it('should fall back to plain text without HTML', () => {
+      expect(formatSelection({ text: 'plain', html: '' }, 'markdown', 1000).text).toBe('plain');
+    });
+
+    it('should truncate long output', () => {
+      expect(truncateText('aaaa bbbb cccc', 10)).toEqual({ text: 'aaaa bbbb...', truncated: true });
+    });
+  });
+});
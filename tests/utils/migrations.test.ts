@@ -0,0 +1,50 @@
+/**
+ * Unit tests for settings migrations
+ */
+
+import { SETTINGS_MIGRATIONS, SETTINGS_VERSION, diffMigratedSettings, migrateSettings } from '../../src/utils/migrations';
+
+describe('Settings Migrations', () => {
+  it('should number migrations in order up to the current version', () => {
+    const versions = SETTINGS_MIGRATIONS.map(migration => migration.version);
+
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+    expect(SETTINGS_VERSION).toBe(versions[versions.length - 1]);
+  });
+
+  it('should move defaultModel to ChatGPT and custom platforms', () => {
+    const migrated = migrateSettings(
+      { defaultModel: 'gpt-4', autoSend: true, customPlatforms: [{ id: 'custom_1', name: 'Local' }] },
+      0
+    );
+
+    expect(migrated).toEqual({
+      autoSend: true,
+      customPlatforms: [{ id: 'custom_1', name: 'Local' }],
+      platformModels: { chatgpt: 'gpt-4', custom_1: 'gpt-4' }
+    });
+  });
+
+  it('should keep models that were already set per platform', () => {
+    const migrated = migrateSettings({ defaultModel: 'gpt-4', platformModels: { chatgpt: 'gpt-4o-mini' } }, 0);
+
+    expect(migrated.platformModels).toEqual({ chatgpt: 'gpt-4o-mini' });
+  });
+
+  it('should skip migrations the settings already had', () => {
+    const stored = { defaultModel: 'gpt-4' };
+
+    expect(migrateSettings(stored, SETTINGS_VERSION)).toBe(stored);
+  });
+
+  it('should list changed and removed keys', () => {
+    const stored = { defaultModel: 'gpt-4', autoSend: true, fanOutPlatforms: ['chatgpt'] };
+    const migrated = { autoSend: true, fanOutPlatforms: ['chatgpt'], platformModels: { chatgpt: 'gpt-4' } };
+
+    expect(diffMigratedSettings(stored, migrated)).toEqual({
+      changed: { platformModels: { chatgpt: 'gpt-4' } },
+      removed: ['defaultModel']
+    });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Unit tests for page metadata collection and formatting
+ */
+
+import { collectPageMetadata, formatPageMetadata, previewMetadataField } from '../../src/utils/page-metadata';
+
+describe('Page Metadata', () => {
+  beforeEach(() => {
+    document.documentElement.setAttribute('lang', 'en-GB');
+    document.head.innerHTML = `
+      <meta name="description" content="A short summary">
+      <meta property="og:title" content="Shared Title">
+      <meta property="og:type" content="article">
+      <meta name="twitter:card" content="summary_large_image">
+      <link rel="canonical" href="https://example.com/story">
+      <script type="application/ld+json">{"@type": "NewsArticle", "headline": "Shared Title"}</script>
+      <script type="application/ld+json">{ not json</script>
+    `;
+  });
+
+  afterEach(() => {
+    document.head.innerHTML = '';
+    document.documentElement.removeAttribute('lang');
+  });
+
+  it('should collect meta tags, canonical URL, language and JSON-LD', () => {
+    const metadata = collectPageMetadata();
+
+    expect(metadata.description).toBe('A short summary');
+    expect(metadata.language).toBe('en-GB');
+    expect(metadata.canonicalUrl).toBe('https://example.com/story');
+    expect(metadata.openGraph).toEqual({ 'og:title': 'Shared Title', 'og:type': 'article' });
+    expect(metadata.twitter).toEqual({ 'twitter:card': 'summary_large_image' });
+    expect(metadata.jsonLd).toEqual([{ '@type': 'NewsArticle', headline: 'Shared Title' }]);
+  });
+
+  it('should summarize fields for the preview', () => {
+    const metadata = collectPageMetadata();
+
+    expect(previewMetadataField(metadata, 'openGraph')).toBe('Shared Title (2 tags)');
+    expect(previewMetadataField(metadata, 'jsonLd')).toBe('NewsArticle');
+  });
+
+  it('should format only the chosen fields', () => {
+    const block = formatPageMetadata(collectPageMetadata(), ['description', 'twitter']);
+
+    expect(block).toBe('Page metadata:\nDescription: A short summary\nTwitter card:\n- twitter:card: summary_large_image');
+  });
+
+  it('should return nothing when no chosen field is present', () => {
+    expect(formatPageMetadata({ openGraph: {}, twitter: {}, jsonLd: [] }, ['openGraph', 'canonicalUrl'])).toBe('');
+  });
+});
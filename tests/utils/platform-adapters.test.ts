@@ -0,0 +1,91 @@
+/**
+ * Unit tests for declarative platform adapters
+ */
+
+import {
+  ADAPTER_SCHEMA_VERSION,
+  BUILT_IN_ADAPTERS,
+  GENERIC_ADAPTER,
+  buildDeepLinkUrl,
+  getImageUploadMethod,
+  validateAdapter
+} from '../../src/utils/platform-adapters';
+
+describe('Platform Adapters', () => {
+  describe('validateAdapter', () => {
+    it('should accept the built-in adapters', () => {
+      Object.values(BUILT_IN_ADAPTERS).forEach(adapter => {
+        expect(validateAdapter(adapter)).toEqual({ adapter });
+      });
+    });
+
+    it('should fill in defaults and trim selectors', () => {
+      const { adapter } = validateAdapter({ inputSelectors: [' textarea '], submitSelector: ' button ', readySelector: '  ' });
+
+      expect(adapter).toEqual({
+        version: ADAPTER_SCHEMA_VERSION,
+        inputSelectors: ['textarea'],
+        insertMethod: 'value',
+        submitSelector: 'button'
+      });
+    });
+
+    it('should reject anything but an object', () => {
+      expect(validateAdapter(null).error).toBe('Adapter must be a JSON object');
+      expect(validateAdapter([]).error).toBe('Adapter must be a JSON object');
+    });
+
+    it('should reject unsupported schema versions', () => {
+      expect(validateAdapter({ version: 0, inputSelectors: ['textarea'] }).error).toBe('"version" must be a positive integer');
+      expect(validateAdapter({ version: ADAPTER_SCHEMA_VERSION + 1, inputSelectors: ['textarea'] }).error)
+        .toContain('is newer than supported version');
+    });
+
+    it('should require input selectors', () => {
+      expect(validateAdapter({}).error).toBe('"inputSelectors" must be a non-empty list of CSS selectors');
+      expect(validateAdapter({ inputSelectors: ['textarea', ''] }).error).toBe('"inputSelectors" must be a non-empty list of CSS selectors');
+    });
+
+    it('should reject unknown methods', () => {
+      expect(validateAdapter({ inputSelectors: ['textarea'], insertMethod: 'typing' }).error).toContain('"insertMethod" must be one of');
+      expect(validateAdapter({ inputSelectors: ['textarea'], submitMethod: 'shout' }).error).toContain('"submitMethod" must be one of');
+      expect(validateAdapter({ inputSelectors: ['textarea'], imageUpload: 'fax' }).error).toContain('"imageUpload" must be one of');
+    });
+
+    it('should check optional selectors and the URL template', () => {
+      expect(validateAdapter({ inputSelectors: ['textarea'], responseSelector: 3 }).error).toBe('"responseSelector" must be a string');
+      expect(validateAdapter({ inputSelectors: ['textarea'], urlTemplate: 'https://example.com/?q=' }).error)
+        .toBe('"urlTemplate" must contain a {{prompt}} placeholder');
+    });
+  });
+
+  describe('getImageUploadMethod', () => {
+    it('should use the configured method', () => {
+      expect(getImageUploadMethod(BUILT_IN_ADAPTERS.gemini)).toBe('paste');
+    });
+
+    it('should default to the file input when there is one', () => {
+      expect(getImageUploadMethod(GENERIC_ADAPTER)).toBe('file-input');
+      expect(getImageUploadMethod({ ...GENERIC_ADAPTER, fileInputSelector: undefined })).toBe('none');
+    });
+  });
+
+  describe('buildDeepLinkUrl', () => {
+    it('should put the encoded prompt into the URL template', () => {
+      expect(buildDeepLinkUrl(BUILT_IN_ADAPTERS.chatgpt, 'Explain a & b?', 'https://chatgpt.com')).toBe('https://chatgpt.com/?q=Explain%20a%20%26%20b%3F');
+    });
+
+    it('should return null for platforms without deep links', () => {
+      expect(buildDeepLinkUrl(BUILT_IN_ADAPTERS.claude, 'Hello', 'https://claude.ai/new')).toBeNull();
+    });
+
+    it('should refuse templates pointing away from the platform site', () => {
+      const adapter = { ...BUILT_IN_ADAPTERS.claude, urlTemplate: 'https://collector.example/?q={{prompt}}' };
+
+      expect(buildDeepLinkUrl(adapter, 'Hello', 'https://claude.ai/new')).toBeNull();
+      expect(buildDeepLinkUrl({ ...adapter, urlTemplate: 'https://{{prompt}}.claude.ai/' }, 'Hello', 'https://claude.ai/new')).toBeNull();
+      expect(buildDeepLinkUrl({ ...adapter, urlTemplate: 'https://claude.ai/new?q={{prompt}}' }, 'Hello', 'https://claude.ai/new'))
+        .toBe('https://claude.ai/new?q=Hello');
+    });
+  });
+});
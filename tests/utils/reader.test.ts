@@ -0,0 +1,80 @@
+/**
+ * Unit tests for reader-mode article extraction
+ */
+
+import { extractArticle, formatArticle } from '../../src/utils/reader';
+
+function createDocument(head: string, body: string): Document {
+  const doc = document.implementation.createHTMLDocument('');
+  doc.head.innerHTML = head;
+  doc.body.innerHTML = body;
+  return doc;
+}
+
+const paragraph = (n: number) =>
+  `<p>Paragraph ${n} of the story, with enough words, commas, and detail to look like real article prose.</p>`;
+
+describe('Reader Extraction', () => {
+  it('should pick the article text over navigation and sidebars', () => {
+    const doc = createDocument(
+      '<title>Fallback title</title>',
+      `<nav><a href="/">Home</a> <a href="/news">News</a></nav>
+       <div class="sidebar"><p>Related: another story that is long enough to count as a paragraph.</p></div>
+       <div class="post-content">${paragraph(1)}${paragraph(2)}${paragraph(3)}</div>
+       <div class="comments"><p>First comment on this story, which is long enough to be scored.</p></div>`
+    );
+
+    const article = extractArticle(doc);
+
+    expect(article?.content).toContain('Paragraph 1 of the story');
+    expect(article?.content).toContain('Paragraph 3 of the story');
+    expect(article?.content).not.toContain('Related:');
+    expect(article?.content).not.toContain('First comment');
+  });
+
+  it('should read title, byline and date from metadata', () => {
+    const doc = createDocument(
+      `<meta property="og:title" content="The Headline">
+       <meta name="author" content="Jane Doe">
+       <meta property="article:published_time" content="2024-05-01T10:00:00Z">
+       <meta property="og:site_name" content="Example News">`,
+      `<article><h1>The Headline</h1>${paragraph(1)}${paragraph(2)}</article>`
+    );
+
+    const article = extractArticle(doc);
+
+    expect(article).toMatchObject({
+      title: 'The Headline',
+      byline: 'Jane Doe',
+      publishedAt: '2024-05-01T10:00:00Z',
+      siteName: 'Example News'
+    });
+    expect(article?.content.startsWith('Paragraph 1')).toBe(true);
+  });
+
+  it('should fall back to JSON-LD article data', () => {
+    const doc = createDocument(
+      `<script type="application/ld+json">
+         {"@type": "NewsArticle", "headline": "From JSON-LD", "author": [{"name": "A. Writer"}], "datePublished": "2024-01-02"}
+       </script>`,
+      `<main>${paragraph(1)}${paragraph(2)}</main>`
+    );
+
+    expect(extractArticle(doc)).toMatchObject({ title: 'From JSON-LD', byline: 'A. Writer', publishedAt: '2024-01-02' });
+  });
+
+  it('should return null for pages without article text', () => {
+    const doc = createDocument('', '<div><a href="/a">Link</a></div>');
+
+    expect(extractArticle(doc)).toBeNull();
+  });
+
+  it('should format the article as a document with its source', () => {
+    const text = formatArticle(
+      { title: 'The Headline', byline: 'Jane Doe', content: 'Body text.' },
+      'https://example.com/story'
+    );
+
+    expect(text).toBe('# The Headline\n\nSource: https://example.com/story\nAuthor: Jane Doe\n\n---\n\nBody text.');
+  });
+});
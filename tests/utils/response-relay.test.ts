@@ -0,0 +1,78 @@
+/**
+ * Unit tests for relaying answers back to the source page
+ */
+
+import { relayResponse } from '../../src/utils/response-relay';
+import { mockStorageGet } from '../setup';
+
+const scriptResults = (...results: unknown[]) => {
+  results.forEach(result => chrome.scripting.executeScript.mockResolvedValueOnce([{ result }]));
+};
+
+const sent = { success: true, method: 'injected' as const, tabId: 7, responseBaseline: 0 };
+
+describe('Response Relay', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    chrome.scripting.executeScript.mockReset();
+    mockStorageGet({});
+    chrome.storage.managed.get.mockResolvedValue({});
+    chrome.tabs.get.mockResolvedValue({ id: 7, status: 'complete' });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should show the finished answer in the source tab', async () => {
+    scriptResults(
+      { text: 'Hello', generating: false },
+      { text: 'Hello', generating: false },
+      { text: 'Hello', generating: false },
+      undefined,
+      undefined
+    );
+
+    const relayed = relayResponse(sent, 'chatgpt', 3);
+    await jest.advanceTimersByTimeAsync(5000);
+
+    await expect(relayed).resolves.toBe(true);
+    expect(chrome.scripting.executeScript).toHaveBeenCalledTimes(5);
+    expect(chrome.scripting.executeScript).toHaveBeenCalledWith({ target: { tabId: 3 }, files: ['response-overlay.js'] });
+    expect(chrome.scripting.executeScript).toHaveBeenLastCalledWith(expect.objectContaining({
+      target: { tabId: 3 },
+      args: [{ platformName: 'ChatGPT', text: 'Hello', darkMode: false }]
+    }));
+  });
+
+  it('should not read the platform tab when the send failed', async () => {
+    await expect(relayResponse({ success: false, method: 'injected', error: 'No tab' }, 'chatgpt', 3)).resolves.toBe(false);
+    await expect(relayResponse({ ...sent, responseBaseline: undefined }, 'chatgpt', 3)).resolves.toBe(false);
+
+    expect(chrome.scripting.executeScript).not.toHaveBeenCalled();
+  });
+
+  it('should leave the source tab alone when no answer arrives', async () => {
+    chrome.scripting.executeScript.mockResolvedValue([{ result: null }]);
+
+    const relayed = relayResponse(sent, 'chatgpt', 3);
+    await jest.advanceTimersByTimeAsync(5 * 60 * 1000);
+
+    await expect(relayed).resolves.toBe(false);
+    expect(chrome.scripting.executeScript).not.toHaveBeenCalledWith(expect.objectContaining({ target: { tabId: 3 } }));
+  });
+
+  it('should report a source tab that cannot be scripted', async () => {
+    scriptResults(
+      { text: 'Hello', generating: false },
+      { text: 'Hello', generating: false },
+      { text: 'Hello', generating: false }
+    );
+    chrome.scripting.executeScript.mockRejectedValueOnce(new Error('Cannot access a chrome:// URL'));
+
+    const relayed = relayResponse(sent, 'chatgpt', 3);
+    await jest.advanceTimersByTimeAsync(5000);
+
+    await expect(relayed).resolves.toBe(false);
+  });
+});
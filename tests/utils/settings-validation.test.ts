@@ -0,0 +1,38 @@
+/**
+ * Unit tests for settings validation
+ */
+
+import { DEFAULT_SETTINGS } from '../../src/utils/storage';
+import { isValidSetting, validateSettings } from '../../src/utils/settings-validation';
+
+describe('Settings Validation', () => {
+  it('should accept every default value', () => {
+    expect(validateSettings(DEFAULT_SETTINGS)).toEqual({ valid: DEFAULT_SETTINGS, invalid: [] });
+  });
+
+  it('should check types, ranges and allowed values', () => {
+    expect(isValidSetting('maxTextLength', 4096)).toBe(true);
+    expect(isValidSetting('maxTextLength', 500)).toBe(false);
+    expect(isValidSetting('maxTextLength', '4096')).toBe(false);
+    expect(isValidSetting('transport', 'api')).toBe(true);
+    expect(isValidSetting('transport', 'email')).toBe(false);
+    expect(isValidSetting('selectionFormat', 'html')).toBe(true);
+    expect(isValidSetting('urlMetadataFields', ['description', 'openGraph'])).toBe(true);
+    expect(isValidSetting('urlMetadataFields', ['description', 'favicon'])).toBe(false);
+    expect(isValidSetting('platformModels', { chatgpt: 'gpt-4o', custom_1: 'llama3.1' })).toBe(true);
+    expect(isValidSetting('platformModels', { chatgpt: 4 })).toBe(false);
+    expect(isValidSetting('platformModels', ['gpt-4o'])).toBe(false);
+  });
+
+  it('should report invalid settings and ignore unknown keys', () => {
+    const result = validateSettings({ autoSend: 'yes', darkMode: true, settingsVersion: 1, defaultModel: 'gpt-4' });
+
+    expect(result.valid).toEqual({ darkMode: true });
+    expect(result.invalid).toEqual(['autoSend']);
+    expect(isValidSetting('defaultModel', 'gpt-4')).toBe(false);
+  });
+
+  it('should handle missing input', () => {
+    expect(validateSettings(undefined)).toEqual({ valid: {}, invalid: [] });
+  });
+});
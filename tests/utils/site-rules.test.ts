@@ -0,0 +1,76 @@
+/**
+ * Unit tests for per-site rules
+ */
+
+import { evaluateSiteRules, matchesSitePattern, validateSiteRule, type SiteRule } from '../../src/utils/site-rules';
+
+const rule = (pattern: string, effects: Partial<SiteRule>): SiteRule => ({
+  id: pattern,
+  pattern,
+  block: false,
+  confirm: false,
+  ...effects
+});
+
+describe('Site Rules', () => {
+  describe('matchesSitePattern', () => {
+    it('should match hosts exactly or with their subdomains', () => {
+      expect(matchesSitePattern('https://example.com/page', 'example.com')).toBe(true);
+      expect(matchesSitePattern('https://www.example.com/page', 'example.com')).toBe(false);
+      expect(matchesSitePattern('https://jira.example.com/browse/X-1', '*.example.com')).toBe(true);
+      expect(matchesSitePattern('https://example.com/', '*.example.com')).toBe(true);
+      expect(matchesSitePattern('https://notexample.com/', '*.example.com')).toBe(false);
+    });
+
+    it('should match paths and everything below them', () => {
+      expect(matchesSitePattern('https://intranet.example.com/hr/payroll?id=1', 'intranet.example.com/hr')).toBe(true);
+      expect(matchesSitePattern('https://intranet.example.com/hr', 'intranet.example.com/hr/*')).toBe(true);
+      expect(matchesSitePattern('https://intranet.example.com/hrm', 'intranet.example.com/hr')).toBe(false);
+      expect(matchesSitePattern('https://intranet.example.com/wiki', 'intranet.example.com/hr')).toBe(false);
+    });
+
+    it('should support wildcards, schemes and ports', () => {
+      expect(matchesSitePattern('https://jira.acme.io/', 'jira.*')).toBe(true);
+      expect(matchesSitePattern('http://example.com/', 'https://example.com')).toBe(false);
+      expect(matchesSitePattern('http://localhost:8080/app', 'localhost:8080/app')).toBe(true);
+      expect(matchesSitePattern('http://localhost:3000/app', 'localhost:8080/app')).toBe(false);
+      expect(matchesSitePattern('http://localhost/app', 'localhost:8080/app')).toBe(false);
+      expect(matchesSitePattern('https://example.com/', 'example.com:443')).toBe(true);
+      expect(matchesSitePattern('http://localhost:3000/app', 'localhost/app')).toBe(true);
+      expect(matchesSitePattern('chrome://settings', 'example.com')).toBe(false);
+      expect(matchesSitePattern('', 'example.com')).toBe(false);
+    });
+  });
+
+  describe('evaluateSiteRules', () => {
+    const rules = [
+      rule('*.atlassian.net', { block: true }),
+      rule('*.example.com', { platform: 'claude', confirm: true }),
+      rule('docs.example.com', { platform: 'gemini', instructions: 'Answer in German.' })
+    ];
+
+    it('should combine every matching rule', () => {
+      expect(evaluateSiteRules('https://docs.example.com/a', rules)).toEqual({
+        blocked: false,
+        platform: 'claude',
+        instructions: 'Answer in German.',
+        confirm: true,
+        patterns: ['*.example.com', 'docs.example.com']
+      });
+    });
+
+    it('should block matching pages and leave others alone', () => {
+      expect(evaluateSiteRules('https://acme.atlassian.net/browse/X-1', rules).blocked).toBe(true);
+      expect(evaluateSiteRules('https://news.site/', rules)).toEqual({ blocked: false, platform: undefined, instructions: undefined, confirm: false, patterns: [] });
+    });
+  });
+
+  describe('validateSiteRule', () => {
+    it('should require a pattern and an effect', () => {
+      expect(validateSiteRule({ pattern: '', block: true, confirm: false })).not.toBeNull();
+      expect(validateSiteRule({ pattern: 'bad pattern', block: true, confirm: false })).not.toBeNull();
+      expect(validateSiteRule({ pattern: 'example.com', block: false, confirm: false })).toBe('Choose what the rule does');
+      expect(validateSiteRule({ pattern: '*.example.com/hr/*', block: true, confirm: false })).toBeNull();
+    });
+  });
+});
@@ -2,7 +2,8 @@
  * Unit tests for storage utility functions
  */
 
-import { storageManager, DEFAULT_SETTINGS } from '../../src/utils/storage';
+import { storageManager, DEFAULT_SETTINGS, DEFAULT_TEMPLATES } from '../../src/utils/storage';
+import { SETTINGS_VERSION } from '../../src/utils/migrations';
 import { mockStorageGet, mockStorageSet } from '../setup';
 
 describe('Storage Manager', () => {
@@ -62,6 +63,23 @@ describe('Storage Manager', () => {
       
       expect(settings).toEqual(DEFAULT_SETTINGS);
     });
+
+    it('should replace invalid stored values with defaults', async () => {
+      mockStorageGet({ transport: 'carrier-pigeon', historyMaxEntries: 5, darkMode: true });
+      
+      const settings = await storageManager.getSettings();
+      
+      expect(settings).toEqual({ ...DEFAULT_SETTINGS, darkMode: true });
+    });
+
+    it('should apply settings locked by the managed policy', async () => {
+      mockStorageGet({ autoSend: true, transport: 'api' });
+      chrome.storage.managed.get.mockResolvedValueOnce({ lockedSettings: { transport: 'tab' }, enforceRedaction: true });
+      
+      const settings = await storageManager.getSettings();
+      
+      expect(settings).toMatchObject({ autoSend: true, transport: 'tab', reviewSensitiveData: true });
+    });
   });
 
   describe('saveSettings', () => {
@@ -92,6 +110,15 @@ describe('Storage Manager', () => {
       expect(chrome.storage.local.set).toHaveBeenCalledWith(settingsToSave);
     });
 
+    it('should not store settings locked by the managed policy', async () => {
+      mockStorageSet();
+      chrome.storage.managed.get.mockResolvedValueOnce({ lockedSettings: { autoSend: false } });
+      
+      await storageManager.saveSettings({ autoSend: true, darkMode: true });
+      
+      expect(chrome.storage.sync.set).toHaveBeenCalledWith({ darkMode: true });
+    });
+
     it('should debounce multiple save calls', async () => {
       mockStorageSet();
       
@@ -170,4 +197,135 @@ describe('Storage Manager', () => {
       expect(mockCallback).not.toHaveBeenCalled();
     });
   });
-}); 
\ No newline at end of file
+
+  describe('migrateSettings', () => {
+    it('should migrate stored settings and record the schema version', async () => {
+      chrome.storage.sync.get.mockResolvedValue({ defaultModel: 'gpt-4', autoSend: true });
+      chrome.storage.local.get.mockResolvedValue({ settingsVersion: SETTINGS_VERSION });
+      chrome.storage.sync.remove.mockResolvedValue(undefined);
+      mockStorageSet();
+      
+      await storageManager.migrateSettings();
+      
+      expect(chrome.storage.sync.get).toHaveBeenCalledWith(null);
+      expect(chrome.storage.sync.remove).toHaveBeenCalledWith(['defaultModel']);
+      expect(chrome.storage.sync.set).toHaveBeenCalledWith({
+        platformModels: { chatgpt: 'gpt-4' },
+        settingsVersion: SETTINGS_VERSION
+      });
+      expect(chrome.storage.local.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeCustomPlatform', () => {
+    it('should stop sending to the removed platform from settings and site rules', async () => {
+      mockStorageGet({
+        customPlatforms: [{ id: 'custom_1', name: 'Local', url: 'http://localhost:3000' }],
+        defaultPlatform: 'custom_1',
+        fanOutPlatforms: ['claude', 'custom_1'],
+        siteRules: [{ id: 'rule_1', pattern: 'example.com', block: false, platform: 'custom_1', confirm: false }]
+      });
+      mockStorageSet();
+      chrome.storage.managed.get.mockResolvedValue({});
+
+      await storageManager.removeCustomPlatform('custom_1');
+
+      expect(chrome.storage.sync.set).toHaveBeenCalledWith({ customPlatforms: [] });
+      expect(chrome.storage.sync.set).toHaveBeenCalledWith({ defaultPlatform: 'chatgpt', fanOutPlatforms: ['claude'] });
+      expect(chrome.storage.sync.set).toHaveBeenCalledWith({
+        siteRules: [{ id: 'rule_1', pattern: 'example.com', block: false, platform: undefined, confirm: false }]
+      });
+    });
+  });
+
+  describe('templates', () => {
+    it('should return default templates when none are stored', async () => {
+      mockStorageGet({});
+      
+      const templates = await storageManager.getTemplates();
+      
+      expect(templates).toEqual(DEFAULT_TEMPLATES);
+    });
+
+    it('should list managed templates first and never store them', async () => {
+      mockStorageGet({ promptTemplates: [] });
+      mockStorageSet();
+      chrome.storage.managed.get.mockResolvedValue({ templates: [{ id: 'triage', name: 'Triage', instructions: 'Triage this ticket.' }] });
+      
+      const templates = await storageManager.getTemplates();
+      await storageManager.saveTemplates(templates);
+      chrome.storage.managed.get.mockReset();
+      
+      expect(templates).toEqual([{ id: 'managed_triage', name: 'Triage', instructions: 'Triage this ticket.' }]);
+      expect(chrome.storage.sync.set).toHaveBeenCalledWith({ promptTemplates: [] });
+    });
+
+    it('should add a template to the stored list', async () => {
+      mockStorageGet({ promptTemplates: [] });
+      mockStorageSet();
+      
+      await storageManager.addTemplate({ name: 'Review', instructions: 'Review {{selection}}' });
+      
+      const saved = chrome.storage.sync.set.mock.calls[0][0].promptTemplates;
+      expect(saved).toHaveLength(1);
+      expect(saved[0]).toMatchObject({ name: 'Review', instructions: 'Review {{selection}}' });
+      expect(saved[0].id).toMatch(/^template_/);
+    });
+
+    it('should remove a template by id', async () => {
+      mockStorageGet({ promptTemplates: DEFAULT_TEMPLATES });
+      mockStorageSet();
+      
+      await storageManager.removeTemplate('summarize');
+      
+      const saved = chrome.storage.sync.set.mock.calls[0][0].promptTemplates;
+      expect(saved.some((t: { id: string }) => t.id === 'summarize')).toBe(false);
+    });
+  });
+
+  describe('collections over the sync item quota', () => {
+    const areas: Record<'sync' | 'local', Record<string, unknown>> = { sync: {}, local: {} };
+
+    beforeEach(() => {
+      areas.sync = { siteRules: [] };
+      areas.local = {};
+      chrome.storage.sync.get.mockImplementation(async ([key]: string[]) => key in areas.sync ? { [key]: areas.sync[key] } : {});
+      chrome.storage.local.get.mockImplementation(async ([key]: string[]) => key in areas.local ? { [key]: areas.local[key] } : {});
+      chrome.storage.sync.set.mockImplementation(async (items: Record<string, unknown>) => {
+        if (JSON.stringify(items).length > 8192) throw new Error('QUOTA_BYTES_PER_ITEM quota exceeded');
+        Object.assign(areas.sync, items);
+      });
+      chrome.storage.local.set.mockImplementation(async (items: Record<string, unknown>) => { Object.assign(areas.local, items); });
+      chrome.storage.local.remove.mockImplementation(async (key: string) => { delete areas.local[key]; });
+    });
+
+    afterEach(() => {
+      [chrome.storage.sync.get, chrome.storage.local.get, chrome.storage.sync.set, chrome.storage.local.set, chrome.storage.local.remove]
+        .forEach(mock => mock.mockReset());
+    });
+
+    const rule = (index: number) => ({ id: `site_rule_${index}`, pattern: `site-${index}.example.com/${'x'.repeat(200)}`, block: true, confirm: false });
+
+    it('should keep reading the local copy once a collection outgrows sync storage', async () => {
+      const rules = Array.from({ length: 50 }, (_, index) => rule(index));
+
+      await storageManager.saveSiteRules(rules);
+      await storageManager.addSiteRule({ pattern: 'new.example.com', block: false, confirm: true });
+
+      const saved = await storageManager.getSiteRules();
+      expect(saved).toHaveLength(51);
+      expect(saved[50]).toMatchObject({ pattern: 'new.example.com' });
+      expect(areas.sync.siteRules).toEqual([]);
+    });
+
+    it('should move a collection back to sync storage once it fits again', async () => {
+      await storageManager.saveSiteRules(Array.from({ length: 50 }, (_, index) => rule(index)));
+
+      await storageManager.saveSiteRules([rule(1)]);
+
+      expect(await storageManager.getSiteRules()).toEqual([rule(1)]);
+      expect(areas.sync.siteRules).toEqual([rule(1)]);
+      expect(areas.local).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Unit tests for prompt template utilities
+ */
+
+import { expandTemplate, templateUsesVariable, buildTemplateVariables } from '../../src/utils/templates';
+
+describe('Prompt Templates', () => {
+  describe('expandTemplate', () => {
+    it('should replace known variables', () => {
+      const result = expandTemplate('Summarize {{title}} ({{url}})', {
+        title: 'Release notes',
+        url: 'https://example.com/notes'
+      });
+      
+      expect(result).toBe('Summarize Release notes (https://example.com/notes)');
+    });
+
+    it('should allow whitespace inside the braces', () => {
+      expect(expandTemplate('Translate to {{ language }}', { language: 'ja' })).toBe('Translate to ja');
+    });
+
+    it('should leave unknown or missing variables untouched', () => {
+      const result = expandTemplate('{{unknown}} and {{date}}', { title: 'x' });
+      
+      expect(result).toBe('{{unknown}} and {{date}}');
+    });
+
+    it('should not expand built-in object properties', () => {
+      expect(expandTemplate('{{constructor}} {{toString}}', {})).toBe('{{constructor}} {{toString}}');
+    });
+
+    it('should replace every occurrence', () => {
+      expect(expandTemplate('{{selection}} / {{selection}}', { selection: 'a' })).toBe('a / a');
+    });
+  });
+
+  describe('templateUsesVariable', () => {
+    it('should detect a referenced variable', () => {
+      expect(templateUsesVariable('Fix this: {{selection}}', 'selection')).toBe(true);
+    });
+
+    it('should return false when the variable is absent', () => {
+      expect(templateUsesVariable('Fix this: {{title}}', 'selection')).toBe(false);
+    });
+  });
+
+  describe('buildTemplateVariables', () => {
+    it('should collect page information', () => {
+      document.title = 'Test Page';
+      
+      const variables = buildTemplateVariables('selected text');
+      
+      expect(variables.selection).toBe('selected text');
+      expect(variables.title).toBe('Test Page');
+      expect(variables.language).toBe('en');
+      expect(variables.date).toBeTruthy();
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for token estimation
+ */
+
+import { estimateTokens, estimateUsage, formatTokenCount, getModelProfile, getPlatformModelProfile } from '../../src/utils/tokens';
+
+describe('Token Estimation', () => {
+  it('should count nothing for empty text', () => {
+    expect(estimateTokens('')).toBe(0);
+  });
+
+  it('should count short English words as one token each', () => {
+    // cl100k: "The", " quick", " brown", " fox", " jumps", "." = 6 tokens
+    expect(estimateTokens('The quick brown fox jumps.')).toBe(6);
+  });
+
+  it('should stay close to the real count for longer prose', () => {
+    const text = 'Summarize the following article in three bullet points, focusing on the main arguments and any supporting evidence.';
+    // Real tokenizers put this at about 20 tokens
+    const tokens = estimateTokens(text);
+
+    expect(tokens).toBeGreaterThanOrEqual(18);
+    expect(tokens).toBeLessThanOrEqual(25);
+  });
+
+  it('should count CJK text per character, fewer with o200k', () => {
+    const text = '这是一个测试句子';
+
+    expect(estimateTokens(text, 'cl100k')).toBe(8);
+    expect(estimateTokens(text, 'o200k')).toBeLessThan(8);
+  });
+});
+
+describe('Model Profiles', () => {
+  it('should match versioned and tagged model IDs by the longest prefix', () => {
+    expect(getModelProfile('gpt-4o-2024-08-06').name).toBe('GPT-4o');
+    expect(getModelProfile('gpt-4o-mini').name).toBe('GPT-4o mini');
+    expect(getModelProfile('gpt-4-0613').contextWindow).toBe(8192);
+    expect(getModelProfile('llama3.1:8b').name).toBe('Llama 3.1');
+  });
+
+  it('should fall back to a conservative profile for unknown models', () => {
+    const profile = getModelProfile('my-local-model');
+
+    expect(profile.name).toBe('my-local-model');
+    expect(profile.contextWindow).toBe(8192);
+  });
+
+  it('should use the platform profile where the model cannot be chosen', () => {
+    expect(getPlatformModelProfile('claude', 'gpt-4').name).toBe('Claude');
+    expect(getPlatformModelProfile('chatgpt', 'gpt-4').name).toBe('GPT-4');
+  });
+
+  it('should report context usage and cost', () => {
+    const usage = estimateUsage('word '.repeat(10000), getModelProfile('gpt-4'));
+
+    expect(usage.fits).toBe(false);
+    expect(usage.ratio).toBeGreaterThan(1);
+    expect(usage.cost).toBeCloseTo(usage.tokens * 30 / 1000000);
+  });
+
+  it('should format counts compactly', () => {
+    expect(formatTokenCount(950)).toBe('950');
+    expect(formatTokenCount(12345)).toBe('12.3K');
+    expect(formatTokenCount(128000)).toBe('128K');
+    expect(formatTokenCount(1000000)).toBe('1M');
+  });
+});
@@ -0,0 +1,19 @@
+import { defineConfig } from 'vite';
+
+export default defineConfig({
+  build: {
+    outDir: 'dist',
+    emptyOutDir: false,
+    rollupOptions: {
+      input: 'src/annotator/annotator.ts',
+      output: {
+        entryFileNames: 'annotator.js',
+        format: 'iife',
+        inlineDynamicImports: true,
+      },
+    },
+  },
+  esbuild: {
+    target: 'chrome88',
+  },
+});
\ No newline at end of file
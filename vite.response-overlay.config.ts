@@ -0,0 +1,19 @@
+import { defineConfig } from 'vite';
+
+export default defineConfig({
+  build: {
+    outDir: 'dist',
+    emptyOutDir: false,
+    rollupOptions: {
+      input: 'src/response-overlay/response-overlay.ts',
+      output: {
+        entryFileNames: 'response-overlay.js',
+        format: 'iife',
+        inlineDynamicImports: true,
+      },
+    },
+  },
+  esbuild: {
+    target: 'chrome88',
+  },
+});
\ No newline at end of file